@@ -14,155 +14,902 @@ import {SedaDataTypes} from "@seda-protocol/evm/contracts/libraries/SedaDataType
  * @author Open Oracle Association
  * @notice An example showing how to create and interact with SEDA network requests.
  * @dev This contract demonstrates basic SEDA request creation and result fetching.
+ * Several requests can be pending at once, each result only updates the tokens of its own request.
+ * Requests are transmitted by the owner and the operators it appoints, the owner also manages the request
+ * parameters and the oracle program.
+ * Results are guarded: a price above 1e6 or a change larger than the maximum deviation rejects the whole result and
+ * trips a circuit breaker that pauses updates until the owner resets it.
  */
 contract PriceFeed {
+    /// @notice Per-token outcome reported by the oracle program
+    /// @dev The price of a Resolved token is its final outcome: 1e6 if the outcome won, 0 otherwise. Closed tokens
+    /// belong to a market that stopped trading without a final outcome yet and have no price
+    enum PriceStatus {
+        Ok,
+        FetchFailed,
+        ParseFailed,
+        Resolved,
+        Closed
+    }
+
+    /// @notice Why the guard rejected the price of a token
+    /// @dev None: the price passed the guard. OutOfBounds: the price or a market data field is above 1e6. Deviation:
+    /// the price moved further from the token's latest Ok price than the maximum deviation
+    enum RejectReason {
+        None,
+        OutOfBounds,
+        Deviation
+    }
+
+    /// @notice Order-book data and TWAP of a token, fields are 0 when the oracle could not fetch them
+    /// @dev The TWAP is only fetched by requests transmitted with transmitTwap
+    struct MarketData {
+        uint256 bid;
+        uint256 ask;
+        uint256 spread;
+        uint256 lastTrade;
+        uint256 twap;
+    }
+
+    /// @notice A successful update: when and from which request the prices were produced
+    struct Round {
+        uint64 timestamp;
+        uint64 blockHeight;
+        bytes32 requestId;
+    }
+
+    /// @notice A past price of a token
+    struct PricePoint {
+        uint80 roundId;
+        uint64 timestamp;
+        PriceStatus status;
+        uint256 price;
+    }
+
+    /// @notice The latest price of a token and the round it was produced in
+    /// @dev Once a token is Resolved its feed is final, later results only extend its price history
+    struct TokenFeed {
+        uint256 tokenId;
+        uint80 roundId;
+        uint64 updatedAt;
+        PriceStatus status;
+        uint256 price;
+        MarketData marketData;
+        /// @dev True if the price is the normalized probability of one outcome of a set checked to sum to 1
+        bool checked;
+        /// @dev Round and price of the latest Ok price, the reference of the deviation check. okRoundId is 0 until
+        /// the token has one
+        uint80 okRoundId;
+        uint256 okPrice;
+    }
+
+    /// @notice Parameters of the requests posted to the SEDA network
+    struct RequestParams {
+        uint128 gasPrice;
+        uint64 execGasLimit;
+        uint64 tallyGasLimit;
+        uint16 replicationFactor;
+        bytes consensusFilter;
+    }
+
+    /// @notice A request transmitted through this contract
+    /// @dev outcomeSetSizes splits tokenIds into consecutive outcome sets, empty unless sent with transmitOutcomeSets.
+    /// A dropped request got a final result that failed, could not be decoded or was rejected by the guard
+    struct Request {
+        uint256[] tokenIds;
+        bool applied;
+        bool dropped;
+        uint256[] outcomeSetSizes;
+    }
+
+    /// @notice A decoded tally result, every array has one entry per token ID of the request
+    struct TallyResult {
+        uint256[] prices;
+        PriceStatus[] statuses;
+        MarketData[] marketData;
+    }
+
     /// @notice Instance of the SedaCore contract
     ISedaCore public immutable SEDA_CORE;
 
     /// @notice ID of the request WASM binary on the SEDA network
-    bytes32 public immutable ORACLE_PROGRAM_ID;
+    bytes32 public oracleProgramId;
+
+    /// @notice Account that manages operators and request parameters
+    address public owner;
+
+    /// @notice Accounts allowed to transmit requests next to the owner
+    mapping(address => bool) public operators;
+
+    /// @notice Parameters used for every new request
+    RequestParams private requestParams;
 
     /// @notice ID of the most recent request
     bytes32 public requestId;
 
-    /// @notice The latest prices for each token ID
-    uint256[] public latestPrices;
+    /// @notice ID of the latest round, 0 until the first successful update
+    uint80 public latestRoundId;
+
+    /// @notice Every round by ID, starting at 1
+    mapping(uint80 => Round) public rounds;
+
+    /// @notice Latest price per token ID
+    mapping(uint256 => TokenFeed) private feeds;
+
+    /// @notice Every token that has been priced, in the order they were first priced
+    uint256[] private trackedTokenIds;
+
+    /// @notice Price history per token ID, in round order
+    mapping(uint256 => PricePoint[]) private priceHistory;
+
+    /// @notice Requests transmitted through this contract by ID
+    mapping(bytes32 => Request) private requests;
 
-    /// @notice The token IDs for each price (same order as latestPrices)
-    string[] public storedTokenIds;
+    /// @notice IDs of the requests without a final result yet
+    bytes32[] private pendingRequestIds;
+
+    /// @notice Position of each pending request in pendingRequestIds, plus one (0 when not pending)
+    mapping(bytes32 => uint256) private pendingPositions;
+
+    /// @notice Largest change of a token's price in one update, with 6 decimals (0 disables the check)
+    uint256 public maxDeviation;
+
+    /// @notice True while the circuit breaker is tripped, results are not applied until the owner resets it
+    bool public paused;
+
+    /// @notice Request whose result tripped the circuit breaker last, 0 if it never tripped on a result
+    bytes32 public trippedRequestId;
+
+    /// @notice Order-book fields new requests fetch on top of the midpoint, one bit per field (see setMarketFields)
+    uint8 public marketFields;
+
+    /// @dev Execution inputs around the token ID list, followed by the requested order-book fields. JSON quotes are
+    /// written as \x22 here and below, an escaped \" would be turned into a single-quoted string by the formatter
+    bytes private constant EXEC_INPUTS_PREFIX = "{\x22token_ids\x22:[";
+    bytes private constant EXEC_INPUTS_FIELDS = "],\x22fields\x22:[";
+
+    /// @dev Bits of marketFields: bid, ask, spread and last trade, each costs executors requests to the CLOB
+    uint8 private constant ALL_MARKET_FIELDS = 0x0f;
+
+    /// @dev Execution inputs in front of the TWAP window and interval
+    bytes private constant EXEC_INPUTS_TWAP_WINDOW = ",\x22mode\x22:\x22twap\x22,\x22window\x22:";
+    bytes private constant EXEC_INPUTS_TWAP_INTERVAL = ",\x22interval\x22:";
+
+    /// @dev Longest TWAP window the oracle program accepts, the CLOB serves at most a month of price history
+    uint32 private constant MAX_TWAP_WINDOW = 30 days;
+
+    /// @dev Tally inputs around the outcome sets and their tolerance, prices are always normalized
+    bytes private constant TALLY_INPUTS_PREFIX = "{\x22outcome_sets\x22:[";
+    bytes private constant TALLY_INPUTS_TOLERANCE = "],\x22tolerance\x22:\x22";
+    bytes private constant TALLY_INPUTS_SUFFIX = "\x22,\x22normalize\x22:true}";
+
+    /// @dev Fixed point of the stored prices, the tally inputs keep the default of 6 decimals
+    uint256 private constant PRICE_SCALE = 1e6;
+
+    /// @dev Double quote around every token ID in the execution inputs
+    bytes1 private constant QUOTE = 0x22;
+
+    /// @notice Thrown when a TWAP interval is not a positive number of minutes or the window is shorter than
+    /// the interval or longer than 30 days
+    error InvalidTwapWindow(uint32 window, uint32 interval);
+
+    /// @notice Thrown when outcome set sizes are below 2 or do not add up to the number of token IDs
+    error InvalidOutcomeSets();
+
+    /// @notice Thrown when an outcome set tolerance is larger than 1 (1e6)
+    error InvalidTolerance(uint256 tolerance);
+
+    /// @notice Thrown when the latest price of a token was not checked against the other outcomes of its set
+    error ProbabilityUnchecked(uint256 tokenId);
+
+    /// @notice Thrown when a caller other than the owner calls an owner-only function
+    error NotOwner(address caller);
+
+    /// @notice Thrown when a caller that is neither the owner nor an operator transmits a request
+    error NotOperator(address caller);
+
+    /// @notice Thrown when transferring ownership to the zero address
+    error InvalidOwner(address owner);
+
+    /// @notice Thrown when request parameters have a zero gas price, gas limit or replication factor
+    error InvalidRequestParams();
 
     /// @notice Thrown when trying to fetch results before any request is transmitted
     error RequestNotTransmitted();
 
+    /// @notice Thrown when a request was not transmitted through this contract
+    error UnknownRequest(bytes32 requestId);
+
+    /// @notice Thrown when transmitting a request without token IDs
+    error NoTokenIds();
+
+    /// @notice Thrown when a request lists a token ID more than once
+    error DuplicateTokenId(uint256 tokenId);
+
     /// @notice Thrown when trying to access an invalid token index
     error InvalidTokenIndex();
 
     /// @notice Thrown when trying to access a token ID that doesn't exist
     error TokenIdNotFound();
 
+    /// @notice Thrown when the oracle could not price the requested token
+    error PriceUnavailable(PriceStatus status);
+
+    /// @notice Thrown when a result is applied while the circuit breaker is tripped
+    error UpdatesPaused();
+
+    /// @notice Thrown when the market fields have a bit set that does not select an order-book field
+    error InvalidMarketFields(uint8 fields);
+
+    /// @notice Thrown when the maximum deviation is larger than 1 (1e6)
+    error InvalidMaxDeviation(uint256 maxDeviation);
+
+    /// @notice Thrown when no prices have been recorded yet
+    error NoRoundData();
+
+    /// @notice Thrown when a token has no price in the requested round
+    error RoundNotFound(uint80 roundId);
+
+    /// @notice Thrown when the latest price is older than the maximum age the caller accepts
+    error StalePrice(uint256 updatedAt, uint256 maxAge);
+
+    /// @notice Thrown when sending the refunded fees to the owner's recipient fails
+    error RefundTransferFailed();
+
+    /// @notice Emitted when a request is transmitted, with the tokens it prices
+    event PricesRequested(bytes32 indexed requestId, address indexed requester, uint256[] tokenIds);
+
+    /// @notice Emitted when a request is transmitted, with the inputs posted to SEDA Core
+    /// @dev Lets off-chain tools run exactly what the contract requested, e.g. the local relay
+    event RequestInputsPosted(bytes32 indexed requestId, bytes execInputs, bytes tallyInputs);
+
+    /// @notice Emitted when a result is applied, with the price and status of every token of the request
+    /// @dev timestamp is the SEDA block timestamp of the result, entries are index-aligned with tokenIds
+    event PricesUpdated(
+        bytes32 indexed requestId,
+        uint80 indexed roundId,
+        uint64 timestamp,
+        uint256[] tokenIds,
+        uint256[] prices,
+        PriceStatus[] statuses
+    );
+
+    /// @notice Emitted when the market of a token resolved, outcome is 1e6 if the token's outcome won and 0 otherwise
+    event TokenResolved(uint256 indexed tokenId, uint80 indexed roundId, uint256 outcome);
+
+    /// @notice Emitted for every token whose price the guard rejected, previousPrice is its latest Ok price
+    event PriceRejected(
+        bytes32 indexed requestId,
+        uint256 indexed tokenId,
+        uint256 price,
+        uint256 previousPrice,
+        RejectReason reason
+    );
+
+    /// @notice Emitted when the circuit breaker pauses updates, requestId is 0 when the owner paused them
+    event CircuitBreakerTripped(bytes32 indexed requestId, uint256 rejectedCount);
+
+    /// @notice Emitted when the owner resets the circuit breaker and updates resume
+    event CircuitBreakerReset(address indexed by);
+
+    /// @notice Emitted when the maximum deviation changes
+    event MaxDeviationUpdated(uint256 previousMaxDeviation, uint256 newMaxDeviation);
+
+    /// @notice Emitted when the owner changes the order-book fields of new requests
+    event MarketFieldsUpdated(uint8 previousFields, uint8 newFields);
+
+    /// @notice Emitted when a request's final result failed or cannot be decoded, the request is no longer pending
+    /// @dev A dropped result with consensus and exit code 0 is not a valid encoding of one price per token ID
+    event RequestDropped(bytes32 indexed requestId, bool consensus, uint8 exitCode);
+
+    /// @notice Emitted when a result is stored as a new round
+    event RoundRecorded(uint80 indexed roundId, bytes32 indexed requestId, uint64 timestamp, uint64 blockHeight);
+
+    /// @notice Emitted when a request is transmitted, with the fees sent to SEDA Core
+    /// @dev gasLimit is the most SEDA gas the request fee pays for: every executor's execution plus the tally
+    event RequestFeesPaid(
+        bytes32 indexed requestId,
+        address indexed payer,
+        uint256 requestFee,
+        uint256 resultFee,
+        uint256 batchFee,
+        uint256 gasLimit
+    );
+
+    /// @notice Emitted when SEDA Core refunds unused fees to the contract
+    event FeesRefunded(address indexed from, uint256 amount);
+
+    /// @notice Emitted when the owner withdraws refunded fees
+    event RefundsWithdrawn(address indexed recipient, uint256 amount);
+
+    /// @notice Emitted when the owner changes
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    /// @notice Emitted when an operator is added or removed
+    event OperatorUpdated(address indexed operator, bool allowed);
+
+    /// @notice Emitted when the request parameters change
+    event RequestParamsUpdated(
+        uint128 gasPrice,
+        uint64 execGasLimit,
+        uint64 tallyGasLimit,
+        uint16 replicationFactor,
+        bytes consensusFilter
+    );
+
+    /// @notice Emitted when the oracle program is replaced, e.g. after an upgrade
+    event OracleProgramIdUpdated(bytes32 previousOracleProgramId, bytes32 newOracleProgramId);
+
+    /// @dev Restricts a function to the owner
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner(msg.sender);
+        _;
+    }
+
+    /// @dev Restricts a function to the owner and the operators
+    modifier onlyOperator() {
+        if (msg.sender != owner && !operators[msg.sender]) revert NotOperator(msg.sender);
+        _;
+    }
+
     /**
-     * @notice Sets up the contract with SEDA network parameters
+     * @notice Sets up the contract with SEDA network parameters, the deployer becomes the owner
      * @param _sedaCoreAddress Address of the SedaCore contract
      * @param _oracleProgramId ID of the WASM binary for handling requests
      */
     constructor(address _sedaCoreAddress, bytes32 _oracleProgramId) {
         SEDA_CORE = ISedaCore(_sedaCoreAddress);
-        ORACLE_PROGRAM_ID = _oracleProgramId;
+        oracleProgramId = _oracleProgramId;
+        owner = msg.sender;
+        marketFields = ALL_MARKET_FIELDS;
+        emit OwnershipTransferred(address(0), msg.sender);
+
+        _setRequestParams(
+            RequestParams(
+                2000, // gasPrice (SEDA tokens per gas unit)
+                50000000000000, // execGasLimit (within uint64 range)
+                20000000000000, // tallyGasLimit (within uint64 range)
+                1, // replicationFactor (number of required DR executors)
+                hex"00" // consensusFilter (set to `None`)
+            )
+        );
+    }
+
+    /**
+     * @notice Accepts fees SEDA Core refunds, e.g. the unused share of a request fee
+     */
+    receive() external payable {
+        emit FeesRefunded(msg.sender, msg.value);
+    }
+
+    /**
+     * @notice Sends the refunded fees held by the contract to a recipient
+     * @param recipient Address receiving the contract's balance
+     */
+    function withdrawRefunds(address payable recipient) external onlyOwner {
+        uint256 amount = address(this).balance;
+        emit RefundsWithdrawn(recipient, amount);
+        (bool success, ) = recipient.call{value: amount}("");
+        if (!success) revert RefundTransferFailed();
+    }
+
+    /**
+     * @notice Hands the contract over to a new owner
+     * @param newOwner Address of the new owner
+     */
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert InvalidOwner(newOwner);
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /**
+     * @notice Allows or disallows an account to transmit requests
+     * @param operator Address of the operator
+     * @param allowed Whether the operator may transmit
+     */
+    function setOperator(address operator, bool allowed) external onlyOwner {
+        operators[operator] = allowed;
+        emit OperatorUpdated(operator, allowed);
+    }
+
+    /**
+     * @notice Changes the parameters of future requests, pending requests are not affected
+     * @param params The new gas price, gas limits, replication factor and consensus filter
+     */
+    function setRequestParams(RequestParams calldata params) external onlyOwner {
+        _setRequestParams(params);
+    }
+
+    /**
+     * @notice Points future requests to another oracle program, e.g. an upgraded build
+     * @dev Results of pending requests are still applied, they were produced by the previous program
+     * @param _oracleProgramId ID of the new WASM binary
+     */
+    function setOracleProgramId(bytes32 _oracleProgramId) external onlyOwner {
+        emit OracleProgramIdUpdated(oracleProgramId, _oracleProgramId);
+        oracleProgramId = _oracleProgramId;
+    }
+
+    /**
+     * @notice Changes the order-book fields new requests fetch on top of the midpoint
+     * @dev Every field costs each executor CLOB requests per token (bid, ask and spread share one), so a feed that
+     * only serves midpoints should request none. Pending requests are not affected
+     * @param fields Bit set of the fields: 1 bid, 2 ask, 4 spread, 8 last trade (0 for the midpoint only)
+     */
+    function setMarketFields(uint8 fields) external onlyOwner {
+        if (fields > ALL_MARKET_FIELDS) revert InvalidMarketFields(fields);
+        emit MarketFieldsUpdated(marketFields, fields);
+        marketFields = fields;
+    }
+
+    /**
+     * @notice Changes the largest change of a token's price a result may apply in one update
+     * @dev Resolutions are exempt, a market resolves to 0 or 1 from any price
+     * @param _maxDeviation Largest absolute change with 6 decimals (e.g. 200000 for 0.2), 0 disables the check
+     */
+    function setMaxDeviation(uint256 _maxDeviation) external onlyOwner {
+        if (_maxDeviation > PRICE_SCALE) revert InvalidMaxDeviation(_maxDeviation);
+        emit MaxDeviationUpdated(maxDeviation, _maxDeviation);
+        maxDeviation = _maxDeviation;
+    }
+
+    /**
+     * @notice Trips the circuit breaker by hand, e.g. while a market is being manipulated
+     */
+    function pause() external onlyOwner {
+        paused = true;
+        emit CircuitBreakerTripped(bytes32(0), 0);
+    }
+
+    /**
+     * @notice Resets the circuit breaker so results are applied again
+     * @dev The rejected result stays dropped. To accept a legitimate move, raise the maximum deviation before
+     * applying the next result, or it trips the breaker again
+     */
+    function resetCircuitBreaker() external onlyOwner {
+        paused = false;
+        emit CircuitBreakerReset(msg.sender);
+    }
+
+    /**
+     * @notice Gets the parameters used for new requests
+     * @return The gas price, gas limits, replication factor and consensus filter
+     */
+    function getRequestParams() external view returns (RequestParams memory) {
+        return requestParams;
     }
 
     /**
      * @notice Creates a new price request for multiple Polymarket tokens on the SEDA network
-     * @dev Demonstrates how to structure and send a request to SEDA for multiple token IDs
-     * @param tokenIds Comma-separated string of Polymarket token IDs
+     * @dev Demonstrates how to structure and send a request to SEDA for multiple token IDs.
+     * Next to the midpoint, every token is priced with the order-book fields selected with setMarketFields.
+     * The request stays pending until its result is applied with updateLatestAnswers.
+     * Only the owner and the operators can transmit. The fees are sent along as msg.value, SEDA Core refunds
+     * what the request does not use to this contract.
+     * @param tokenIds Polymarket token IDs
      * @param requestFee The fee for the request
      * @param resultFee The fee for the result
      * @param batchFee The fee for the batch
      * @return The ID of the created request
      */
     function transmit(
-        string calldata tokenIds,
+        uint256[] calldata tokenIds,
         uint256 requestFee,
         uint256 resultFee,
         uint256 batchFee
-    ) external payable returns (bytes32) {
-        SedaDataTypes.RequestInputs memory inputs = SedaDataTypes.RequestInputs(
-            ORACLE_PROGRAM_ID, // execProgramId (Execution WASM binary ID)
-            ORACLE_PROGRAM_ID, // tallyProgramId (same as execProgramId in this example)
-            2000, // gasPrice (SEDA tokens per gas unit)
-            50000000000000, // execGasLimit (within uint64 range)
-            20000000000000, // tallyGasLimit (within uint64 range)
-            1, // replicationFactor (number of required DR executors)
-            bytes(tokenIds), // execInputs (Comma-separated token IDs)
-            hex"00", // tallyInputs
-            hex"00", // consensusFilter (set to `None`)
-            abi.encodePacked(block.number) // memo (Additional public info)
-        );
+    ) external payable onlyOperator returns (bytes32) {
+        if (tokenIds.length == 0) revert NoTokenIds();
+        return _transmit(tokenIds, _execInputs(tokenIds, marketFields, 0, 0), hex"00", requestFee, resultFee, batchFee);
+    }
 
-        // Pass the msg.value as fees to the SEDA core
-        requestId = SEDA_CORE.postRequest{value: msg.value}(inputs, requestFee, resultFee, batchFee);
+    /**
+     * @notice Transmits a request that also fetches the time-weighted average price of every token
+     * @dev Like transmit, the oracle program additionally averages each token's CLOB price history over the
+     * window, which is much harder to move than a single midpoint. The TWAP is stored in the market data next
+     * to the spot price.
+     * @param tokenIds Polymarket token IDs
+     * @param window Seconds of price history to average, at most 30 days
+     * @param interval Seconds between the price history samples, a multiple of 60 no longer than the window
+     * @param requestFee The fee for the request
+     * @param resultFee The fee for the result
+     * @param batchFee The fee for the batch
+     * @return The ID of the created request
+     */
+    function transmitTwap(
+        uint256[] calldata tokenIds,
+        uint32 window,
+        uint32 interval,
+        uint256 requestFee,
+        uint256 resultFee,
+        uint256 batchFee
+    ) external payable onlyOperator returns (bytes32) {
+        if (tokenIds.length == 0) revert NoTokenIds();
+        if (interval == 0 || interval % 60 != 0 || window < interval || window > MAX_TWAP_WINDOW) {
+            revert InvalidTwapWindow(window, interval);
+        }
+        return
+            _transmit(
+                tokenIds,
+                _execInputs(tokenIds, marketFields, window, interval),
+                hex"00",
+                requestFee,
+                resultFee,
+                batchFee
+            );
+    }
 
-        // Parse and store the token IDs
-        bytes memory tokenIdsBytes = bytes(tokenIds);
-        delete storedTokenIds; // Clear previous token IDs
+    /**
+     * @notice Transmits a request for tokens that are the outcomes of the same markets, e.g. the Yes and No token
+     * of a binary market, whose prices are probabilities that have to sum to 1
+     * @dev The token IDs are split into consecutive outcome sets of the given sizes. The oracle program fails the
+     * request with a distinct exit code unless every fully priced set sums to 1 within the tolerance, and
+     * normalizes the prices of every set to sum to exactly 1. Those prices are marked as checked and served by
+     * getProbabilityByTokenId.
+     * @param tokenIds Polymarket token IDs, grouped by outcome set
+     * @param outcomeSetSizes Number of tokens of every outcome set, at least 2 each
+     * @param tolerance Largest distance from 1 (1e6) a set may sum to, with 6 decimals
+     * @param requestFee The fee for the request
+     * @param resultFee The fee for the result
+     * @param batchFee The fee for the batch
+     * @return The ID of the created request
+     */
+    function transmitOutcomeSets(
+        uint256[] calldata tokenIds,
+        uint256[] calldata outcomeSetSizes,
+        uint256 tolerance,
+        uint256 requestFee,
+        uint256 resultFee,
+        uint256 batchFee
+    ) external payable onlyOperator returns (bytes32) {
+        if (tokenIds.length == 0) revert NoTokenIds();
+        if (tolerance > PRICE_SCALE) revert InvalidTolerance(tolerance);
 
-        // Simple parsing: split by comma
-        uint256 start = 0;
-        for (uint256 i = 0; i <= tokenIdsBytes.length; i++) {
-            if (i == tokenIdsBytes.length || tokenIdsBytes[i] == ",") {
-                if (i > start) {
-                    bytes memory tokenIdBytes = new bytes(i - start);
-                    for (uint256 j = 0; j < i - start; j++) {
-                        tokenIdBytes[j] = tokenIdsBytes[start + j];
-                    }
-                    storedTokenIds.push(string(tokenIdBytes));
-                }
-                start = i + 1;
-            }
+        uint256 total = 0;
+        for (uint256 i = 0; i < outcomeSetSizes.length; i++) {
+            if (outcomeSetSizes[i] < 2) revert InvalidOutcomeSets();
+            total += outcomeSetSizes[i];
         }
+        if (total != tokenIds.length) revert InvalidOutcomeSets();
 
-        return requestId;
+        bytes32 newRequestId = _transmit(
+            tokenIds,
+            _execInputs(tokenIds, marketFields, 0, 0),
+            _tallyInputs(outcomeSetSizes, tolerance),
+            requestFee,
+            resultFee,
+            batchFee
+        );
+        requests[newRequestId].outcomeSetSizes = outcomeSetSizes;
+        return newRequestId;
     }
 
     /**
-     * @notice Retrieves and stores the results of the latest request
-     * @dev Shows how to fetch and interpret SEDA request results for multiple prices
-     * @return success Whether the result was successfully processed
+     * @notice Retrieves and stores the result of a request
+     * @dev Shows how to fetch and interpret SEDA request results for multiple prices.
+     * Every new result is recorded as a round with the SEDA block timestamp and height, applying a result
+     * twice does not start a new round. A token's latest price is only replaced by a result that is at least
+     * as recent, so results applied out of order never roll prices back.
+     * Reverts with UpdatesPaused while the circuit breaker is tripped. SEDA results are final: a result without
+     * consensus, with a non-zero exit code (e.g. an outcome set that does not sum to 1) or that is not index-aligned
+     * with the request's token IDs is dropped, and a result the guard rejects is dropped without a round and trips
+     * the circuit breaker. Either way the request is no longer pending.
+     * @param _requestId ID of a request transmitted through this contract
+     * @return success Whether the result was successfully processed, false if it was dropped
      */
-    function updateLatestAnswers() external returns (bool) {
-        if (requestId == bytes32(0)) revert RequestNotTransmitted();
+    function updateLatestAnswers(bytes32 _requestId) external returns (bool) {
+        if (paused) revert UpdatesPaused();
+        Request storage request = requests[_requestId];
+        if (request.tokenIds.length == 0) revert UnknownRequest(_requestId);
+        if (request.applied) return true;
+        if (request.dropped) return false;
 
-        SedaDataTypes.Result memory result = SEDA_CORE.getResult(requestId);
+        SedaDataTypes.Result memory result = SEDA_CORE.getResult(_requestId);
+        _removePending(_requestId);
 
-        if (result.consensus && result.exitCode == 0) {
-            // The oracle now returns properly ABI-encoded uint256[] data
-            uint256[] memory prices = abi.decode(result.result, (uint256[]));
-            latestPrices = prices;
-            return true;
+        if (!result.consensus || result.exitCode != 0 || !_isWellFormed(request.tokenIds.length, result.result)) {
+            request.dropped = true;
+            emit RequestDropped(_requestId, result.consensus, result.exitCode);
+            return false;
         }
 
-        return false;
+        TallyResult memory tally = _decodeResult(request.tokenIds.length, result.result);
+        if (_rejectResult(_requestId, request.tokenIds, tally, result.blockTimestamp)) {
+            request.dropped = true;
+            return false;
+        }
+        request.applied = true;
+
+        uint80 roundId = ++latestRoundId;
+        rounds[roundId] = Round(result.blockTimestamp, result.blockHeight, _requestId);
+
+        _storeResult(_requestId, request, tally, roundId, result.blockTimestamp);
+
+        emit RoundRecorded(roundId, _requestId, result.blockTimestamp, result.blockHeight);
+        return true;
+    }
+
+    /**
+     * @notice Gets the IDs of all requests without a final result yet
+     * @return Array of pending request IDs
+     */
+    function getPendingRequests() external view returns (bytes32[] memory) {
+        return pendingRequestIds;
+    }
+
+    /**
+     * @notice Gets the token IDs priced by a request
+     * @param _requestId ID of a request transmitted through this contract
+     * @return Array of token IDs, in result order
+     */
+    function getRequestTokenIds(bytes32 _requestId) external view returns (uint256[] memory) {
+        return requests[_requestId].tokenIds;
+    }
+
+    /**
+     * @notice Checks whether a request has no final result yet
+     * @param _requestId ID of a request transmitted through this contract
+     * @return True if the request is pending
+     */
+    function isPending(bytes32 _requestId) external view returns (bool) {
+        return pendingPositions[_requestId] != 0;
     }
 
     /**
      * @notice Gets the price for a specific token by token ID
-     * @param tokenId The token ID string
+     * @dev Reverts with PriceUnavailable if the oracle could not price the token
+     * @param tokenId The token ID
      * @return The price for the specified token
      */
-    function getPriceByTokenId(string calldata tokenId) external view returns (uint256) {
-        // Find the index of the token ID
-        for (uint256 i = 0; i < storedTokenIds.length; i++) {
-            if (keccak256(abi.encodePacked(storedTokenIds[i])) == keccak256(abi.encodePacked(tokenId))) {
-                if (i >= latestPrices.length) revert InvalidTokenIndex();
-                return latestPrices[i];
-            }
+    function getPriceByTokenId(uint256 tokenId) external view returns (uint256) {
+        return _availablePrice(_feed(tokenId));
+    }
+
+    /**
+     * @notice Gets the probability of an outcome, the latest price of a token transmitted with transmitOutcomeSets
+     * @dev Reverts with ProbabilityUnchecked unless the latest result priced the token's whole outcome set, the
+     * probabilities of a set then sum to exactly 1e6
+     * @param tokenId The token ID
+     * @return The probability of the outcome, with 6 decimals
+     */
+    function getProbabilityByTokenId(uint256 tokenId) external view returns (uint256) {
+        TokenFeed storage feed = _feed(tokenId);
+        if (!feed.checked) revert ProbabilityUnchecked(tokenId);
+        return feed.price;
+    }
+
+    /**
+     * @notice Gets the final outcome of a token whose market resolved
+     * @dev Does not revert for unknown or unresolved tokens, settlement contracts can poll it
+     * @param tokenId The token ID
+     * @return resolved True once the oracle reported the market of the token as resolved
+     * @return outcome 1e6 if the token's outcome won, 0 otherwise (and 0 while unresolved)
+     * @return resolvedAt SEDA block timestamp of the result that resolved the token
+     */
+    function getResolution(uint256 tokenId) external view returns (bool resolved, uint256 outcome, uint64 resolvedAt) {
+        TokenFeed storage feed = feeds[tokenId];
+        if (feed.status != PriceStatus.Resolved) return (false, 0, 0);
+        return (true, feed.price, feed.updatedAt);
+    }
+
+    /**
+     * @notice Gets the price for a specific token by token ID, reverting if it is older than `maxAge`
+     * @dev The final outcome of a resolved token never goes stale
+     * @param tokenId The token ID
+     * @param maxAge Maximum age of the price in seconds
+     * @return The price for the specified token
+     */
+    function getPriceByTokenIdNoOlderThan(uint256 tokenId, uint256 maxAge) external view returns (uint256) {
+        TokenFeed storage feed = _feed(tokenId);
+        if (feed.status != PriceStatus.Resolved) _checkAge(feed.updatedAt, maxAge);
+        return _availablePrice(feed);
+    }
+
+    /**
+     * @notice Gets the latest price, status and round of a token
+     * @param tokenId The token ID
+     * @return The token's feed
+     */
+    function getFeed(uint256 tokenId) external view returns (TokenFeed memory) {
+        return _feed(tokenId);
+    }
+
+    /**
+     * @notice Gets the price for a specific token by index
+     * @dev Reverts with PriceUnavailable if the oracle could not price the token
+     * @param tokenIndex The index of the token
+     * @return The price for the specified token
+     */
+    function getPrice(uint256 tokenIndex) external view returns (uint256) {
+        return _availablePrice(_feedAt(tokenIndex));
+    }
+
+    /**
+     * @notice Gets the price for a specific token by index, reverting if it is older than `maxAge`
+     * @dev The final outcome of a resolved token never goes stale
+     * @param tokenIndex The index of the token
+     * @param maxAge Maximum age of the price in seconds
+     * @return The price for the specified token
+     */
+    function getPriceNoOlderThan(uint256 tokenIndex, uint256 maxAge) external view returns (uint256) {
+        if (trackedTokenIds.length == 0) revert NoRoundData();
+        TokenFeed storage feed = _feedAt(tokenIndex);
+        if (feed.status != PriceStatus.Resolved) _checkAge(feed.updatedAt, maxAge);
+        return _availablePrice(feed);
+    }
+
+    /**
+     * @notice Gets the price of the first token (legacy single-value interface)
+     * @dev Returns 0 before the first successful update
+     * @return The latest price of the first token
+     */
+    function latestAnswer() external view returns (int256) {
+        if (requestId == bytes32(0)) revert RequestNotTransmitted();
+        if (trackedTokenIds.length == 0) return 0;
+        return int256(_availablePrice(feeds[trackedTokenIds[0]]));
+    }
+
+    /**
+     * @notice Gets the latest round of the first token, AggregatorV3-style
+     * @return roundId The round ID
+     * @return answer The price
+     * @return startedAt Timestamp of the round
+     * @return updatedAt Timestamp of the round
+     * @return answeredInRound The round ID
+     */
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        if (trackedTokenIds.length == 0) revert NoRoundData();
+        return _roundData(trackedTokenIds[0], feeds[trackedTokenIds[0]].roundId);
+    }
+
+    /**
+     * @notice Gets a past round of the first token, AggregatorV3-style
+     * @param _roundId The round ID
+     */
+    function getRoundData(
+        uint80 _roundId
+    )
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        if (trackedTokenIds.length == 0) revert NoRoundData();
+        return _roundData(trackedTokenIds[0], _roundId);
+    }
+
+    /**
+     * @notice Gets the latest round of a token, AggregatorV3-style
+     * @param tokenId The token ID
+     */
+    function latestRoundDataByTokenId(
+        uint256 tokenId
+    )
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        return _roundData(tokenId, _feed(tokenId).roundId);
+    }
+
+    /**
+     * @notice Gets a past round of a token, AggregatorV3-style
+     * @param tokenId The token ID
+     * @param _roundId The round ID
+     */
+    function getRoundDataByTokenId(
+        uint256 tokenId,
+        uint80 _roundId
+    )
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        return _roundData(tokenId, _roundId);
+    }
+
+    /**
+     * @notice Gets the most recent prices of a token, including failed ones
+     * @param tokenId The token ID
+     * @param count Maximum number of prices to return
+     * @return Up to `count` prices, in round order (oldest first unless results were applied out of order)
+     */
+    function getPriceHistory(uint256 tokenId, uint256 count) external view returns (PricePoint[] memory) {
+        PricePoint[] storage history = priceHistory[tokenId];
+        uint256 length = count < history.length ? count : history.length;
+
+        PricePoint[] memory points = new PricePoint[](length);
+        for (uint256 i = 0; i < length; i++) {
+            points[i] = history[history.length - length + i];
         }
-        revert TokenIdNotFound(); // Token ID not found
+        return points;
+    }
+
+    /**
+     * @notice Gets the number of recorded prices of a token
+     * @param tokenId The token ID
+     * @return The history length
+     */
+    function getPriceHistoryLength(uint256 tokenId) external view returns (uint256) {
+        return priceHistory[tokenId].length;
+    }
+
+    /**
+     * @notice Gets the timestamp of the latest round
+     * @return The SEDA block timestamp of the latest result, 0 before the first update
+     */
+    function latestTimestamp() external view returns (uint256) {
+        return rounds[latestRoundId].timestamp;
     }
 
     /**
-     * @notice Gets all latest prices
-     * @return Array of all latest prices
+     * @notice Gets the latest prices of all tokens
+     * @dev Prices of tokens whose status is not Ok are 0, check getAllStatuses
+     * @return Array of all latest prices (same order as getAllTokenIds)
      */
     function getAllPrices() external view returns (uint256[] memory) {
-        return latestPrices;
+        uint256[] memory prices = new uint256[](trackedTokenIds.length);
+        for (uint256 i = 0; i < trackedTokenIds.length; i++) {
+            prices[i] = feeds[trackedTokenIds[i]].price;
+        }
+        return prices;
+    }
+
+    /**
+     * @notice Gets the status of all latest prices
+     * @return Array of all latest statuses (same order as getAllTokenIds)
+     */
+    function getAllStatuses() external view returns (PriceStatus[] memory) {
+        PriceStatus[] memory statuses = new PriceStatus[](trackedTokenIds.length);
+        for (uint256 i = 0; i < trackedTokenIds.length; i++) {
+            statuses[i] = feeds[trackedTokenIds[i]].status;
+        }
+        return statuses;
+    }
+
+    /**
+     * @notice Gets the order-book data for a specific token by index
+     * @dev Reverts with PriceUnavailable if the oracle could not price the token
+     * @param tokenIndex The index of the token
+     * @return The best bid, best ask, spread and last trade of the token
+     */
+    function getMarketData(uint256 tokenIndex) external view returns (MarketData memory) {
+        TokenFeed storage feed = _feedAt(tokenIndex);
+        _availablePrice(feed);
+        return feed.marketData;
+    }
+
+    /**
+     * @notice Gets the order-book data of all tokens
+     * @return Array of all latest order-book data (same order as getAllTokenIds)
+     */
+    function getAllMarketData() external view returns (MarketData[] memory) {
+        MarketData[] memory marketData = new MarketData[](trackedTokenIds.length);
+        for (uint256 i = 0; i < trackedTokenIds.length; i++) {
+            marketData[i] = feeds[trackedTokenIds[i]].marketData;
+        }
+        return marketData;
     }
 
     /**
      * @notice Gets the token ID for a specific index
      * @param tokenIndex The index of the token
-     * @return The token ID string
+     * @return The token ID
      */
-    function getTokenId(uint256 tokenIndex) external view returns (string memory) {
-        if (tokenIndex >= storedTokenIds.length) revert InvalidTokenIndex();
-        return storedTokenIds[tokenIndex];
+    function getTokenId(uint256 tokenIndex) external view returns (uint256) {
+        if (tokenIndex >= trackedTokenIds.length) revert InvalidTokenIndex();
+        return trackedTokenIds[tokenIndex];
     }
 
     /**
-     * @notice Gets all stored token IDs
-     * @return Array of all token ID strings
+     * @notice Gets all priced token IDs
+     * @return Array of all token IDs, in the order they were first priced
      */
-    function getAllTokenIds() external view returns (string[] memory) {
-        return storedTokenIds;
+    function getAllTokenIds() external view returns (uint256[] memory) {
+        return trackedTokenIds;
     }
 
     /**
@@ -170,6 +917,509 @@ contract PriceFeed {
      * @return The count of tokens
      */
     function getTokenCount() external view returns (uint256) {
-        return latestPrices.length;
+        return trackedTokenIds.length;
+    }
+
+    /**
+     * @dev Validates and stores the request parameters
+     */
+    function _setRequestParams(RequestParams memory params) private {
+        if (
+            params.gasPrice == 0 ||
+            params.execGasLimit == 0 ||
+            params.tallyGasLimit == 0 ||
+            params.replicationFactor == 0
+        ) {
+            revert InvalidRequestParams();
+        }
+
+        requestParams = params;
+        emit RequestParamsUpdated(
+            params.gasPrice,
+            params.execGasLimit,
+            params.tallyGasLimit,
+            params.replicationFactor,
+            params.consensusFilter
+        );
+    }
+
+    /**
+     * @dev Returns the latest price of a token, reverting if the oracle could not price it. The price of a resolved
+     * token is its final outcome
+     */
+    function _availablePrice(TokenFeed storage feed) private view returns (uint256) {
+        if (!_hasPrice(feed.status)) revert PriceUnavailable(feed.status);
+        return feed.price;
+    }
+
+    /**
+     * @dev True for the statuses that come with a price: a midpoint, or the final outcome of a resolved market
+     */
+    function _hasPrice(PriceStatus status) private pure returns (bool) {
+        return status == PriceStatus.Ok || status == PriceStatus.Resolved;
+    }
+
+    /**
+     * @dev Returns the feed of a token ID, reverting with TokenIdNotFound if it has never been priced
+     */
+    function _feed(uint256 tokenId) private view returns (TokenFeed storage) {
+        TokenFeed storage feed = feeds[tokenId];
+        if (feed.roundId == 0) revert TokenIdNotFound();
+        return feed;
+    }
+
+    /**
+     * @dev Returns the feed at a token index, reverting with InvalidTokenIndex if out of bounds
+     */
+    function _feedAt(uint256 tokenIndex) private view returns (TokenFeed storage) {
+        if (tokenIndex >= trackedTokenIds.length) revert InvalidTokenIndex();
+        return feeds[trackedTokenIds[tokenIndex]];
+    }
+
+    /**
+     * @dev Removes a request from the pending list (swap and pop)
+     */
+    function _removePending(bytes32 _requestId) private {
+        uint256 position = pendingPositions[_requestId];
+        if (position == 0) return;
+
+        bytes32 last = pendingRequestIds[pendingRequestIds.length - 1];
+        pendingRequestIds[position - 1] = last;
+        pendingPositions[last] = position;
+        pendingRequestIds.pop();
+        delete pendingPositions[_requestId];
+    }
+
+    /**
+     * @dev Reverts with StalePrice if a price updated at `updatedAt` is older than `maxAge` seconds
+     */
+    function _checkAge(uint256 updatedAt, uint256 maxAge) private view {
+        // SEDA and EVM clocks are not synchronized, a result from the "future" counts as fresh
+        if (updatedAt < block.timestamp && block.timestamp - updatedAt > maxAge) {
+            revert StalePrice(updatedAt, maxAge);
+        }
+    }
+
+    /**
+     * @dev Posts a request with the given execution inputs to SEDA Core, tracks it as pending and emits its events.
+     * Reverts with DuplicateTokenId if a token ID is listed twice, its prices would overwrite each other in one round
+     */
+    function _transmit(
+        uint256[] calldata tokenIds,
+        bytes memory execInputs,
+        bytes memory tallyInputs,
+        uint256 requestFee,
+        uint256 resultFee,
+        uint256 batchFee
+    ) private returns (bytes32) {
+        // Requests are small, comparing every pair is cheaper than a sorted copy
+        for (uint256 i = 1; i < tokenIds.length; i++) {
+            for (uint256 j = 0; j < i; j++) {
+                if (tokenIds[i] == tokenIds[j]) revert DuplicateTokenId(tokenIds[i]);
+            }
+        }
+
+        RequestParams memory params = requestParams;
+        SedaDataTypes.RequestInputs memory inputs = SedaDataTypes.RequestInputs(
+            oracleProgramId, // execProgramId (Execution WASM binary ID)
+            oracleProgramId, // tallyProgramId (same as execProgramId in this example)
+            params.gasPrice, // gasPrice (SEDA tokens per gas unit)
+            params.execGasLimit, // execGasLimit
+            params.tallyGasLimit, // tallyGasLimit
+            params.replicationFactor, // replicationFactor (number of required DR executors)
+            execInputs, // execInputs (JSON token IDs, order-book fields and the TWAP window)
+            tallyInputs, // tallyInputs (0x00 or outcome sets, always the default of 6 decimals the prices assume)
+            params.consensusFilter, // consensusFilter
+            abi.encodePacked(block.number) // memo (Additional public info)
+        );
+
+        // Pass the msg.value as fees to the SEDA core
+        bytes32 newRequestId = SEDA_CORE.postRequest{value: msg.value}(inputs, requestFee, resultFee, batchFee);
+        requestId = newRequestId;
+
+        // Remember which tokens the request prices, a request posted twice is only tracked once
+        Request storage request = requests[newRequestId];
+        if (request.tokenIds.length == 0) {
+            request.tokenIds = tokenIds;
+            pendingRequestIds.push(newRequestId);
+            pendingPositions[newRequestId] = pendingRequestIds.length;
+        }
+
+        emit PricesRequested(newRequestId, msg.sender, tokenIds);
+        emit RequestInputsPosted(newRequestId, execInputs, tallyInputs);
+        emit RequestFeesPaid(
+            newRequestId,
+            msg.sender,
+            requestFee,
+            resultFee,
+            batchFee,
+            uint256(params.execGasLimit) * params.replicationFactor + params.tallyGasLimit
+        );
+
+        return newRequestId;
+    }
+
+    /**
+     * @dev Builds the execution inputs for the given token IDs and order-book fields, e.g. with all fields:
+     * {"token_ids":["<id>",...],"fields":["bid","ask","spread","last_trade"]}
+     * With a window the TWAP is requested as well, e.g. ...,"mode":"twap","window":3600,"interval":60}
+     * The buffer is sized up front and filled in place, so the cost grows linearly with the number of tokens.
+     */
+    function _execInputs(
+        uint256[] calldata tokenIds,
+        uint8 fields,
+        uint32 window,
+        uint32 interval
+    ) private pure returns (bytes memory) {
+        bytes memory fieldList = _fieldList(fields);
+
+        // Every token ID is written as its quoted decimal digits, separated by commas, then the closing bracket of
+        // the fields and the closing brace
+        uint256 length = EXEC_INPUTS_PREFIX.length + EXEC_INPUTS_FIELDS.length + fieldList.length + 1;
+        length += tokenIds.length * 3;
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            length += _decimalLength(tokenIds[i]);
+        }
+        if (window != 0) {
+            length += EXEC_INPUTS_TWAP_WINDOW.length + _decimalLength(window);
+            length += EXEC_INPUTS_TWAP_INTERVAL.length + _decimalLength(interval);
+        }
+
+        bytes memory inputs = new bytes(length);
+        uint256 offset = _copy(inputs, 0, EXEC_INPUTS_PREFIX);
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            if (i > 0) inputs[offset++] = ",";
+            inputs[offset++] = QUOTE;
+            offset = _writeDecimal(inputs, offset, tokenIds[i]);
+            inputs[offset++] = QUOTE;
+        }
+        offset = _copy(inputs, offset, EXEC_INPUTS_FIELDS);
+        offset = _copy(inputs, offset, fieldList);
+        inputs[offset++] = "]";
+        if (window != 0) {
+            offset = _copy(inputs, offset, EXEC_INPUTS_TWAP_WINDOW);
+            offset = _writeDecimal(inputs, offset, window);
+            offset = _copy(inputs, offset, EXEC_INPUTS_TWAP_INTERVAL);
+            offset = _writeDecimal(inputs, offset, interval);
+        }
+        inputs[offset] = "}";
+
+        return inputs;
+    }
+
+    /**
+     * @dev Lists the quoted names of the order-book fields selected by a marketFields bit set, separated by commas
+     */
+    function _fieldList(uint8 fields) private pure returns (bytes memory list) {
+        bytes[4] memory names = [
+            bytes("\x22bid\x22"),
+            bytes("\x22ask\x22"),
+            bytes("\x22spread\x22"),
+            bytes("\x22last_trade\x22")
+        ];
+        for (uint256 i = 0; i < names.length; i++) {
+            if (fields & (1 << i) == 0) continue;
+            list = list.length == 0 ? names[i] : bytes.concat(list, ",", names[i]);
+        }
+    }
+
+    /**
+     * @dev Builds the tally inputs for consecutive outcome sets of the given sizes:
+     * {"outcome_sets":[[0,1],[2,3,4]],"tolerance":"0.050000","normalize":true}
+     */
+    function _tallyInputs(uint256[] calldata outcomeSetSizes, uint256 tolerance) private pure returns (bytes memory) {
+        // Sets are written as their bracketed, comma-separated token indices, the tolerance as 0.xxxxxx or 1.000000
+        uint256 length = TALLY_INPUTS_PREFIX.length + TALLY_INPUTS_TOLERANCE.length + TALLY_INPUTS_SUFFIX.length + 8;
+        length += outcomeSetSizes.length - 1;
+        uint256 index = 0;
+        for (uint256 i = 0; i < outcomeSetSizes.length; i++) {
+            length += outcomeSetSizes[i] + 1;
+            for (uint256 j = 0; j < outcomeSetSizes[i]; j++) {
+                length += _decimalLength(index++);
+            }
+        }
+
+        bytes memory inputs = new bytes(length);
+        uint256 offset = _copy(inputs, 0, TALLY_INPUTS_PREFIX);
+        index = 0;
+        for (uint256 i = 0; i < outcomeSetSizes.length; i++) {
+            if (i > 0) inputs[offset++] = ",";
+            inputs[offset++] = "[";
+            for (uint256 j = 0; j < outcomeSetSizes[i]; j++) {
+                if (j > 0) inputs[offset++] = ",";
+                offset = _writeDecimal(inputs, offset, index++);
+            }
+            inputs[offset++] = "]";
+        }
+        offset = _copy(inputs, offset, TALLY_INPUTS_TOLERANCE);
+        offset = _writeDigits(inputs, offset, tolerance / PRICE_SCALE, 1);
+        inputs[offset++] = ".";
+        offset = _writeDigits(inputs, offset, tolerance % PRICE_SCALE, 6);
+        _copy(inputs, offset, TALLY_INPUTS_SUFFIX);
+
+        return inputs;
+    }
+
+    /**
+     * @dev Writes the decimal digits of a value into `target` at `offset` and returns the offset after them
+     */
+    function _writeDecimal(bytes memory target, uint256 offset, uint256 value) private pure returns (uint256) {
+        return _writeDigits(target, offset, value, _decimalLength(value));
+    }
+
+    /**
+     * @dev Writes the last `digits` decimal digits of a value, padded with leading zeros
+     */
+    function _writeDigits(
+        bytes memory target,
+        uint256 offset,
+        uint256 value,
+        uint256 digits
+    ) private pure returns (uint256) {
+        // Write the digits back to front
+        for (uint256 j = offset + digits; j > offset; j--) {
+            target[j - 1] = bytes1(uint8(48 + (value % 10)));
+            value /= 10;
+        }
+        return offset + digits;
+    }
+
+    /**
+     * @dev Returns the number of decimal digits of a value
+     */
+    function _decimalLength(uint256 value) private pure returns (uint256 length) {
+        do {
+            length++;
+            value /= 10;
+        } while (value != 0);
+    }
+
+    /**
+     * @dev Copies `source` into `target` at `offset` and returns the offset after it
+     */
+    function _copy(bytes memory target, uint256 offset, bytes memory source) private pure returns (uint256) {
+        for (uint256 i = 0; i < source.length; i++) {
+            target[offset + i] = source[i];
+        }
+        return offset + source.length;
+    }
+
+    /**
+     * @dev True if a tally result is the ABI encoding of the seven result arrays with one entry per token ID and
+     * valid statuses. This is the layout the oracle program produces, and abi.decode cannot revert on it
+     */
+    function _isWellFormed(uint256 count, bytes memory data) private pure returns (bool) {
+        uint256 arrayLength = 32 + count * 32;
+        if (data.length != 7 * 32 + 7 * arrayLength) return false;
+        for (uint256 i = 0; i < 7; i++) {
+            uint256 offset = 7 * 32 + i * arrayLength;
+            if (_word(data, i * 32) != offset || _word(data, offset) != count) return false;
+        }
+
+        // Statuses are the second array
+        uint256 statuses = 7 * 32 + arrayLength + 32;
+        for (uint256 i = 0; i < count; i++) {
+            if (_word(data, statuses + i * 32) > uint256(type(PriceStatus).max)) return false;
+        }
+        return true;
+    }
+
+    /**
+     * @dev Reads the 32-byte word at `position` of `data`, the caller checks the bounds
+     */
+    function _word(bytes memory data, uint256 position) private pure returns (uint256 word) {
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            word := mload(add(add(data, 32), position))
+        }
+    }
+
+    /**
+     * @dev Decodes a tally result checked with _isWellFormed
+     */
+    function _decodeResult(uint256 count, bytes memory data) private pure returns (TallyResult memory tally) {
+        uint256[] memory bids;
+        uint256[] memory asks;
+        uint256[] memory spreads;
+        uint256[] memory lastTrades;
+        uint256[] memory twaps;
+        (tally.prices, tally.statuses, bids, asks, spreads, lastTrades, twaps) = abi.decode(
+            data,
+            (uint256[], PriceStatus[], uint256[], uint256[], uint256[], uint256[], uint256[])
+        );
+
+        tally.marketData = new MarketData[](count);
+        for (uint256 i = 0; i < count; i++) {
+            tally.marketData[i] = MarketData(bids[i], asks[i], spreads[i], lastTrades[i], twaps[i]);
+        }
+    }
+
+    /**
+     * @dev Checks every price of a result against the guard. If any is rejected, the whole result is dropped and
+     * the circuit breaker trips, so a bad value never reaches consumers next to seemingly good ones. Returns true if
+     * the result was rejected
+     */
+    function _rejectResult(
+        bytes32 _requestId,
+        uint256[] storage tokenIds,
+        TallyResult memory tally,
+        uint64 timestamp
+    ) private returns (bool) {
+        uint256 rejected = 0;
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            TokenFeed storage feed = feeds[tokenIds[i]];
+            RejectReason reason = _violation(feed, tally.statuses[i], tally.prices[i], tally.marketData[i], timestamp);
+            if (reason != RejectReason.None) {
+                rejected++;
+                emit PriceRejected(_requestId, tokenIds[i], tally.prices[i], feed.okPrice, reason);
+            }
+        }
+        if (rejected == 0) return false;
+
+        paused = true;
+        trippedRequestId = _requestId;
+        emit CircuitBreakerTripped(_requestId, rejected);
+        return true;
+    }
+
+    /**
+     * @dev Tells whether a token's new price breaks the guard: a price or market data field above 1e6 is not a
+     * probability, and a midpoint may move at most maxDeviation from the token's latest Ok midpoint, so failed
+     * rounds in between do not lift the check. A result older than the latest price only extends the history, so
+     * it is not compared with a price from a later time
+     */
+    function _violation(
+        TokenFeed storage feed,
+        PriceStatus status,
+        uint256 price,
+        MarketData memory data,
+        uint64 timestamp
+    ) private view returns (RejectReason) {
+        if (
+            (_hasPrice(status) && price > PRICE_SCALE) ||
+            data.bid > PRICE_SCALE ||
+            data.ask > PRICE_SCALE ||
+            data.spread > PRICE_SCALE ||
+            data.lastTrade > PRICE_SCALE ||
+            data.twap > PRICE_SCALE
+        ) {
+            return RejectReason.OutOfBounds;
+        }
+
+        // The first Ok price of a token has nothing to deviate from, a resolution may jump to 0 or 1 from any price
+        // and a resolved feed is final
+        if (
+            maxDeviation != 0 &&
+            feed.okRoundId != 0 &&
+            feed.status != PriceStatus.Resolved &&
+            status == PriceStatus.Ok &&
+            timestamp >= feed.updatedAt
+        ) {
+            uint256 change = price > feed.okPrice ? price - feed.okPrice : feed.okPrice - price;
+            if (change > maxDeviation) return RejectReason.Deviation;
+        }
+        return RejectReason.None;
+    }
+
+    /**
+     * @dev Applies a decoded tally result to the request's tokens
+     */
+    function _storeResult(
+        bytes32 _requestId,
+        Request storage request,
+        TallyResult memory tally,
+        uint80 roundId,
+        uint64 timestamp
+    ) private {
+        bool[] memory checked = _checkedOutcomes(request.outcomeSetSizes, tally.statuses);
+        for (uint256 i = 0; i < request.tokenIds.length; i++) {
+            _storePrice(
+                request.tokenIds[i],
+                PricePoint(roundId, timestamp, tally.statuses[i], tally.prices[i]),
+                tally.marketData[i],
+                checked[i]
+            );
+        }
+
+        emit PricesUpdated(_requestId, roundId, timestamp, request.tokenIds, tally.prices, tally.statuses);
+    }
+
+    /**
+     * @dev Flags the tokens of every outcome set the oracle program priced in full, the program only succeeds if
+     * those sets sum to 1 within the tolerance
+     */
+    function _checkedOutcomes(
+        uint256[] storage outcomeSetSizes,
+        PriceStatus[] memory statuses
+    ) private view returns (bool[] memory checked) {
+        checked = new bool[](statuses.length);
+        uint256 start = 0;
+        for (uint256 i = 0; i < outcomeSetSizes.length; i++) {
+            uint256 end = start + outcomeSetSizes[i];
+            bool priced = true;
+            for (uint256 j = start; j < end; j++) {
+                priced = priced && statuses[j] == PriceStatus.Ok;
+            }
+            for (uint256 j = start; j < end; j++) {
+                checked[j] = priced;
+            }
+            start = end;
+        }
+    }
+
+    /**
+     * @dev Appends a price to a token's history and makes it the latest price unless a more recent one is stored.
+     * A resolution is final: it replaces the latest price whatever its timestamp, and nothing replaces it
+     */
+    function _storePrice(uint256 tokenId, PricePoint memory point, MarketData memory marketData, bool checked) private {
+        TokenFeed storage feed = feeds[tokenId];
+
+        if (feed.roundId == 0) {
+            feed.tokenId = tokenId;
+            trackedTokenIds.push(tokenId);
+        }
+        priceHistory[tokenId].push(point);
+
+        if (feed.status == PriceStatus.Resolved) return;
+        bool resolves = point.status == PriceStatus.Resolved;
+        if (feed.roundId == 0 || resolves || point.timestamp >= feed.updatedAt) {
+            feed.roundId = point.roundId;
+            feed.updatedAt = point.timestamp;
+            feed.status = point.status;
+            feed.price = point.price;
+            feed.marketData = marketData;
+            feed.checked = checked;
+            if (point.status == PriceStatus.Ok) {
+                feed.okRoundId = point.roundId;
+                feed.okPrice = point.price;
+            }
+        }
+        if (resolves) emit TokenResolved(tokenId, point.roundId, point.price);
+    }
+
+    /**
+     * @dev Looks up the price of a token in a round (binary search, history is in round order)
+     */
+    function _roundData(
+        uint256 tokenId,
+        uint80 roundId
+    ) private view returns (uint80, int256, uint256, uint256, uint80) {
+        PricePoint[] storage history = priceHistory[tokenId];
+
+        uint256 low = 0;
+        uint256 high = history.length;
+        while (low < high) {
+            uint256 middle = (low + high) / 2;
+            if (history[middle].roundId < roundId) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        if (low == history.length || history[low].roundId != roundId) revert RoundNotFound(roundId);
+
+        PricePoint memory point = history[low];
+        if (!_hasPrice(point.status)) revert PriceUnavailable(point.status);
+        return (roundId, int256(point.price), point.timestamp, point.timestamp, roundId);
     }
 }
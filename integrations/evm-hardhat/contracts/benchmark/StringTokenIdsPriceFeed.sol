@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+/**
+ * NOTICE: This contract only exists as a gas benchmark reference, do not deploy it.
+ */
+
+pragma solidity 0.8.28;
+
+import {ISedaCore} from "@seda-protocol/evm/contracts/interfaces/ISedaCore.sol";
+import {SedaDataTypes} from "@seda-protocol/evm/contracts/libraries/SedaDataTypes.sol";
+
+/**
+ * @title StringTokenIdsPriceFeed
+ * @notice The token ID handling PriceFeed used before it switched to uint256 token IDs.
+ * @dev Token IDs arrive as a comma-separated string, are split byte by byte and stored as strings,
+ * and lookups scan all stored token IDs. Only kept to compare gas costs in test/PriceFeed.gas.ts.
+ */
+contract StringTokenIdsPriceFeed {
+    /// @notice Instance of the SedaCore contract
+    ISedaCore public immutable SEDA_CORE;
+
+    /// @notice ID of the request WASM binary on the SEDA network
+    bytes32 public immutable ORACLE_PROGRAM_ID;
+
+    /// @notice Token IDs of the latest request
+    string[] private storedTokenIds;
+
+    /// @notice Prices of the latest request, index-aligned with storedTokenIds
+    uint256[] private latestPrices;
+
+    /// @notice Thrown when trying to access a token ID that doesn't exist
+    error TokenIdNotFound();
+
+    /**
+     * @notice Sets up the contract with SEDA network parameters
+     * @param _sedaCoreAddress Address of the SedaCore contract
+     * @param _oracleProgramId ID of the WASM binary for handling requests
+     */
+    constructor(address _sedaCoreAddress, bytes32 _oracleProgramId) {
+        SEDA_CORE = ISedaCore(_sedaCoreAddress);
+        ORACLE_PROGRAM_ID = _oracleProgramId;
+    }
+
+    /**
+     * @notice Splits and stores the token IDs, then posts a request for them
+     * @param tokenIds Comma-separated string of Polymarket token IDs
+     * @return The ID of the created request
+     */
+    function transmit(string calldata tokenIds) external returns (bytes32) {
+        bytes memory tokenIdsBytes = bytes(tokenIds);
+        delete storedTokenIds;
+
+        // Simple parsing: split by comma
+        uint256 start = 0;
+        for (uint256 i = 0; i <= tokenIdsBytes.length; i++) {
+            if (i == tokenIdsBytes.length || tokenIdsBytes[i] == ",") {
+                if (i > start) {
+                    bytes memory tokenIdBytes = new bytes(i - start);
+                    for (uint256 j = 0; j < i - start; j++) {
+                        tokenIdBytes[j] = tokenIdsBytes[start + j];
+                    }
+                    storedTokenIds.push(string(tokenIdBytes));
+                }
+                start = i + 1;
+            }
+        }
+
+        // Quote every token ID into the JSON execution inputs
+        bytes memory tokenIdList;
+        for (uint256 i = 0; i < storedTokenIds.length; i++) {
+            if (i > 0) {
+                tokenIdList = abi.encodePacked(tokenIdList, ",");
+            }
+            // solhint-disable-next-line quotes
+            tokenIdList = abi.encodePacked(tokenIdList, '"', storedTokenIds[i], '"');
+        }
+
+        SedaDataTypes.RequestInputs memory inputs = SedaDataTypes.RequestInputs(
+            ORACLE_PROGRAM_ID,
+            ORACLE_PROGRAM_ID,
+            2000,
+            50000000000000,
+            20000000000000,
+            1,
+            // solhint-disable-next-line quotes
+            abi.encodePacked('{"token_ids":[', tokenIdList, '],"fields":["bid","ask","spread","last_trade"]}'),
+            hex"00",
+            hex"00",
+            abi.encodePacked(block.number)
+        );
+
+        return SEDA_CORE.postRequest(inputs, 0, 0, 0);
+    }
+
+    /**
+     * @notice Stores prices for the stored token IDs, standing in for a SEDA result
+     * @param prices Prices index-aligned with the token IDs of the latest request
+     */
+    function setPrices(uint256[] calldata prices) external {
+        latestPrices = prices;
+    }
+
+    /**
+     * @notice Gets the price for a specific token by token ID
+     * @param tokenId The token ID string
+     * @return The price for the specified token
+     */
+    function getPriceByTokenId(string calldata tokenId) external view returns (uint256) {
+        for (uint256 i = 0; i < storedTokenIds.length; i++) {
+            if (keccak256(abi.encodePacked(storedTokenIds[i])) == keccak256(abi.encodePacked(tokenId))) {
+                return latestPrices[i];
+            }
+        }
+        revert TokenIdNotFound();
+    }
+}
@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+/**
+ * NOTICE: This contract only exists for tests, do not deploy it.
+ */
+
+pragma solidity 0.8.28;
+
+import {SedaDataTypes} from "@seda-protocol/evm/contracts/libraries/SedaDataTypes.sol";
+
+/**
+ * @title FeeSettlingSedaCore
+ * @notice A SEDA Core stand-in that settles the fees of a request when its result is posted.
+ * @dev Like SEDA Core, the payback address gets the share of the request fee the gas used accounts for and the
+ * rest is refunded to the requestor, the result and batch fees go to the result submitter. Results are not
+ * verified. Only used in test/Fees.ts.
+ */
+contract FeeSettlingSedaCore {
+    struct PendingFees {
+        address requestor;
+        uint256 requestFee;
+        uint256 resultFee;
+        uint256 batchFee;
+        uint256 gasLimit;
+    }
+
+    /// @notice Thrown when a request is posted twice
+    error RequestAlreadyExists(bytes32 requestId);
+
+    /// @notice Thrown when a request has no result
+    error ResultNotFound(bytes32 requestId);
+
+    /// @notice Thrown when the fees sent do not match the fees of a request
+    error InvalidFeeAmount();
+
+    /// @notice Thrown when sending fees fails
+    error FeeTransferFailed();
+
+    /// @notice Emitted when a request is posted
+    event RequestPosted(bytes32 indexed requestId);
+
+    /// @notice Fees of every request whose result is not posted yet
+    mapping(bytes32 => PendingFees) private pendingFees;
+
+    /// @notice Whether a request was posted
+    mapping(bytes32 => bool) public requests;
+
+    /// @notice Posted results, by request ID
+    mapping(bytes32 => SedaDataTypes.Result) private results;
+
+    /// @notice Posts a request with fees, its ID is the hash of its inputs
+    function postRequest(
+        SedaDataTypes.RequestInputs calldata inputs,
+        uint256 requestFee,
+        uint256 resultFee,
+        uint256 batchFee
+    ) external payable returns (bytes32 requestId) {
+        if (msg.value != requestFee + resultFee + batchFee) revert InvalidFeeAmount();
+        requestId = _post(inputs);
+        pendingFees[requestId] = PendingFees(
+            msg.sender,
+            requestFee,
+            resultFee,
+            batchFee,
+            uint256(inputs.execGasLimit) * inputs.replicationFactor + inputs.tallyGasLimit
+        );
+    }
+
+    /// @notice Posts a request without fees
+    function postRequest(SedaDataTypes.RequestInputs calldata inputs) external returns (bytes32) {
+        return _post(inputs);
+    }
+
+    /// @notice Stores a result and settles the fees of its request
+    function postResult(SedaDataTypes.Result calldata result, uint64, bytes32[] calldata) external {
+        results[result.drId] = result;
+        PendingFees memory fees = pendingFees[result.drId];
+        delete pendingFees[result.drId];
+
+        uint256 paidBack = 0;
+        if (result.paybackAddress.length == 20 && fees.gasLimit > 0) {
+            uint256 gasUsed = result.gasUsed < fees.gasLimit ? result.gasUsed : fees.gasLimit;
+            paidBack = (fees.requestFee * gasUsed) / fees.gasLimit;
+            _send(address(bytes20(result.paybackAddress)), paidBack);
+        }
+        _send(msg.sender, fees.resultFee + fees.batchFee);
+        _send(fees.requestor, fees.requestFee - paidBack);
+    }
+
+    /// @notice Returns the result of a request
+    function getResult(bytes32 requestId) external view returns (SedaDataTypes.Result memory) {
+        if (!hasResult(requestId)) revert ResultNotFound(requestId);
+        return results[requestId];
+    }
+
+    /// @notice Whether a request has a result
+    function hasResult(bytes32 requestId) public view returns (bool) {
+        return results[requestId].drId != bytes32(0);
+    }
+
+    function _post(SedaDataTypes.RequestInputs calldata inputs) private returns (bytes32 requestId) {
+        requestId = keccak256(abi.encode(inputs));
+        if (requests[requestId]) revert RequestAlreadyExists(requestId);
+        requests[requestId] = true;
+        emit RequestPosted(requestId);
+    }
+
+    function _send(address recipient, uint256 amount) private {
+        if (amount == 0) return;
+        (bool success, ) = recipient.call{value: amount}("");
+        if (!success) revert FeeTransferFailed();
+    }
+}
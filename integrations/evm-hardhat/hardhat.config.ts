@@ -1,6 +1,7 @@
 import type { HardhatUserConfig } from 'hardhat/config';
 import '@nomicfoundation/hardhat-toolbox';
 import dotenv from 'dotenv';
+import { networks } from './networks';
 
 // PriceFeed Tasks
 import './tasks';
@@ -8,36 +9,40 @@ import './tasks';
 dotenv.config();
 
 const config: HardhatUserConfig = {
-  solidity: '0.8.28',
-  networks: {
-    base: {
-      accounts: process.env.EVM_PRIVATE_KEY ? [process.env.EVM_PRIVATE_KEY] : [],
-      url: 'https://mainnet.base.org',
-      chainId: 8453,
-    },
-    baseSepolia: {
-      accounts: process.env.EVM_PRIVATE_KEY ? [process.env.EVM_PRIVATE_KEY] : [],
-      url: 'https://sepolia.base.org',
-      chainId: 84532,
-    },
-    gnosisChiado: {
-      accounts: process.env.EVM_PRIVATE_KEY ? [process.env.EVM_PRIVATE_KEY] : [],
-      chainId: 10200,
-      url: 'https://rpc.chiadochain.net',
+  solidity: {
+    version: '0.8.28',
+    settings: {
+      // PriceFeed is close to the 24KB contract size limit without the optimizer
+      optimizer: { enabled: true, runs: 200 },
     },
-    superseedSepolia: {
-      accounts: process.env.EVM_PRIVATE_KEY ? [process.env.EVM_PRIVATE_KEY] : [],
-      url: 'https://sepolia.superseed.xyz',
-      chainId: 53302,
-    },
-    hyperliquidPurrsec: {
-      accounts: process.env.EVM_PRIVATE_KEY ? [process.env.EVM_PRIVATE_KEY] : [],
-      chainId: 998,
-      url: 'https://rpc.hyperliquid-testnet.xyz/evm',
+  },
+  networks: {
+    // `npx hardhat node`, with the chain ID of the in-process network so deployments are keyed consistently
+    localhost: {
+      url: 'http://127.0.0.1:8545',
+      chainId: 31337,
     },
+    ...Object.fromEntries(
+      Object.entries(networks).map(([name, network]) => [
+        name,
+        {
+          accounts: process.env.EVM_PRIVATE_KEY ? [process.env.EVM_PRIVATE_KEY] : [],
+          url: network.url,
+          chainId: network.chainId,
+        },
+      ]),
+    ),
   },
+  // Verification through the explorer of each network in the registry that has one
   etherscan: {
-    apiKey: process.env.BASE_SEPOLIA_ETHERSCAN_API_KEY || '',
+    apiKey: Object.fromEntries(
+      Object.entries(networks).flatMap(([name, { explorer }]) =>
+        explorer ? [[name, process.env[explorer.apiKeyEnv] || '']] : [],
+      ),
+    ),
+    customChains: Object.entries(networks).flatMap(([name, { chainId, explorer }]) =>
+      explorer ? [{ network: name, chainId, urls: { apiURL: explorer.apiUrl, browserURL: explorer.browserUrl } }] : [],
+    ),
   },
 };
 
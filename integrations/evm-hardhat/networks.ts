@@ -0,0 +1,127 @@
+import { getAddress } from 'ethers';
+
+/** A SEDA network, where data requests are executed */
+export interface SedaNetwork {
+  /** Tendermint RPC of the SEDA chain */
+  rpc: string;
+  /** Block explorer of the SEDA chain, data requests are at `/data-requests/<id>/<height>` */
+  explorer: string;
+}
+
+/** Block explorer of an EVM network with an Etherscan-compatible API, used to verify contracts */
+export interface EvmExplorer {
+  apiUrl: string;
+  browserUrl: string;
+  /** Environment variable holding the API key */
+  apiKeyEnv: string;
+}
+
+/** An EVM network with a SEDA Core deployment */
+export interface NetworkConfig {
+  /** EVM JSON-RPC endpoint */
+  url: string;
+  chainId: number;
+  /** SEDA Core (proxy) contract the PriceFeed posts requests to */
+  coreAddress: string;
+  /** SEDA network the Core contract relays requests to */
+  seda: keyof typeof sedaNetworks;
+  /** Contract verification, not available on every network */
+  explorer?: EvmExplorer;
+}
+
+export const sedaNetworks = {
+  mainnet: {
+    rpc: 'https://rpc.mainnet.seda.xyz',
+    explorer: 'https://explorer.seda.xyz',
+  },
+  testnet: {
+    rpc: 'https://rpc.testnet.seda.xyz',
+    explorer: 'https://testnet.explorer.seda.xyz',
+  },
+} satisfies { [name: string]: SedaNetwork };
+
+/**
+ * Checks that every network has a valid RPC URL, chain ID and Core address, and that chain IDs are unique.
+ * @param networks The networks, keyed by the Hardhat network name.
+ * @returns The same networks, with checksummed Core addresses.
+ * @throws Error listing every invalid entry.
+ */
+export function validateNetworks(networks: { [name: string]: NetworkConfig }): { [name: string]: NetworkConfig } {
+  const errors: string[] = [];
+  const chainIds = new Map<number, string>();
+
+  for (const [name, network] of Object.entries(networks)) {
+    if (!/^https?:\/\/\S+$/.test(network.url)) {
+      errors.push(`${name}: invalid RPC URL "${network.url}"`);
+    }
+    if (!Number.isSafeInteger(network.chainId) || network.chainId <= 0) {
+      errors.push(`${name}: invalid chain ID ${network.chainId}`);
+    } else if (chainIds.has(network.chainId)) {
+      errors.push(`${name}: chain ID ${network.chainId} is already used by ${chainIds.get(network.chainId)}`);
+    } else {
+      chainIds.set(network.chainId, name);
+    }
+    try {
+      network.coreAddress = getAddress(network.coreAddress);
+    } catch {
+      errors.push(`${name}: invalid SEDA Core address "${network.coreAddress}"`);
+    }
+    if (!(network.seda in sedaNetworks)) {
+      errors.push(`${name}: unknown SEDA network "${network.seda}"`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid network configuration:\n  ${errors.join('\n  ')}`);
+  }
+  return networks;
+}
+
+/**
+ * EVM networks with a SEDA Core deployment, keyed by the Hardhat network name (`--network`).
+ * `hardhat.config.ts` and `seda.config.ts` are derived from this registry, add new networks here.
+ */
+export const networks = validateNetworks({
+  // Proxy Core Addresses (SEDA mainnet)
+  base: {
+    url: 'https://mainnet.base.org',
+    chainId: 8453,
+    coreAddress: '0xDF1fb5ACe711B16D90FC45776fF1bF02CEBc245D',
+    seda: 'mainnet',
+    explorer: {
+      apiUrl: 'https://api.basescan.org/api',
+      browserUrl: 'https://basescan.org',
+      apiKeyEnv: 'BASE_ETHERSCAN_API_KEY',
+    },
+  },
+  // Proxy Core Addresses (SEDA testnet)
+  baseSepolia: {
+    url: 'https://sepolia.base.org',
+    chainId: 84532,
+    coreAddress: '0xffDB1d9bBE4D56780143428450c4C2058061E6F3',
+    seda: 'testnet',
+    explorer: {
+      apiUrl: 'https://api-sepolia.basescan.org/api',
+      browserUrl: 'https://sepolia.basescan.org',
+      apiKeyEnv: 'BASE_SEPOLIA_ETHERSCAN_API_KEY',
+    },
+  },
+  superseedSepolia: {
+    url: 'https://sepolia.superseed.xyz',
+    chainId: 53302,
+    coreAddress: '0xE08989FB730E072689b4885c2a62AE5f1fc787F2',
+    seda: 'testnet',
+  },
+  gnosisChiado: {
+    url: 'https://rpc.chiadochain.net',
+    chainId: 10200,
+    coreAddress: '0xbe2ace709959C121759d553cACf7e6532C25a3aA',
+    seda: 'testnet',
+  },
+  hyperliquidPurrsec: {
+    url: 'https://rpc.hyperliquid-testnet.xyz/evm',
+    chainId: 998,
+    coreAddress: '0x23c01fe3C1b7409A98bBd39a7c9e5C2263C64b59',
+    seda: 'testnet',
+  },
+});
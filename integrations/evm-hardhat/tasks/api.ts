@@ -0,0 +1,274 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Provider } from 'ethers';
+import { describeStatus, formatPrice, hasPrice, PriceStatus } from '../../../packages/client/src';
+import type { PriceFeed } from '../typechain-types';
+import { priceFeedScope } from '.';
+import { getDeployedContract } from './utils';
+
+/** Age in seconds after which a price is reported as stale */
+export const DEFAULT_MAX_AGE = 3600;
+
+export interface PriceApiOptions {
+  /** Age in seconds after which a price is reported as stale */
+  maxAge?: number;
+}
+
+/** A token's latest price as served by the API, decimals are strings to keep their precision */
+export interface ApiPrice {
+  tokenId: string;
+  /** Decimal price, the final outcome (1 or 0) of a resolved token, null if the oracle could not price the token */
+  price: string | null;
+  /** The 1e6-scaled on-chain value */
+  raw: string;
+  status: string;
+  /** True once the market of the token resolved, the price is then final */
+  resolved: boolean;
+  bid: string | null;
+  ask: string | null;
+  spread: string | null;
+  lastTrade: string | null;
+  /** Time-weighted average price, null unless the latest request was transmitted in TWAP mode */
+  twap: string | null;
+  /** Probability of the outcome, null unless the price was checked to sum to 1 with the rest of its outcome set */
+  probability: string | null;
+  roundId: string;
+  /** SEDA block timestamp of the result the price was taken from, in seconds */
+  updatedAt: number;
+  /** Seconds between updatedAt and the timestamp of the block the response was read at */
+  age: number;
+  stale: boolean;
+}
+
+/** Status code and JSON body of a response */
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+// Order-book fields and TWAPs the oracle could not fetch are stored as 0
+const optionalPrice = (value: bigint) => (value === 0n ? null : formatPrice(value));
+
+/**
+ * Read-only JSON API over a PriceFeed contract.
+ * Routes: `/prices`, `/prices/:tokenId`, `/tokens` and `/health`. Every response is read at one block and
+ * cached until the next block, so any number of clients cost one set of contract calls per block.
+ */
+export class PriceApi {
+  private readonly maxAge: number;
+  private cacheBlock = -1;
+  private cache = new Map<string, Promise<ApiResponse>>();
+
+  constructor(
+    private readonly priceFeed: PriceFeed,
+    private readonly provider: Provider,
+    options: PriceApiOptions = {},
+  ) {
+    this.maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+  }
+
+  /**
+   * Answers a GET request for a path, from the cache if it was answered at the latest block.
+   * @param path The request path, without the query string.
+   * @returns The response and whether it came from the cache.
+   */
+  async handle(path: string): Promise<ApiResponse & { cached: boolean }> {
+    const blockNumber = await this.provider.getBlockNumber();
+    if (blockNumber !== this.cacheBlock) {
+      this.cacheBlock = blockNumber;
+      this.cache = new Map();
+    }
+
+    const cached = this.cache.get(path);
+    if (cached) {
+      return { ...(await cached), cached: true };
+    }
+
+    const response = this.route(path, blockNumber);
+    this.cache.set(path, response);
+    try {
+      return { ...(await response), cached: false };
+    } catch (error) {
+      // Failed reads are retried by the next request
+      this.cache.delete(path);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts an HTTP server for the API.
+   * @param port Port to listen on, 0 for any free port.
+   * @param host Interface to listen on.
+   * @returns The listening server.
+   */
+  async listen(port: number, host: string): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+      this.serve(req, res).catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        send(res, { status: 502, body: { error: `Could not read the PriceFeed: ${errorMessage}` } });
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(port, host, resolve));
+    return server;
+  }
+
+  private async serve(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      send(res, { status: 405, body: { error: 'Only GET is supported' } });
+      return;
+    }
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+    const { cached, ...response } = await this.handle(path);
+    send(res, response, { 'X-Cache': cached ? 'hit' : 'miss' });
+  }
+
+  private async route(path: string, blockNumber: number): Promise<ApiResponse> {
+    if (path === '/health') {
+      return this.health(blockNumber);
+    }
+    if (path === '/tokens') {
+      const tokenIds = await this.priceFeed.getAllTokenIds({ blockTag: blockNumber });
+      return { status: 200, body: { blockNumber, tokenIds: tokenIds.map(String) } };
+    }
+    if (path === '/prices') {
+      const [now, tokenIds] = await Promise.all([
+        this.blockTime(blockNumber),
+        this.priceFeed.getAllTokenIds({ blockTag: blockNumber }),
+      ]);
+      const prices = await Promise.all(tokenIds.map((tokenId) => this.price(tokenId, blockNumber, now)));
+      return { status: 200, body: { blockNumber, timestamp: now, prices } };
+    }
+
+    const match = /^\/prices\/([^/]+)$/.exec(path);
+    if (match) {
+      if (!/^\d{1,78}$/.test(match[1])) {
+        return { status: 400, body: { error: `Invalid token ID "${match[1]}"` } };
+      }
+      const tokenId = BigInt(match[1]);
+      const known = (await this.priceFeed.getAllTokenIds({ blockTag: blockNumber })).includes(tokenId);
+      if (!known) {
+        return { status: 404, body: { error: `No price for token ${tokenId}` } };
+      }
+      const now = await this.blockTime(blockNumber);
+      return { status: 200, body: { blockNumber, timestamp: now, ...(await this.price(tokenId, blockNumber, now)) } };
+    }
+
+    return { status: 404, body: { error: `Unknown route ${path}, use /prices, /prices/:tokenId, /tokens or /health` } };
+  }
+
+  private async price(tokenId: bigint, blockNumber: number, now: number): Promise<ApiPrice> {
+    const feed = await this.priceFeed.getFeed(tokenId, { blockTag: blockNumber });
+    const available = hasPrice(feed.status);
+    const age = now - Number(feed.updatedAt);
+    return {
+      tokenId: tokenId.toString(),
+      price: available ? formatPrice(feed.price) : null,
+      raw: feed.price.toString(),
+      status: describeStatus(feed.status),
+      resolved: Number(feed.status) === PriceStatus.Resolved,
+      bid: available ? optionalPrice(feed.marketData.bid) : null,
+      ask: available ? optionalPrice(feed.marketData.ask) : null,
+      spread: available ? optionalPrice(feed.marketData.spread) : null,
+      lastTrade: available ? optionalPrice(feed.marketData.lastTrade) : null,
+      twap: available ? optionalPrice(feed.marketData.twap) : null,
+      probability: feed.checked ? formatPrice(feed.price) : null,
+      roundId: feed.roundId.toString(),
+      updatedAt: Number(feed.updatedAt),
+      age,
+      stale: age > this.maxAge,
+    };
+  }
+
+  /**
+   * Healthy while the latest round is younger than the maximum age, 503 before the first round and once
+   * it is stale.
+   */
+  private async health(blockNumber: number): Promise<ApiResponse> {
+    const [now, latestRoundId, latestTimestamp, pending] = await Promise.all([
+      this.blockTime(blockNumber),
+      this.priceFeed.latestRoundId({ blockTag: blockNumber }),
+      this.priceFeed.latestTimestamp({ blockTag: blockNumber }),
+      this.priceFeed.getPendingRequests({ blockTag: blockNumber }),
+    ]);
+
+    const base = {
+      contract: await this.priceFeed.getAddress(),
+      blockNumber,
+      timestamp: now,
+      latestRoundId: latestRoundId.toString(),
+      pendingRequests: pending.length,
+    };
+    if (latestRoundId === 0n) {
+      return { status: 503, body: { status: 'empty', ...base } };
+    }
+
+    const age = now - Number(latestTimestamp);
+    const status = age > this.maxAge ? 'stale' : 'ok';
+    return { status: status === 'ok' ? 200 : 503, body: { status, ...base, age, maxAge: this.maxAge } };
+  }
+
+  private async blockTime(blockNumber: number): Promise<number> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    return block.timestamp;
+  }
+}
+
+function send(res: http.ServerResponse, response: ApiResponse, headers: Record<string, string> = {}): void {
+  res.writeHead(response.status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    ...headers,
+  });
+  res.end(JSON.stringify(response.body));
+}
+
+/**
+ * Task: Serves the PriceFeed's prices as a read-only JSON API.
+ * Optional parameters:
+ * - contract: PriceFeed contract address
+ * - port: Port to listen on
+ * - host: Interface to listen on
+ * - maxAge: Age in seconds after which prices are reported as stale
+ * Runs until interrupted (Ctrl+C). If the contract address is not provided, fetches from previous deployments.
+ */
+priceFeedScope
+  .task('serve', 'Serves the prices of the PriceFeed contract as a read-only JSON API')
+  .addOptionalParam('contract', 'The PriceFeed contract address')
+  .addOptionalParam('port', 'Port to listen on', '8080')
+  .addOptionalParam('host', 'Interface to listen on', '127.0.0.1')
+  .addOptionalParam('maxAge', 'Age in seconds after which prices are reported as stale', String(DEFAULT_MAX_AGE))
+  .setAction(async ({ contract, port, host, maxAge }, hre) => {
+    try {
+      // Fetch the address from previous deployments if not provided
+      let priceFeedAddress = contract;
+      if (!priceFeedAddress) {
+        console.log('No contract address specified, fetching from previous deployments...');
+        priceFeedAddress = getDeployedContract(hre.network, 'PriceFeed');
+        console.log('Contract found:', priceFeedAddress);
+      }
+
+      const maxAgeSeconds = Number(maxAge);
+      if (!Number.isInteger(maxAgeSeconds) || maxAgeSeconds <= 0) {
+        throw new Error(`--max-age must be a positive number of seconds, got "${maxAge}"`);
+      }
+
+      const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
+      const api = new PriceApi(priceFeed, hre.ethers.provider, { maxAge: maxAgeSeconds });
+      const server = await api.listen(Number(port), host);
+      const { address, port: boundPort } = server.address() as AddressInfo;
+      console.log(`Serving PriceFeed ${priceFeedAddress} on http://${address}:${boundPort}, Ctrl+C to stop`);
+      console.log('Routes: /prices, /prices/:tokenId, /tokens, /health');
+
+      await new Promise<void>((resolve) => {
+        const stop = () => server.close(() => resolve());
+        process.once('SIGINT', stop);
+        process.once('SIGTERM', stop);
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error serving the API: ${errorMessage}`);
+    }
+  });
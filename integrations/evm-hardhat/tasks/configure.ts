@@ -0,0 +1,158 @@
+import { isAddress, isBytesLike } from 'ethers';
+import { decodeMarketFields, encodeMarketFields, parseMarketFields } from '../../../packages/client/src';
+import { priceFeedScope } from '.';
+import { getDeployedContract } from './utils';
+
+/**
+ * Parses a positive integer task parameter.
+ * @param name The parameter name, for the error message.
+ * @param value The raw parameter value.
+ * @returns The parsed value.
+ * @throws Error if the value is not a positive integer.
+ */
+function parsePositive(name: string, value: string): bigint {
+  if (!/^\d+$/.test(value) || BigInt(value) === 0n) {
+    throw new Error(`--${name} must be a positive integer, got "${value}"`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Task: Reads and changes the configuration of the PriceFeed contract.
+ * Optional parameters:
+ * - contract: PriceFeed contract address
+ * - gasPrice, execGasLimit, tallyGasLimit, replicationFactor, consensusFilter: request parameters to change
+ * - oracleProgramId: Oracle program to use for new requests
+ * - marketFields: Order-book fields new requests fetch on top of the midpoint, or "none"
+ * - addOperator / removeOperator: Account to allow or disallow to transmit
+ * - newOwner: Account to hand the contract over to
+ * Without changes, prints the current configuration. Changes require the owner account.
+ */
+priceFeedScope
+  .task('configure', 'Reads and changes the PriceFeed request parameters, oracle program and roles')
+  .addOptionalParam('contract', 'The PriceFeed contract address')
+  .addOptionalParam('gasPrice', 'SEDA tokens paid per unit of gas')
+  .addOptionalParam('execGasLimit', 'Gas limit for the execution phase')
+  .addOptionalParam('tallyGasLimit', 'Gas limit for the tally phase')
+  .addOptionalParam('replicationFactor', 'Number of executors that run each request')
+  .addOptionalParam('consensusFilter', 'Hex-encoded consensus filter (0x00 for none)')
+  .addOptionalParam('oracleProgramId', 'Oracle program ID for new requests')
+  .addOptionalParam('marketFields', 'Order-book fields of new requests, e.g. "bid,ask" or "none"')
+  .addOptionalParam('addOperator', 'Account to allow to transmit requests')
+  .addOptionalParam('removeOperator', 'Account to disallow to transmit requests')
+  .addOptionalParam('newOwner', 'Account to transfer ownership to')
+  .setAction(
+    async (
+      {
+        contract,
+        gasPrice,
+        execGasLimit,
+        tallyGasLimit,
+        replicationFactor,
+        consensusFilter,
+        oracleProgramId,
+        marketFields,
+        addOperator,
+        removeOperator,
+        newOwner,
+      },
+      hre,
+    ) => {
+      try {
+        // Fetch the address from previous deployments if not provided
+        let priceFeedAddress = contract;
+        if (!priceFeedAddress) {
+          console.log('No contract address specified, fetching from previous deployments...');
+          priceFeedAddress = getDeployedContract(hre.network, 'PriceFeed');
+          console.log('Contract found:', priceFeedAddress);
+        }
+
+        // Get the PriceFeed contract instance
+        const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
+
+        // Validate every change before sending the first transaction
+        for (const [name, value] of [
+          ['add-operator', addOperator],
+          ['remove-operator', removeOperator],
+          ['new-owner', newOwner],
+        ]) {
+          if (value !== undefined && !isAddress(value)) {
+            throw new Error(`--${name} must be an address, got "${value}"`);
+          }
+        }
+        if (oracleProgramId !== undefined && !isBytesLike(oracleProgramId)) {
+          throw new Error(`Invalid Oracle Program ID: ${oracleProgramId}`);
+        }
+        if (consensusFilter !== undefined && !isBytesLike(consensusFilter)) {
+          throw new Error(`--consensus-filter must be hex-encoded, got "${consensusFilter}"`);
+        }
+
+        const newMarketFields =
+          marketFields === undefined ? undefined : marketFields === 'none' ? [] : parseMarketFields(marketFields);
+        if (newMarketFields?.length === 0 && marketFields !== 'none') {
+          throw new Error('--market-fields needs at least one field, use "none" for the midpoint only');
+        }
+
+        const current = await priceFeed.getRequestParams();
+        const params = {
+          gasPrice: gasPrice !== undefined ? parsePositive('gas-price', gasPrice) : current.gasPrice,
+          execGasLimit:
+            execGasLimit !== undefined ? parsePositive('exec-gas-limit', execGasLimit) : current.execGasLimit,
+          tallyGasLimit:
+            tallyGasLimit !== undefined ? parsePositive('tally-gas-limit', tallyGasLimit) : current.tallyGasLimit,
+          replicationFactor:
+            replicationFactor !== undefined
+              ? parsePositive('replication-factor', replicationFactor)
+              : current.replicationFactor,
+          consensusFilter: consensusFilter ?? current.consensusFilter,
+        };
+
+        const paramsChanged =
+          gasPrice !== undefined ||
+          execGasLimit !== undefined ||
+          tallyGasLimit !== undefined ||
+          replicationFactor !== undefined ||
+          consensusFilter !== undefined;
+        if (paramsChanged) {
+          console.log('\nUpdating request parameters...');
+          await (await priceFeed.setRequestParams(params)).wait();
+        }
+        if (oracleProgramId !== undefined) {
+          console.log(`Updating Oracle Program ID to ${oracleProgramId}...`);
+          await (await priceFeed.setOracleProgramId(oracleProgramId)).wait();
+        }
+        if (newMarketFields !== undefined) {
+          console.log(`Requesting ${newMarketFields.join(', ') || 'no'} order-book fields in new requests...`);
+          await (await priceFeed.setMarketFields(encodeMarketFields(newMarketFields))).wait();
+        }
+        if (addOperator !== undefined) {
+          console.log(`Adding operator ${addOperator}...`);
+          await (await priceFeed.setOperator(addOperator, true)).wait();
+        }
+        if (removeOperator !== undefined) {
+          console.log(`Removing operator ${removeOperator}...`);
+          await (await priceFeed.setOperator(removeOperator, false)).wait();
+        }
+        // Transfer ownership last, the other changes need the current owner
+        if (newOwner !== undefined) {
+          console.log(`Transferring ownership to ${newOwner}...`);
+          await (await priceFeed.transferOwnership(newOwner)).wait();
+        }
+
+        const updated = await priceFeed.getRequestParams();
+        console.log(`\nPriceFeed configuration at ${priceFeedAddress}:`);
+        console.log(`- Owner: ${await priceFeed.owner()}`);
+        console.log(`- Oracle Program ID: ${await priceFeed.oracleProgramId()}`);
+        console.log(`- Gas Price: ${updated.gasPrice}`);
+        console.log(`- Exec Gas Limit: ${updated.execGasLimit}`);
+        console.log(`- Tally Gas Limit: ${updated.tallyGasLimit}`);
+        console.log(`- Replication Factor: ${updated.replicationFactor}`);
+        console.log(`- Consensus Filter: ${updated.consensusFilter}`);
+        console.log(`- Market Fields: ${decodeMarketFields(await priceFeed.marketFields()).join(', ') || 'none'}`);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Error configuring PriceFeed: ${errorMessage}`);
+        console.error('Changes must be sent from the owner account.');
+      }
+    },
+  );
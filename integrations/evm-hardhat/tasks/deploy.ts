@@ -1,48 +1,62 @@
-import * as fs from 'node:fs';
-import * as path from 'node:path';
-import { createInterface } from 'node:readline';
 import MockSedaCore from '@seda-protocol/evm/artifacts/contracts/mocks/MockSedaCore.sol/MockSedaCore.json';
-import { type BytesLike, isAddress, isBytesLike } from 'ethers';
+import { hexlify, isAddress, isBytesLike } from 'ethers';
 import { priceFeedScope } from '.';
-import { getOracleProgramId, getSedaConfig } from './utils';
-
-// Define a type for deployment info
-interface DeploymentInfo {
-  contractAddress: string;
-  coreAddress: string;
-  oracleProgramId: BytesLike;
-  timestamp: number;
-  deployer: string;
-}
+import {
+  DEFAULT_DEPLOYMENTS_FILE,
+  DEFAULT_INSTANCE,
+  type Deployment,
+  getNetworkKey,
+  loadRegistry,
+  recordDeployment,
+  saveRegistry,
+} from './registry';
+import { getOracleProgramId, getSedaConfig, isLocalNetwork } from './utils';
 
 /**
  * Task: Deploys the PriceFeed contract.
  * Optional parameters:
  * - coreAddress: The SEDA Core contract address
  * - oracleProgramId: The Oracle program ID
- * - force: Force overwrite if deployment exists
+ * - name: Instance name, to run several PriceFeeds on one network
  * - verify: Verify contract on the blockchain explorer
+ * - force: Accepted for existing scripts, deployments no longer overwrite each other so there is nothing to confirm
  * If parameters are not provided, they are fetched from configuration.
+ * The deployment is added to the registry and becomes the instance the other tasks use.
  */
 priceFeedScope
   .task('deploy', 'Deploys the PriceFeed contract')
   .addOptionalParam('coreAddress', 'The SEDA Core contract address')
   .addOptionalParam('oracleProgramId', 'The Oracle program ID')
-  .addFlag('force', 'Force overwrite if deployment exists')
+  .addOptionalParam('name', 'Instance name, to run several PriceFeeds on one network', DEFAULT_INSTANCE)
   .addFlag('verify', 'Verify contract on the blockchain explorer')
-  .setAction(async ({ coreAddress, oracleProgramId, force, verify }, hre) => {
+  .addFlag('force', 'Deprecated, has no effect: earlier deployments stay in the registry history')
+  .setAction(async ({ coreAddress, oracleProgramId, name, verify, force }, hre) => {
     try {
+      if (force) {
+        console.warn('--force is deprecated and has no effect, earlier deployments are kept in the registry history');
+      }
+
+      // Set when a MockSedaCore is deployed for this PriceFeed
+      let mockDeployment: Pick<Deployment, 'contract' | 'address' | 'txHash' | 'blockNumber'> | undefined;
+
       // Get network-specific parameters if not provided
       if (!coreAddress) {
-        if (hre.network.name === 'hardhat') {
+        if (isLocalNetwork(hre.network.name)) {
           console.log('Local deployment: Deploying MockSedaCore...');
 
           // Deploy MockSedaCore for local testing
           const SedaCore = await hre.ethers.getContractFactoryFromArtifact(MockSedaCore);
           const mockSedaCore = await SedaCore.deploy();
           await mockSedaCore.waitForDeployment();
+          const mockReceipt = await mockSedaCore.deploymentTransaction()?.wait();
 
           coreAddress = await mockSedaCore.getAddress();
+          mockDeployment = {
+            contract: 'MockSedaCore',
+            address: coreAddress,
+            txHash: mockReceipt?.hash,
+            blockNumber: mockReceipt?.blockNumber,
+          };
           console.log(`MockSedaCore deployed at: ${coreAddress}`);
         } else {
           // Fetch from config if not provided
@@ -58,7 +72,7 @@ priceFeedScope
 
       // Handle Oracle Program ID according to priority
       if (!oracleProgramId) {
-        if (hre.network.name === 'hardhat') {
+        if (isLocalNetwork(hre.network.name)) {
           // Use ZeroHash for local testing
           oracleProgramId = hre.ethers.ZeroHash;
           console.log(`Using ZeroHash as Oracle Program ID for local testing: ${oracleProgramId}`);
@@ -73,35 +87,9 @@ priceFeedScope
         throw new Error(`Invalid Oracle Program ID: ${oracleProgramId}`);
       }
 
-      // Create network key with name and chainId
-      const chainId = hre.network.config.chainId || 0;
-      const networkKey = `${hre.network.name}-${chainId}`;
-
-      // Set up path for the deployment file
-      const deploymentsDir = path.join(__dirname, '../deployments');
-      const deploymentFile = path.join(deploymentsDir, 'addresses.json');
-
-      // Read existing deployments or create new object
-      let allDeployments: Record<string, DeploymentInfo> = {};
-      if (fs.existsSync(deploymentFile)) {
-        try {
-          allDeployments = JSON.parse(fs.readFileSync(deploymentFile, 'utf8'));
-        } catch (e) {
-          throw new Error(`Could not parse existing deployments file: ${e}`);
-        }
-      }
-
-      // Check if deployment already exists for this network
-      if (allDeployments[networkKey] && !force) {
-        const shouldOverwrite = await promptForConfirmation(
-          `Deployment already exists for network ${networkKey}. Overwrite? (y/n): `,
-        );
-
-        if (!shouldOverwrite) {
-          console.log('Deployment cancelled. Use --force to skip this prompt.');
-          return;
-        }
-      }
+      const networkKey = getNetworkKey(hre.network);
+      const registry = loadRegistry();
+      const deployer = (await hre.ethers.getSigners())[0].address;
 
       // Deploy the PriceFeed contract
       console.log('\nDeploying PriceFeed contract...');
@@ -110,40 +98,38 @@ priceFeedScope
 
       await priceFeed.waitForDeployment();
       const priceFeedAddress = await priceFeed.getAddress();
+      const receipt = await priceFeed.deploymentTransaction()?.wait();
 
       console.log('\nPriceFeed deployed successfully:');
       console.log(`- Contract Address: ${priceFeedAddress}`);
       console.log(`- SEDA Core Address: ${coreAddress}`);
       console.log(`- Oracle Program ID: ${oracleProgramId}`);
+      console.log(`- Transaction: ${receipt?.hash}`);
 
       // Get current timestamp for deployment tracking
       const timestamp = Math.floor(Date.now() / 1000);
 
-      // Create the deployment info
-      const deploymentInfo = {
-        contractAddress: priceFeedAddress,
-        coreAddress,
-        oracleProgramId,
-        timestamp,
-        deployer: (await hre.ethers.getSigners())[0].address,
-      };
-
-      // Create directory if it doesn't exist
-      if (!fs.existsSync(deploymentsDir)) {
-        fs.mkdirSync(deploymentsDir, { recursive: true });
+      // Record the deployments, earlier deployments of the instance stay in the history
+      if (mockDeployment) {
+        recordDeployment(registry, networkKey, { ...mockDeployment, name, timestamp, deployer });
       }
+      recordDeployment(registry, networkKey, {
+        contract: 'PriceFeed',
+        name,
+        address: priceFeedAddress,
+        txHash: receipt?.hash,
+        blockNumber: receipt?.blockNumber,
+        timestamp,
+        deployer,
+        details: { coreAddress, oracleProgramId: hexlify(oracleProgramId) },
+      });
+      saveRegistry(registry);
 
-      // Update deployments with new deployment info
-      allDeployments[networkKey] = deploymentInfo;
-
-      // Write updated deployments to file
-      fs.writeFileSync(deploymentFile, JSON.stringify(allDeployments, null, 2));
-
-      console.log(`\nDeployment information saved to ${deploymentFile}`);
-      console.log(`Network key: ${networkKey}`);
+      console.log(`\nDeployment information saved to ${DEFAULT_DEPLOYMENTS_FILE}`);
+      console.log(`Network key: ${networkKey}, instance: ${name}`);
 
       // Verify contract if requested and not on local network
-      if (verify && hre.network.name !== 'hardhat' && hre.network.name !== 'localhost') {
+      if (verify && !isLocalNetwork(hre.network.name)) {
         console.log('\nVerifying contract on block explorer...');
         try {
           await hre.run('verify:verify', {
@@ -164,17 +150,3 @@ priceFeedScope
       process.exit(1);
     }
   });
-
-async function promptForConfirmation(question: string): Promise<boolean> {
-  const rl = createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  return new Promise((resolve) => {
-    rl.question(question, (answer) => {
-      rl.close();
-      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
-    });
-  });
-}
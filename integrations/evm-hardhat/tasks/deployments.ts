@@ -0,0 +1,102 @@
+import * as fs from 'node:fs';
+import { priceFeedScope } from '.';
+import {
+  currentDeployments,
+  type Deployment,
+  getNetworkKey,
+  loadRegistry,
+  mergeRegistry,
+  parseRegistry,
+  saveRegistry,
+  useDeployment,
+} from './registry';
+
+/**
+ * Formats a deployment as a table row.
+ * @param deployment The deployment.
+ * @param active Whether it is the instance the tasks use.
+ * @returns The row.
+ */
+function deploymentRow(deployment: Deployment, active: boolean) {
+  return {
+    contract: deployment.contract,
+    name: deployment.name,
+    active: active ? '*' : '',
+    address: deployment.address,
+    transaction: deployment.txHash ?? '-',
+    deployed: new Date(deployment.timestamp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Task: Manages the deployment registry.
+ * Actions:
+ * - list: Prints the current deployment of every instance on the network (--history: every deployment)
+ * - use <name>: Selects the instance of a contract (--contract-name, PriceFeed by default) the tasks use
+ * - export [file]: Writes the registry to a file, or to stdout
+ * - import <file>: Adds the deployments of an exported registry
+ */
+priceFeedScope
+  .task('deployments', 'Lists, selects, exports and imports deployments of the registry')
+  .addPositionalParam('action', 'list, use, export or import')
+  .addOptionalPositionalParam('target', 'Instance name for use, file for export and import')
+  .addOptionalParam('contractName', 'Contract whose instance to select with use', 'PriceFeed')
+  .addFlag('history', 'List superseded deployments as well')
+  .setAction(async ({ action, target, contractName, history }, hre) => {
+    try {
+      const registry = loadRegistry();
+      const networkKey = getNetworkKey(hre.network);
+
+      switch (action) {
+        case 'list': {
+          const deployments = registry.networks[networkKey];
+          if (!deployments || deployments.history.length === 0) {
+            console.log(`No deployments found for network ${networkKey}`);
+            return;
+          }
+
+          const current = new Set(currentDeployments(registry, networkKey));
+          const isActive = (deployment: Deployment) =>
+            current.has(deployment) && deployments.active[deployment.contract] === deployment.name;
+          const listed = history ? deployments.history : [...current];
+          console.log(`Deployments on ${networkKey} (* marks the instances the tasks use):`);
+          console.table(listed.map((deployment) => deploymentRow(deployment, isActive(deployment))));
+          return;
+        }
+        case 'use': {
+          if (!target) {
+            throw new Error('Give the name of the instance to use, e.g. "pricefeed deployments use default"');
+          }
+          useDeployment(registry, networkKey, contractName, target);
+          saveRegistry(registry);
+          console.log(`The tasks now use ${contractName} "${target}" on ${networkKey}`);
+          return;
+        }
+        case 'export': {
+          const json = `${JSON.stringify(registry, null, 2)}\n`;
+          if (!target) {
+            process.stdout.write(json);
+            return;
+          }
+          fs.writeFileSync(target, json);
+          console.log(`Exported the deployments of ${Object.keys(registry.networks).length} network(s) to ${target}`);
+          return;
+        }
+        case 'import': {
+          if (!target) {
+            throw new Error('Give the file to import, e.g. "pricefeed deployments import deployments.json"');
+          }
+          const imported = parseRegistry(JSON.parse(fs.readFileSync(target, 'utf-8')), target);
+          const added = mergeRegistry(registry, imported);
+          saveRegistry(registry);
+          console.log(`Imported ${added} deployment(s) from ${target}`);
+          return;
+        }
+        default:
+          throw new Error(`Unknown action "${action}", expected list, use, export or import`);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error managing deployments: ${errorMessage}`);
+    }
+  });
@@ -0,0 +1,235 @@
+import { formatEther, Interface, parseEther } from 'ethers';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { PriceFeed } from '../typechain-types';
+import type { RequestFees } from './utils';
+
+/** Price of a SEDA token in ETH the request fee is converted with, pass the current rate with --seda-price */
+export const DEFAULT_SEDA_PRICE = '0.00001';
+
+/** Headroom added to every estimated fee, in percent */
+export const DEFAULT_FEE_MARGIN = '20';
+
+/** EVM gas to post a result to SEDA Core, without the token dependent part */
+export const RESULT_BASE_GAS = 150_000n;
+
+/** EVM gas every token adds to a result: seven 32 byte words of calldata and storage */
+export const RESULT_GAS_PER_TOKEN = 130_000n;
+
+/** Share of the EVM gas to post a batch that falls on one request */
+export const BATCH_GAS = 50_000n;
+
+// SEDA gas prices are in aSEDA, the token has 18 decimals
+const SEDA_DECIMALS = 10n ** 18n;
+
+// How results are posted to SEDA Core, the transaction that settles the fees of their request
+const RESULT_POSTING = new Interface([
+  'function postResult((string version, bytes32 drId, bool consensus, uint8 exitCode, bytes result, uint64 blockHeight, uint64 blockTimestamp, uint128 gasUsed, bytes paybackAddress, bytes sedaPayload) result, uint64 batchHeight, bytes32[] proof)',
+]);
+
+/** Request parameters the fees depend on, as returned by `getRequestParams` */
+export interface FeeParams {
+  gasPrice: bigint;
+  execGasLimit: bigint;
+  tallyGasLimit: bigint;
+  replicationFactor: bigint;
+}
+
+/** Fees derived from the request parameters, with the inputs of every fee */
+export interface FeeEstimate extends RequestFees {
+  /** Most SEDA gas the request can use: every executor's execution plus the tally */
+  sedaGas: bigint;
+  /** SEDA gas price in aSEDA */
+  sedaGasPrice: bigint;
+  /** Price of one SEDA token in wei */
+  sedaPrice: bigint;
+  /** EVM gas price in wei */
+  evmGasPrice: bigint;
+  resultGas: bigint;
+  batchGas: bigint;
+  marginPercent: bigint;
+}
+
+/** How SEDA Core settles the fees of a request once its result is posted */
+export interface FeeFlows {
+  fees: RequestFees;
+  gasLimit: bigint;
+  gasUsed: bigint;
+  /** Address of the solver that gets its share of the request fee, undefined if the result has none */
+  paybackAddress?: string;
+  /** Share of the request fee paid to the payback address: what SEDA Core did not refund of it */
+  paidBack: bigint;
+  /** What SEDA Core refunded to the PriceFeed when the result was posted (`FeesRefunded` events) */
+  refunded: bigint;
+  /** Transaction that posted the result and refunded the fees, undefined if nothing was refunded */
+  refundTxHash?: string;
+}
+
+/**
+ * Derives the fees of a request from its parameters.
+ * The request fee buys the SEDA gas the request may use at the SEDA gas price, converted to ETH. The result
+ * fee pays for posting the result to SEDA Core and grows with the number of tokens, the batch fee for the
+ * request's share of posting the batch that proves it.
+ * @param params Gas price, gas limits and replication factor of the request.
+ * @param tokenCount Number of tokens the request prices.
+ * @param options Price of a SEDA token and EVM gas price in wei, and the margin in percent.
+ * @returns The fees in wei with their inputs.
+ */
+export function estimateFees(
+  params: FeeParams,
+  tokenCount: number,
+  options: { sedaPrice: bigint; evmGasPrice: bigint; marginPercent: bigint },
+): FeeEstimate {
+  const withMargin = (fee: bigint) => (fee * (100n + options.marginPercent)) / 100n;
+  const sedaGas = params.execGasLimit * params.replicationFactor + params.tallyGasLimit;
+  const resultGas = RESULT_BASE_GAS + RESULT_GAS_PER_TOKEN * BigInt(tokenCount);
+
+  return {
+    requestFee: withMargin((sedaGas * params.gasPrice * options.sedaPrice) / SEDA_DECIMALS),
+    resultFee: withMargin(resultGas * options.evmGasPrice),
+    batchFee: withMargin(BATCH_GAS * options.evmGasPrice),
+    sedaGas,
+    sedaGasPrice: params.gasPrice,
+    sedaPrice: options.sedaPrice,
+    evmGasPrice: options.evmGasPrice,
+    resultGas,
+    batchGas: BATCH_GAS,
+    marginPercent: options.marginPercent,
+  };
+}
+
+/**
+ * Resolves the fees of a transmission: fees given in ETH are used as is, the others are estimated from the
+ * PriceFeed's request parameters and the network's gas price.
+ * @param hre The Hardhat runtime environment.
+ * @param priceFeed The PriceFeed contract instance.
+ * @param tokenCount Number of tokens the request prices.
+ * @param args The fee options of a task, in ETH, with the SEDA price in ETH and the margin in percent.
+ * @returns The fees in wei and the estimate they are based on.
+ * @throws Error if an amount or the margin is invalid.
+ */
+export async function resolveFees(
+  hre: HardhatRuntimeEnvironment,
+  priceFeed: PriceFeed,
+  tokenCount: number,
+  args: { requestFee?: string; resultFee?: string; batchFee?: string; sedaPrice: string; feeMargin: string },
+): Promise<{ fees: RequestFees; estimate: FeeEstimate }> {
+  if (!/^\d+$/.test(args.feeMargin)) {
+    throw new Error(`--fee-margin must be a whole percentage, got "${args.feeMargin}"`);
+  }
+
+  const [params, feeData] = await Promise.all([priceFeed.getRequestParams(), hre.ethers.provider.getFeeData()]);
+  const estimate = estimateFees(params, tokenCount, {
+    sedaPrice: parseEther(args.sedaPrice),
+    evmGasPrice: feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n,
+    marginPercent: BigInt(args.feeMargin),
+  });
+
+  const fees = {
+    requestFee: args.requestFee !== undefined ? parseEther(args.requestFee) : estimate.requestFee,
+    resultFee: args.resultFee !== undefined ? parseEther(args.resultFee) : estimate.resultFee,
+    batchFee: args.batchFee !== undefined ? parseEther(args.batchFee) : estimate.batchFee,
+  };
+  return { fees, estimate };
+}
+
+/**
+ * Describes the fees of a transmission and how each was derived.
+ * @param fees The fees that will be paid.
+ * @param estimate The estimate, fees that differ from it were given explicitly.
+ * @returns One line per fee and the total.
+ */
+export function formatFeeBreakdown(fees: RequestFees, estimate: FeeEstimate): string[] {
+  const margin = `+${estimate.marginPercent}%`;
+  const source = (fee: keyof RequestFees, derivation: string) =>
+    fees[fee] === estimate[fee] ? derivation : `given (estimate ${formatEther(estimate[fee])} ETH)`;
+  const gwei = (wei: bigint) => `${formatEther(wei * 10n ** 9n)} gwei`;
+
+  return [
+    `- Request Fee: ${formatEther(fees.requestFee)} ETH, ${source(
+      'requestFee',
+      `${estimate.sedaGas} SEDA gas at ${estimate.sedaGasPrice} aSEDA, 1 SEDA = ${formatEther(estimate.sedaPrice)} ETH, ${margin}`,
+    )}`,
+    `- Result Fee: ${formatEther(fees.resultFee)} ETH, ${source(
+      'resultFee',
+      `${estimate.resultGas} gas at ${gwei(estimate.evmGasPrice)}, ${margin}`,
+    )}`,
+    `- Batch Fee: ${formatEther(fees.batchFee)} ETH, ${source(
+      'batchFee',
+      `${estimate.batchGas} gas at ${gwei(estimate.evmGasPrice)}, ${margin}`,
+    )}`,
+    `- Total: ${formatEther(fees.requestFee + fees.resultFee + fees.batchFee)} ETH`,
+  ];
+}
+
+/**
+ * Reports how SEDA Core settled the fees of a request whose result is posted: the solver's payback address gets
+ * the share of the request fee the request's gas used accounts for and the rest is refunded to the PriceFeed, the
+ * result fee goes to the result submitter and the batch fee to the batch prover. The refund is read from the
+ * `FeesRefunded` events of the transaction that posted the result, the payback is the rest of the request fee.
+ * @param hre The Hardhat runtime environment.
+ * @param priceFeed The PriceFeed contract instance.
+ * @param requestId ID of a request transmitted through the contract.
+ * @returns The fee flows, or undefined if the request was transmitted before fees were recorded.
+ * @throws Error if the request has no result.
+ */
+export async function getFeeFlows(
+  hre: HardhatRuntimeEnvironment,
+  priceFeed: PriceFeed,
+  requestId: string,
+): Promise<FeeFlows | undefined> {
+  const [paid] = (await priceFeed.queryFilter(priceFeed.filters.RequestFeesPaid(requestId))).slice(-1);
+  if (!paid) {
+    return undefined;
+  }
+
+  const sedaCoreAddress = await priceFeed.SEDA_CORE();
+  const sedaCore = await hre.ethers.getContractAt('ISedaCore', sedaCoreAddress);
+  const result = await sedaCore.getResult(requestId);
+  const { requestFee, resultFee, batchFee, gasLimit } = paid.args;
+
+  // Refunds of other requests' results are told apart by the request ID the transaction posted a result for
+  const refunds = await priceFeed.queryFilter(priceFeed.filters.FeesRefunded(sedaCoreAddress), paid.blockNumber);
+  let refundTxHash: string | undefined;
+  for (const refund of refunds) {
+    const tx = await refund.getTransaction();
+    const posting = tx.to?.toLowerCase() === sedaCoreAddress.toLowerCase() ? RESULT_POSTING.parseTransaction(tx) : null;
+    if (posting?.args.result.drId === requestId.toLowerCase()) {
+      refundTxHash = refund.transactionHash;
+      break;
+    }
+  }
+  const refunded = refunds
+    .filter((refund) => refund.transactionHash === refundTxHash)
+    .reduce((total, refund) => total + refund.args.amount, 0n);
+
+  // SEDA Core only pays back to a valid EVM address, the whole request fee is refunded otherwise
+  const paybackAddress = hre.ethers.dataLength(result.paybackAddress) === 20 ? result.paybackAddress : undefined;
+  const paidBack = paybackAddress && refunded < requestFee ? requestFee - refunded : 0n;
+
+  return {
+    fees: { requestFee, resultFee, batchFee },
+    gasLimit,
+    gasUsed: result.gasUsed,
+    paybackAddress: paybackAddress ? hre.ethers.getAddress(paybackAddress) : undefined,
+    paidBack,
+    refunded,
+    refundTxHash,
+  };
+}
+
+/**
+ * Describes the fee flows of a request.
+ * @param flows The fee flows, see `getFeeFlows`.
+ * @returns One line per flow.
+ */
+export function formatFeeFlows(flows: FeeFlows): string[] {
+  const recipient = flows.paybackAddress ?? 'no payback address';
+  return [
+    `- Gas used: ${flows.gasUsed} of ${flows.gasLimit}`,
+    `- Request Fee: ${formatEther(flows.paidBack)} ETH to ${recipient}, ${formatEther(flows.refunded)} ETH refunded${
+      flows.refundTxHash ? ` (transaction ${flows.refundTxHash})` : ''
+    }`,
+    `- Result Fee: ${formatEther(flows.fees.resultFee)} ETH to the result submitter`,
+    `- Batch Fee: ${formatEther(flows.fees.batchFee)} ETH to the batch prover`,
+  ];
+}
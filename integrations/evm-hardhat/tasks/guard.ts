@@ -0,0 +1,126 @@
+import { ZeroHash } from 'ethers';
+import { formatPrice, PRICE_DECIMALS, parsePrice } from '../../../packages/client/src';
+import { priceFeedScope } from '.';
+import { DEFAULT_CHUNK_SIZE } from './indexer';
+import { getDeployedContract } from './utils';
+
+/** Labels of the contract's RejectReason values, by index */
+const REJECT_REASONS = ['none', 'out of bounds', 'deviation'];
+
+/**
+ * Parses the maximum deviation of a price in one update.
+ * @param value Decimal between 0 and 1, e.g. "0.2".
+ * @returns The maximum deviation with 6 decimals.
+ * @throws Error if the value is not a decimal between 0 and 1 with at most 6 fraction digits.
+ */
+function parseMaxDeviation(value: string): bigint {
+  let maxDeviation: bigint;
+  try {
+    maxDeviation = parsePrice(value);
+  } catch {
+    throw new Error(`--max-deviation must be a decimal between 0 and 1, got "${value}"`);
+  }
+  if (maxDeviation > 10n ** BigInt(PRICE_DECIMALS)) {
+    throw new Error(`--max-deviation must be a decimal between 0 and 1, got "${value}"`);
+  }
+  return maxDeviation;
+}
+
+/**
+ * Task: Inspects and resets the circuit breaker of the PriceFeed contract.
+ * Optional parameters:
+ * - contract: PriceFeed contract address
+ * - maxDeviation: Largest change of a price in one update, as a decimal (0 disables the check)
+ * - pause: Trip the circuit breaker by hand
+ * - reset: Reset the circuit breaker so results are applied again
+ * - lookback: Number of recent blocks searched for the prices the guard rejected
+ * Without changes, prints the state of the breaker and the prices that tripped it. Changes require the owner account.
+ */
+priceFeedScope
+  .task('guard', 'Inspects and resets the circuit breaker of the PriceFeed contract')
+  .addOptionalParam('contract', 'The PriceFeed contract address')
+  .addOptionalParam('maxDeviation', 'Largest change of a price in one update, e.g. 0.2 (0 disables the check)')
+  .addFlag('pause', 'Trip the circuit breaker by hand')
+  .addFlag('reset', 'Reset the circuit breaker so results are applied again')
+  .addOptionalParam('lookback', 'Recent blocks searched for rejected prices', String(DEFAULT_CHUNK_SIZE))
+  .setAction(async ({ contract, maxDeviation, pause, reset, lookback }, hre) => {
+    try {
+      // Fetch the address from previous deployments if not provided
+      let priceFeedAddress = contract;
+      if (!priceFeedAddress) {
+        console.log('No contract address specified, fetching from previous deployments...');
+        priceFeedAddress = getDeployedContract(hre.network, 'PriceFeed');
+        console.log('Contract found:', priceFeedAddress);
+      }
+
+      // Validate every change before sending the first transaction
+      if (pause && reset) {
+        throw new Error('--pause and --reset cannot be used together');
+      }
+      if (!/^\d+$/.test(lookback)) {
+        throw new Error(`--lookback must be a number of blocks, got "${lookback}"`);
+      }
+      const newMaxDeviation = maxDeviation !== undefined ? parseMaxDeviation(maxDeviation) : undefined;
+
+      const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
+
+      if (newMaxDeviation !== undefined) {
+        console.log(`\nSetting the maximum deviation to ${formatPrice(newMaxDeviation)}...`);
+        await (await priceFeed.setMaxDeviation(newMaxDeviation)).wait();
+      }
+      if (pause) {
+        console.log('\nTripping the circuit breaker...');
+        await (await priceFeed.pause()).wait();
+      }
+      if (reset) {
+        console.log('\nResetting the circuit breaker...');
+        await (await priceFeed.resetCircuitBreaker()).wait();
+      }
+
+      const [paused, currentMaxDeviation, trippedRequestId] = await Promise.all([
+        priceFeed.paused(),
+        priceFeed.maxDeviation(),
+        priceFeed.trippedRequestId(),
+      ]);
+      console.log(`\nCircuit breaker of PriceFeed at ${priceFeedAddress}:`);
+      console.log(`- State: ${paused ? 'tripped, updates are paused' : 'ok, results are applied'}`);
+      console.log(
+        `- Max Deviation: ${currentMaxDeviation === 0n ? 'disabled' : `${formatPrice(currentMaxDeviation)} per update`}`,
+      );
+      if (trippedRequestId === ZeroHash) {
+        console.log('- Last Trip: never tripped by a result');
+        return;
+      }
+      console.log(`- Last Trip: request ${trippedRequestId}`);
+
+      // Public RPCs limit the block range of a log query, the trip is usually recent
+      const latestBlock = await hre.ethers.provider.getBlockNumber();
+      const fromBlock = Math.max(latestBlock - Number(lookback), 0);
+      const events = await priceFeed.queryFilter(
+        priceFeed.filters.PriceRejected(trippedRequestId),
+        fromBlock,
+        latestBlock,
+      );
+      if (events.length === 0) {
+        console.log(`No rejected prices in the last ${lookback} blocks, search further back with --lookback`);
+        return;
+      }
+
+      console.log(`\nPrices rejected in block ${events[0].blockNumber}:`);
+      console.table(
+        events.map((event) => ({
+          'token ID': event.args.tokenId.toString(),
+          price: formatPrice(event.args.price),
+          previous: formatPrice(event.args.previousPrice),
+          reason: REJECT_REASONS[Number(event.args.reason)] ?? `unknown (${event.args.reason})`,
+        })),
+      );
+      if (paused) {
+        console.log('To accept a legitimate move, raise --max-deviation before resetting with --reset.');
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error handling the circuit breaker: ${errorMessage}`);
+      console.error('Changes must be sent from the owner account.');
+    }
+  });
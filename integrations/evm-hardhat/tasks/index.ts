@@ -5,7 +5,16 @@ import { scope } from 'hardhat/config';
  */
 export const priceFeedScope = scope('pricefeed', 'Interact with the PriceFeed contract');
 
+import './api';
+import './configure';
 import './deploy';
+import './deployments';
+import './guard';
+import './indexer';
+import './keeper';
 import './latest';
+import './networks';
+import './refunds';
+import './relay';
 import './transmit';
 import './update';
@@ -0,0 +1,205 @@
+import * as fs from 'node:fs';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { PriceStatus, parseTokenIds } from '../../../packages/client/src';
+import type { PriceFeed } from '../typechain-types';
+import { priceFeedScope } from '.';
+import { getNetworkKey, loadRegistry } from './registry';
+import { getDeployedContract } from './utils';
+
+/** Blocks scanned per log query, public RPCs commonly limit the range of eth_getLogs */
+export const DEFAULT_CHUNK_SIZE = 5000;
+
+/** Columns of the CSV export, in order */
+export const CSV_COLUMNS = [
+  'block_number',
+  'transaction_hash',
+  'request_id',
+  'round_id',
+  'timestamp',
+  'token_id',
+  'status',
+  'price',
+] as const;
+
+/** The price of one token in an applied result */
+export interface PriceHistoryEntry {
+  blockNumber: number;
+  transactionHash: string;
+  requestId: string;
+  roundId: string;
+  /** SEDA block timestamp of the result, in seconds */
+  timestamp: number;
+  tokenId: string;
+  /** Name of the price status, e.g. `Ok` */
+  status: string;
+  /** Price with 6 decimals, 0 unless the status is Ok */
+  price: string;
+}
+
+export interface IndexOptions {
+  fromBlock: number;
+  toBlock: number;
+  chunkSize?: number;
+  /** Only keep these tokens */
+  tokenIds?: string[];
+  /** Called after every scanned chunk */
+  onProgress?: (toBlock: number) => void;
+}
+
+/**
+ * Collects the price history of a PriceFeed from its `PricesUpdated` events.
+ * @param priceFeed The PriceFeed contract instance.
+ * @param options Block range to scan, inclusive, and optionally the tokens to keep.
+ * @returns One entry per token and result, in the order the results were applied.
+ * @throws Error if the range is invalid or a log query fails.
+ */
+export async function indexPriceHistory(priceFeed: PriceFeed, options: IndexOptions): Promise<PriceHistoryEntry[]> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (options.fromBlock > options.toBlock || !Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new Error(`Invalid block range ${options.fromBlock}-${options.toBlock} (chunk size ${chunkSize})`);
+  }
+
+  const tokenFilter = options.tokenIds ? new Set(options.tokenIds) : undefined;
+  const entries: PriceHistoryEntry[] = [];
+  for (let start = options.fromBlock; start <= options.toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, options.toBlock);
+    const events = await priceFeed.queryFilter(priceFeed.filters.PricesUpdated(), start, end);
+
+    for (const event of events) {
+      const { requestId, roundId, timestamp, tokenIds, prices, statuses } = event.args;
+      tokenIds.forEach((tokenId, index) => {
+        if (tokenFilter && !tokenFilter.has(tokenId.toString())) {
+          return;
+        }
+        entries.push({
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+          requestId,
+          roundId: roundId.toString(),
+          timestamp: Number(timestamp),
+          tokenId: tokenId.toString(),
+          status: PriceStatus[Number(statuses[index])] ?? `Unknown(${statuses[index]})`,
+          price: prices[index].toString(),
+        });
+      });
+    }
+    options.onProgress?.(end);
+  }
+  return entries;
+}
+
+/**
+ * Formats price history as CSV, with a header row of `CSV_COLUMNS`.
+ * @param entries The price history.
+ * @returns The CSV document.
+ */
+export function toCsv(entries: PriceHistoryEntry[]): string {
+  const rows = entries.map((entry) =>
+    [
+      entry.blockNumber,
+      entry.transactionHash,
+      entry.requestId,
+      entry.roundId,
+      entry.timestamp,
+      entry.tokenId,
+      entry.status,
+      entry.price,
+    ].join(','),
+  );
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\n')}\n`;
+}
+
+/** Arguments of the index task, as given on the command line */
+export interface IndexTaskArgs {
+  contract?: string;
+  fromBlock?: string;
+  toBlock?: string;
+  tokenIds?: string;
+  format: string;
+  out?: string;
+  chunkSize: string;
+}
+
+/**
+ * Exports the price history of a PriceFeed to a file, or to stdout if none is given.
+ * @param hre The Hardhat runtime environment.
+ * @param args The arguments of the index task.
+ * @param log Receives the progress, stderr by default so that stdout only holds the export.
+ * @throws Error if an argument is invalid or a log query fails.
+ */
+export async function exportPriceHistory(
+  hre: HardhatRuntimeEnvironment,
+  args: IndexTaskArgs,
+  log: (message: string) => void = console.error,
+): Promise<void> {
+  if (args.format !== 'csv' && args.format !== 'json') {
+    throw new Error(`Unknown format "${args.format}", expected csv or json`);
+  }
+  const chunkSize = Number(args.chunkSize);
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`--chunk-size must be a positive whole number of blocks, got "${args.chunkSize}"`);
+  }
+
+  const priceFeedAddress: string = args.contract ?? getDeployedContract(hre.network, 'PriceFeed');
+  const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
+
+  // Start at the deployment block if the registry knows it
+  const deployment = loadRegistry().networks[getNetworkKey(hre.network)]?.history.find(
+    (entry) => entry.address.toLowerCase() === priceFeedAddress.toLowerCase(),
+  );
+  const fromBlock = args.fromBlock !== undefined ? Number(args.fromBlock) : (deployment?.blockNumber ?? 0);
+  const toBlock = args.toBlock !== undefined ? Number(args.toBlock) : await hre.ethers.provider.getBlockNumber();
+  if (!Number.isSafeInteger(fromBlock) || !Number.isSafeInteger(toBlock) || fromBlock < 0) {
+    throw new Error(`Invalid block range ${args.fromBlock ?? fromBlock}-${args.toBlock ?? toBlock}`);
+  }
+
+  log(`Scanning PriceFeed ${priceFeedAddress} from block ${fromBlock} to ${toBlock}...`);
+  const entries = await indexPriceHistory(priceFeed, {
+    fromBlock,
+    toBlock,
+    chunkSize,
+    tokenIds: args.tokenIds ? parseTokenIds(args.tokenIds) : undefined,
+    onProgress: (block) => {
+      if (block < toBlock) {
+        log(`  scanned up to block ${block}`);
+      }
+    },
+  });
+
+  const output = args.format === 'csv' ? toCsv(entries) : `${JSON.stringify(entries, null, 2)}\n`;
+  if (!args.out) {
+    process.stdout.write(output);
+    return;
+  }
+  fs.writeFileSync(args.out, output);
+  log(`Wrote ${entries.length} price(s) to ${args.out}`);
+}
+
+/**
+ * Task: Exports the price history of a PriceFeed from its events.
+ * Optional parameters:
+ * - contract: PriceFeed contract address
+ * - fromBlock: First block to scan (defaults to the deployment block recorded in the registry, or 0)
+ * - toBlock: Last block to scan (defaults to the latest block)
+ * - tokenIds: Comma-separated token IDs to export (defaults to every token)
+ * - format: csv or json
+ * - out: File to write (defaults to stdout)
+ * - chunkSize: Blocks per log query
+ */
+priceFeedScope
+  .task('index', 'Exports the price history of the PriceFeed contract from its events to CSV or JSON')
+  .addOptionalParam('contract', 'The PriceFeed contract address')
+  .addOptionalParam('fromBlock', 'First block to scan (defaults to the deployment block)')
+  .addOptionalParam('toBlock', 'Last block to scan (defaults to the latest block)')
+  .addOptionalParam('tokenIds', 'Comma-separated token IDs to export (defaults to every token)')
+  .addOptionalParam('format', 'csv or json', 'csv')
+  .addOptionalParam('out', 'File to write the price history to (defaults to stdout)')
+  .addOptionalParam('chunkSize', 'Blocks per log query', String(DEFAULT_CHUNK_SIZE))
+  .setAction(async (args, hre) => {
+    try {
+      await exportPriceHistory(hre, args);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error indexing the price history: ${errorMessage}`);
+    }
+  });
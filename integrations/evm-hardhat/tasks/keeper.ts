@@ -0,0 +1,416 @@
+import * as fs from 'node:fs';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import {
+  CLOB_API_URL,
+  DEFAULT_MARKET_CACHE_FILE,
+  formatPrice,
+  PriceStatus,
+  parsePrice,
+} from '../../../packages/client/src';
+import type { PriceFeed } from '../typechain-types';
+import { priceFeedScope } from '.';
+import { DEFAULT_FEE_MARGIN, DEFAULT_SEDA_PRICE, formatFeeBreakdown, resolveFees } from './fees';
+import {
+  applyResults,
+  describeDrop,
+  formatAge,
+  getDeployedContract,
+  type RequestFees,
+  resolveTokenIds,
+  transmitRequest,
+} from './utils';
+
+/** Default location of the keeper state, relative to the working directory */
+export const DEFAULT_KEEPER_STATE_FILE = '.keeper-state.json';
+
+export interface KeeperOptions {
+  /** Token IDs to keep up to date */
+  tokenIds: string[];
+  /** Fees paid for every transmitted request */
+  fees: RequestFees;
+  /** Seconds between scheduled transmissions */
+  interval: number;
+  /** Price change in percent that triggers a transmission before the interval, disabled if not set */
+  deviation?: number;
+  /** Seconds to wait for an applicable result before giving up on a request and transmitting again */
+  resultTimeout: number;
+  /** Seconds to wait after a failed cycle, doubled on every consecutive failure */
+  retryDelay: number;
+  /** Longest wait between retries, in seconds */
+  maxRetryDelay: number;
+  /** Path of the JSON state file, or `false` to keep the state in memory */
+  stateFile: string | false;
+  /** Fetches the current midpoint of a token as a 6-decimal fixed point, mostly useful for tests */
+  fetchMidpoint?: (tokenId: string) => Promise<bigint>;
+  /** Current time in seconds, mostly useful for tests */
+  now?: () => number;
+  log?: (message: string) => void;
+}
+
+/** What the keeper remembers across cycles and restarts */
+export interface KeeperState {
+  /** PriceFeed the state belongs to, the state of another contract is discarded */
+  contract: string;
+  /** Request waiting for its result */
+  pendingRequestId?: string;
+  /** When the last request was transmitted, in seconds */
+  lastTransmitAt?: number;
+  /** Number of consecutive failed cycles */
+  failures: number;
+  /** No cycle runs before this time (in seconds) after a failure */
+  retryAt?: number;
+}
+
+/**
+ * What became of the request the keeper waits for: applied, still without a result, dropped on-chain because its
+ * result was final but unusable, or with a result that could not be applied and is still pending on-chain.
+ */
+type PollOutcome = { status: 'applied' | 'pending' } | { status: 'dropped' | 'unapplied'; reason: string };
+
+/**
+ * Fetches the midpoint of a token from the Polymarket CLOB.
+ * @param tokenId The Polymarket token ID.
+ * @returns The midpoint as a 6-decimal fixed point.
+ * @throws Error if the request fails or the midpoint is malformed.
+ */
+async function fetchClobMidpoint(tokenId: string): Promise<bigint> {
+  const response = await fetch(`${CLOB_API_URL}/midpoint?token_id=${tokenId}`);
+  if (!response.ok) {
+    throw new Error(`CLOB midpoint request for token ${tokenId} failed with status ${response.status}`);
+  }
+  const { mid } = (await response.json()) as { mid: string };
+  return parsePrice(mid);
+}
+
+/**
+ * Keeps the prices of a set of tokens up to date: transmits a request when the interval elapsed or a price moved
+ * past the deviation threshold, polls SEDA Core for its result and applies it with `updateLatestAnswers`.
+ * Failed cycles are retried with exponential backoff, and the state is persisted so a restarted keeper picks up
+ * the request it was waiting for instead of paying for a new one.
+ */
+export class Keeper {
+  private readonly hre: HardhatRuntimeEnvironment;
+  private readonly priceFeed: PriceFeed;
+  private readonly options: KeeperOptions;
+  private readonly fetchMidpoint: (tokenId: string) => Promise<bigint>;
+  private readonly now: () => number;
+  private readonly log: (message: string) => void;
+  private state: KeeperState;
+  private stopped = false;
+  private wake: (() => void) | undefined;
+
+  constructor(hre: HardhatRuntimeEnvironment, priceFeed: PriceFeed, options: KeeperOptions) {
+    this.hre = hre;
+    this.priceFeed = priceFeed;
+    this.options = options;
+    this.fetchMidpoint = options.fetchMidpoint ?? fetchClobMidpoint;
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000));
+    this.log = options.log ?? console.log;
+    this.state = this.loadState(String(priceFeed.target));
+  }
+
+  /** A copy of the current state */
+  getState(): KeeperState {
+    return { ...this.state };
+  }
+
+  /**
+   * Runs cycles until `stop` is called.
+   * @param pollInterval Seconds between cycles.
+   */
+  async run(pollInterval: number): Promise<void> {
+    this.stopped = false;
+    while (!this.stopped) {
+      await this.tick();
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, pollInterval * 1000);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+    this.log('Keeper stopped');
+  }
+
+  /** Stops `run` after the current cycle */
+  stop(): void {
+    this.stopped = true;
+    this.wake?.();
+  }
+
+  /**
+   * Runs a single cycle: applies the pending request once it resolved, then transmits a new one if due.
+   * Errors are not thrown but counted, and delay the next cycle with exponential backoff.
+   */
+  async tick(): Promise<void> {
+    const now = this.now();
+    if (this.state.retryAt !== undefined && now < this.state.retryAt) {
+      return;
+    }
+
+    try {
+      await this.cycle(now);
+      this.state.failures = 0;
+      this.state.retryAt = undefined;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.state.failures += 1;
+      const delay = Math.min(this.options.retryDelay * 2 ** (this.state.failures - 1), this.options.maxRetryDelay);
+      this.state.retryAt = now + delay;
+      this.log(`Cycle failed (${this.state.failures} in a row), retrying in ${formatAge(delay)}: ${errorMessage}`);
+    }
+    this.saveState();
+  }
+
+  private async cycle(now: number): Promise<void> {
+    // Results cannot be applied while the circuit breaker is tripped, new requests would only pile up
+    if (await this.priceFeed.paused()) {
+      this.log('Updates are paused by the circuit breaker, waiting for the owner to reset it');
+      return;
+    }
+
+    let reason: string | undefined;
+
+    const pendingRequestId = this.state.pendingRequestId;
+    if (pendingRequestId) {
+      const outcome = await this.pollResult(pendingRequestId);
+      if (outcome.status === 'pending') {
+        const waited = now - (this.state.lastTransmitAt ?? now);
+        if (waited < this.options.resultTimeout) {
+          return;
+        }
+        reason = `request ${pendingRequestId} timed out after ${formatAge(waited)}`;
+      } else if (outcome.status === 'dropped') {
+        reason = `request ${pendingRequestId} was dropped, ${outcome.reason}`;
+      } else if (outcome.status === 'unapplied') {
+        this.log(
+          `The result of request ${pendingRequestId} could not be applied (${outcome.reason}), it stays pending ` +
+            'on-chain until "bunx hardhat pricefeed update" applies it',
+        );
+        reason = `the result of request ${pendingRequestId} could not be applied`;
+      }
+
+      this.state.pendingRequestId = undefined;
+      this.saveState();
+    }
+
+    reason ??= await this.transmitReason(now);
+    if (!reason) {
+      return;
+    }
+
+    this.log(`Transmitting a request for ${this.options.tokenIds.length} token(s): ${reason}`);
+    const { requestId, transactionHash } = await transmitRequest(
+      this.priceFeed,
+      this.options.tokenIds,
+      this.options.fees,
+    );
+    this.state.pendingRequestId = requestId;
+    this.state.lastTransmitAt = now;
+    this.log(`Transmitted request ${requestId} (transaction ${transactionHash})`);
+  }
+
+  /**
+   * Checks SEDA Core for the result of a request and applies it once it is available. Results are final, one that
+   * failed or that the guard rejected is dropped on-chain by `updateLatestAnswers`.
+   */
+  private async pollResult(requestId: string): Promise<PollOutcome> {
+    const sedaCore = await this.hre.ethers.getContractAt('ISedaCore', await this.priceFeed.SEDA_CORE());
+
+    let result: Awaited<ReturnType<typeof sedaCore.getResult>>;
+    try {
+      result = await sedaCore.getResult(requestId);
+    } catch {
+      return { status: 'pending' };
+    }
+
+    const { applied, rejected } = await applyResults(this.priceFeed, [requestId], this.log);
+    if (applied.length > 0) {
+      return { status: 'applied' };
+    }
+    if (rejected === requestId) {
+      return { status: 'dropped', reason: 'the guard rejected its result and tripped the circuit breaker' };
+    }
+    if (await this.priceFeed.isPending(requestId)) {
+      return { status: 'unapplied', reason: 'updateLatestAnswers reverted' };
+    }
+    return { status: 'dropped', reason: describeDrop(result.consensus, result.exitCode) };
+  }
+
+  /**
+   * Returns why a request is due, or `undefined` if the keeper can wait.
+   */
+  private async transmitReason(now: number): Promise<string | undefined> {
+    if (this.state.lastTransmitAt === undefined) {
+      return 'first run';
+    }
+    if (now - this.state.lastTransmitAt >= this.options.interval) {
+      return `${formatAge(now - this.state.lastTransmitAt)} since the last request`;
+    }
+    if (this.options.deviation === undefined) {
+      return undefined;
+    }
+
+    for (const tokenId of this.options.tokenIds) {
+      const reason = await this.checkDeviation(tokenId, this.options.deviation);
+      if (reason) {
+        return reason;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Compares the on-chain price of a token with its current midpoint. Tokens without an on-chain price
+   * are left to the interval, as are tokens whose midpoint cannot be fetched.
+   */
+  private async checkDeviation(tokenId: string, deviation: number): Promise<string | undefined> {
+    let onChain: bigint;
+    try {
+      const feed = await this.priceFeed.getFeed(tokenId);
+      if (Number(feed.status) !== PriceStatus.Ok) {
+        return undefined;
+      }
+      onChain = feed.price;
+    } catch {
+      return undefined;
+    }
+
+    let current: bigint;
+    try {
+      current = await this.fetchMidpoint(tokenId);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log(`Could not check the price of token ${tokenId}: ${errorMessage}`);
+      return undefined;
+    }
+
+    // Compare in basis points to stay in integers: |current - onChain| / onChain >= deviation%
+    const change = current > onChain ? current - onChain : onChain - current;
+    const thresholdBps = BigInt(Math.round(deviation * 100));
+    if (change === 0n || change * 10000n < thresholdBps * onChain) {
+      return undefined;
+    }
+    return `token ${tokenId} moved from ${formatPrice(onChain)} to ${formatPrice(current)}`;
+  }
+
+  private loadState(contract: string): KeeperState {
+    const fresh: KeeperState = { contract, failures: 0 };
+    const { stateFile } = this.options;
+    if (!stateFile || !fs.existsSync(stateFile)) {
+      return fresh;
+    }
+
+    const state = JSON.parse(fs.readFileSync(stateFile, 'utf-8')) as KeeperState;
+    if (state.contract.toLowerCase() !== contract.toLowerCase()) {
+      this.log(`Ignoring the state in ${stateFile}, it belongs to PriceFeed ${state.contract}`);
+      return fresh;
+    }
+    if (state.pendingRequestId) {
+      this.log(`Resuming, waiting for request ${state.pendingRequestId}`);
+    }
+    return state;
+  }
+
+  private saveState(): void {
+    if (this.options.stateFile) {
+      fs.writeFileSync(this.options.stateFile, `${JSON.stringify(this.state, null, 2)}\n`);
+    }
+  }
+}
+
+/**
+ * Parses a positive number of seconds (or percent) task parameter.
+ * @param name The parameter name, for the error message.
+ * @param value The raw parameter value.
+ * @returns The parsed value.
+ * @throws Error if the value is not a positive number.
+ */
+function parsePositiveNumber(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!/^\d+(\.\d+)?$/.test(value) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Task: Runs a keeper that keeps the PriceFeed prices of a set of tokens up to date.
+ * Required parameter (one of):
+ * - tokenIds: Comma-separated Polymarket token IDs
+ * - markets: Comma-separated <slug-or-condition-id>:<outcome> references, resolved to token IDs
+ * Optional parameters:
+ * - contract: PriceFeed contract address
+ * - interval: Seconds between scheduled transmissions
+ * - deviation: Price change in percent that triggers an early transmission
+ * - pollInterval: Seconds between cycles
+ * - resultTimeout: Seconds to wait for a result before transmitting again
+ * - retryDelay / maxRetryDelay: Backoff after failed cycles, in seconds
+ * - stateFile: File the keeper state is persisted in
+ * - requestFee, resultFee, batchFee: Fees for every request (in ETH), estimated once at startup if not provided
+ * - sedaPrice: Price of a SEDA token in ETH, for the request fee estimate
+ * - feeMargin: Headroom added to the estimated fees, in percent
+ * - once: Run a single cycle and exit
+ * Runs until interrupted (Ctrl+C), the signer must be the owner or an operator.
+ */
+priceFeedScope
+  .task('keeper', 'Runs a keeper that transmits requests on a schedule and applies their results')
+  .addOptionalParam('tokenIds', 'Comma-separated Polymarket token IDs')
+  .addOptionalParam('markets', 'Comma-separated <slug-or-condition-id>:<outcome> references')
+  .addOptionalParam('marketCache', 'Cache file for resolved markets', DEFAULT_MARKET_CACHE_FILE)
+  .addOptionalParam('contract', 'The PriceFeed contract address')
+  .addOptionalParam('interval', 'Seconds between scheduled transmissions', '3600')
+  .addOptionalParam('deviation', 'Price change in percent that triggers a transmission before the interval')
+  .addOptionalParam('pollInterval', 'Seconds between checks for results and price changes', '30')
+  .addOptionalParam('resultTimeout', 'Seconds to wait for a result before transmitting again', '900')
+  .addOptionalParam('retryDelay', 'Seconds to wait after a failure, doubled on consecutive failures', '15')
+  .addOptionalParam('maxRetryDelay', 'Longest wait between retries, in seconds', '600')
+  .addOptionalParam('stateFile', 'File the keeper state is kept in across restarts', DEFAULT_KEEPER_STATE_FILE)
+  .addOptionalParam('requestFee', 'Fee for data request (in ETH, estimated if not provided)')
+  .addOptionalParam('resultFee', 'Fee for result processing (in ETH, estimated if not provided)')
+  .addOptionalParam('batchFee', 'Fee for batch operations (in ETH, estimated if not provided)')
+  .addOptionalParam('sedaPrice', 'Price of a SEDA token in ETH, for the request fee estimate', DEFAULT_SEDA_PRICE)
+  .addOptionalParam('feeMargin', 'Headroom added to the estimated fees, in percent', DEFAULT_FEE_MARGIN)
+  .addFlag('once', 'Run a single cycle and exit, e.g. from cron')
+  .setAction(async (args, hre) => {
+    try {
+      // Fetch the address from previous deployments if not provided
+      let priceFeedAddress = args.contract;
+      if (!priceFeedAddress) {
+        console.log('No contract address specified, fetching from previous deployments...');
+        priceFeedAddress = getDeployedContract(hre.network, 'PriceFeed');
+        console.log('Contract found:', priceFeedAddress);
+      }
+
+      const tokenIds = await resolveTokenIds(args.tokenIds, args.markets, args.marketCache);
+      const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
+      const { fees, estimate } = await resolveFees(hre, priceFeed, tokenIds.length, args);
+      console.log(`Fees of every request:\n${formatFeeBreakdown(fees, estimate).join('\n')}`);
+
+      const keeper = new Keeper(hre, priceFeed, {
+        tokenIds,
+        fees,
+        interval: parsePositiveNumber('interval', args.interval),
+        deviation: args.deviation !== undefined ? parsePositiveNumber('deviation', args.deviation) : undefined,
+        resultTimeout: parsePositiveNumber('result-timeout', args.resultTimeout),
+        retryDelay: parsePositiveNumber('retry-delay', args.retryDelay),
+        maxRetryDelay: parsePositiveNumber('max-retry-delay', args.maxRetryDelay),
+        stateFile: args.stateFile,
+      });
+
+      if (args.once) {
+        await keeper.tick();
+        return;
+      }
+
+      const pollInterval = parsePositiveNumber('poll-interval', args.pollInterval);
+      console.log(`Keeping ${tokenIds.length} token(s) up to date on PriceFeed ${priceFeedAddress}, Ctrl+C to stop`);
+      process.once('SIGINT', () => keeper.stop());
+      process.once('SIGTERM', () => keeper.stop());
+      await keeper.run(pollInterval);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error running the keeper: ${errorMessage}`);
+    }
+  });
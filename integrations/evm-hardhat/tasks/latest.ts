@@ -1,5 +1,120 @@
+import {
+  describeStatus,
+  type EventOutcome,
+  formatPrice,
+  hasPrice,
+  PriceStatus,
+  rankByPrice,
+} from '../../../packages/client/src';
 import { priceFeedScope } from '.';
-import { getDeployedContract } from './utils';
+import { applyResults, formatAge, getChainTime, getDeployedContract, resolveEvent } from './utils';
+
+/** One row of the price table printed by the task */
+interface PriceRow {
+  'token ID': string;
+  mid: string;
+  bid: string;
+  ask: string;
+  spread: string;
+  'last trade': string;
+  twap: string;
+  probability: string;
+  age: string;
+}
+
+/** One row of the ranked table of an event's outcomes */
+interface OutcomeRow {
+  rank: number;
+  outcome: string;
+  'token ID': string;
+  price: string;
+  probability: string;
+  age: string;
+}
+
+/** The parts of a token's feed the outcome table shows */
+interface OutcomeFeed {
+  price: bigint;
+  status: bigint;
+  checked: boolean;
+  updatedAt: bigint;
+}
+
+/**
+ * Shortens a token ID for the tables, token IDs are 77-digit numbers.
+ */
+function shortTokenId(tokenId: string): string {
+  return tokenId.length > 20 ? `${tokenId.slice(0, 8)}...${tokenId.slice(-8)}` : tokenId;
+}
+
+/**
+ * Builds the table row of an event outcome. Outcomes the contract never priced show as such, the probability is
+ * only shown for prices normalized with the other outcomes of the event.
+ */
+function outcomeRow(rank: number, outcome: EventOutcome, feed: OutcomeFeed | undefined, now: number): OutcomeRow {
+  let price = 'not priced yet';
+  if (feed && Number(feed.status) === PriceStatus.Resolved) {
+    price = `${formatPrice(feed.price)} (resolved)`;
+  } else if (feed && hasPrice(feed.status)) {
+    price = formatPrice(feed.price);
+  } else if (feed) {
+    price = `unavailable (${describeStatus(feed.status)})`;
+  }
+
+  return {
+    rank,
+    outcome: outcome.label,
+    'token ID': shortTokenId(outcome.tokenId),
+    price,
+    probability: feed?.checked ? formatPrice(feed.price) : '-',
+    age: feed ? formatAge(now - Number(feed.updatedAt)) : '-',
+  };
+}
+
+/**
+ * Builds the table row of a token. Unavailable tokens show their status instead of prices, resolved tokens their
+ * final outcome labelled as resolved, order-book fields and TWAPs the oracle could not fetch (0) show as "-".
+ * The probability is only shown for prices checked against the other outcomes of their set.
+ */
+function priceRow(
+  tokenId: string,
+  price: bigint,
+  status: bigint,
+  marketData: { bid: bigint; ask: bigint; spread: bigint; lastTrade: bigint; twap: bigint },
+  checked: boolean,
+  age: string,
+): PriceRow {
+  if (Number(status) !== PriceStatus.Ok) {
+    const label =
+      Number(status) === PriceStatus.Resolved
+        ? `${formatPrice(price)} (resolved)`
+        : `unavailable (${describeStatus(status)})`;
+    return {
+      'token ID': shortTokenId(tokenId),
+      mid: label,
+      bid: '-',
+      ask: '-',
+      spread: '-',
+      'last trade': '-',
+      twap: '-',
+      probability: '-',
+      age,
+    };
+  }
+
+  const optional = (value: bigint) => (value === 0n ? '-' : formatPrice(value));
+  return {
+    'token ID': shortTokenId(tokenId),
+    mid: formatPrice(price),
+    bid: optional(marketData.bid),
+    ask: optional(marketData.ask),
+    spread: optional(marketData.spread),
+    'last trade': optional(marketData.lastTrade),
+    twap: optional(marketData.twap),
+    probability: checked ? formatPrice(price) : '-',
+    age,
+  };
+}
 
 /**
  * Task: Fetches the latest answers from the PriceFeed contract.
@@ -7,6 +122,8 @@ import { getDeployedContract } from './utils';
  * - contract: PriceFeed contract address
  * - tokenId: Specific token ID to fetch (if not provided, shows all prices)
  * - tokenIndex: Specific token index to fetch (if not provided, shows all prices)
+ * - requestId: Only show the tokens priced by this request
+ * - event: ID or slug of a Polymarket event, ranks its outcomes by price
  * If the contract address is not provided, fetches from previous deployments.
  */
 priceFeedScope
@@ -14,7 +131,9 @@ priceFeedScope
   .addOptionalParam('contract', 'The PriceFeed contract address')
   .addOptionalParam('tokenId', 'Specific token ID to fetch')
   .addOptionalParam('tokenIndex', 'Specific token index to fetch')
-  .setAction(async ({ contract, tokenId, tokenIndex }, hre) => {
+  .addOptionalParam('requestId', 'Only show the tokens priced by this request')
+  .addOptionalParam('event', 'ID or slug of a Polymarket event, ranks its outcomes by price')
+  .setAction(async ({ contract, tokenId, tokenIndex, requestId, event }, hre) => {
     try {
       // Fetch the address from previous deployments if not provided
       let priceFeedAddress = contract;
@@ -27,71 +146,96 @@ priceFeedScope
       // Get the PriceFeed contract instance
       const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
 
-      // First, try to update the latest answers
-      console.log(`\nUpdating latest answers from SEDA network...`);
-      try {
-        await priceFeed.updateLatestAnswers();
-        console.log('Latest answers updated successfully.\n');
-      } catch (error) {
-        console.log('Could not update latest answers. Using cached data if available.\n');
-      }
-
-      // Handle tokenId parameter using direct lookup
-      if (tokenId !== undefined) {
+      // First, try to apply the results of pending requests
+      const pendingRequestIds = [...(await priceFeed.getPendingRequests())];
+      if (pendingRequestIds.length > 0) {
+        console.log(`\nApplying the results of ${pendingRequestIds.length} pending request(s) from SEDA network...`);
         try {
-          // Use generic contract call since TypeScript interface might not be updated yet
-          const price = await priceFeed.getFunction('getPriceByTokenId')(tokenId);
-          console.log(`Price for token ID ${tokenId}: ${price.toString()}`);
-          return;
+          await applyResults(priceFeed, pendingRequestIds);
         } catch (error) {
-          console.error(`Error getting price for token ID ${tokenId}: ${error}`);
-          try {
-            const allTokenIds = await priceFeed.getAllTokenIds();
-            console.log('Available token IDs:');
-            allTokenIds.forEach((id, index) => {
-              console.log(`  Index ${index}: ${id}`);
-            });
-          } catch (listError) {
-            console.log('Could not retrieve available token IDs');
-          }
-          return;
+          console.log('Could not update latest answers. Using cached data if available.');
         }
+        console.log('');
       }
 
-      if (tokenIndex !== undefined) {
-        // Fetch specific token price by index
-        const price = await priceFeed.getPrice(tokenIndex);
-        try {
-          const tokenIdDisplay = await priceFeed.getTokenId(tokenIndex);
-          console.log(`Price for token ID ${tokenIdDisplay} (index ${tokenIndex}): ${price.toString()}`);
-        } catch (error) {
-          console.log(`Price for token index ${tokenIndex}: ${price.toString()}`);
-        }
-      } else {
-        // Fetch all prices
-        console.log(`Calling getAllPrices() on PriceFeed at ${priceFeedAddress}`);
-        const allPrices = await priceFeed.getAllPrices();
-        const tokenCount = await priceFeed.getTokenCount();
+      // Rank the outcomes of an event, most likely first
+      if (event !== undefined) {
+        const info = await resolveEvent(event);
+        const trackedTokenIds = await priceFeed.getAllTokenIds();
+        const now = await getChainTime(hre);
+        const outcomes = await Promise.all(
+          info.outcomes.map(async (outcome) => {
+            const tracked = trackedTokenIds.includes(BigInt(outcome.tokenId));
+            return { outcome, feed: tracked ? await priceFeed.getFeed(outcome.tokenId) : undefined };
+          }),
+        );
 
-        console.log(`\nToken Count: ${tokenCount.toString()}`);
-        console.log('All Prices:');
+        const ranked = rankByPrice(outcomes, ({ feed }) => (feed && hasPrice(feed.status) ? feed.price : undefined));
+        const priced = ranked.filter(({ feed }) => feed && hasPrice(feed.status)).length;
+        console.log(`\n${info.title ?? info.slug}: ${priced} of ${ranked.length} outcome(s) priced`);
+        console.table(ranked.map(({ outcome, feed }, index) => outcomeRow(index + 1, outcome, feed, now)));
+        return;
+      }
 
-        try {
-          const allTokenIds = await priceFeed.getAllTokenIds();
-          console.log(`Found ${allTokenIds.length} stored token IDs`);
-          allPrices.forEach((price, index) => {
-            const tokenId = allTokenIds[index] || `index-${index}`;
-            console.log(`  Token ID ${tokenId} (index ${index}): ${price.toString()}`);
-          });
-        } catch (error) {
-          console.log(`Error getting token IDs: ${error}`);
-          console.log('Fallback to index-based display');
-          // Fallback to index-based display if token IDs not available
-          allPrices.forEach((price, index) => {
-            console.log(`  Token index ${index}: ${price.toString()}`);
+      console.log(`Reading latest prices from PriceFeed at ${priceFeedAddress}`);
+      const [allTokenIds, allPrices, allStatuses, allMarketData] = await Promise.all([
+        priceFeed.getAllTokenIds(),
+        priceFeed.getAllPrices(),
+        priceFeed.getAllStatuses(),
+        priceFeed.getAllMarketData(),
+      ]);
+
+      // Select the requested token, or show all of them
+      let indices = allPrices.map((_, index) => index);
+      if (requestId !== undefined) {
+        const requestTokenIds = await priceFeed.getRequestTokenIds(requestId);
+        if (requestTokenIds.length === 0) {
+          console.error(`Request ${requestId} was not transmitted through this contract`);
+          return;
+        }
+        indices = indices.filter((index) => requestTokenIds.includes(allTokenIds[index]));
+        if (indices.length === 0) {
+          console.log(`Request ${requestId} has not been applied yet`);
+          return;
+        }
+      } else if (tokenId !== undefined) {
+        const index = /^\d+$/.test(tokenId) ? allTokenIds.indexOf(BigInt(tokenId)) : -1;
+        if (index === -1 || index >= allPrices.length) {
+          console.error(`No price for token ID ${tokenId}`);
+          console.log('Available token IDs:');
+          allTokenIds.forEach((id, index) => {
+            console.log(`  Index ${index}: ${id}`);
           });
+          return;
         }
+        indices = [index];
+      } else if (tokenIndex !== undefined) {
+        const index = Number(tokenIndex);
+        if (!Number.isInteger(index) || index < 0 || index >= allPrices.length) {
+          console.error(`Invalid token index ${tokenIndex}, the feed has ${allPrices.length} prices`);
+          return;
+        }
+        indices = [index];
       }
+
+      // The age of a price is the time since the SEDA result it was taken from
+      const now = await getChainTime(hre);
+      const rows = await Promise.all(
+        indices.map(async (index) => {
+          const id = allTokenIds[index];
+          const feed = await priceFeed.getFeed(id);
+          const age = formatAge(now - Number(feed.updatedAt));
+          return priceRow(id.toString(), allPrices[index], allStatuses[index], allMarketData[index], feed.checked, age);
+        }),
+      );
+
+      const roundId = await priceFeed.latestRoundId();
+      const stillPending = await priceFeed.getPendingRequests();
+      console.log(`\nToken Count: ${allPrices.length}, round ${roundId}, ${stillPending.length} pending request(s)`);
+      stillPending.forEach((id) => {
+        console.log(`  Pending: ${id}`);
+      });
+      console.table(rows);
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`Error fetching latest answer: ${errorMessage}`);
@@ -0,0 +1,67 @@
+import { JsonRpcProvider } from 'ethers';
+import { type NetworkConfig, networks } from '../networks';
+import { priceFeedScope } from '.';
+
+// Per network, an unreachable RPC should not hold up the whole list
+const CHECK_TIMEOUT_MS = 15_000;
+
+/**
+ * Checks that a network's RPC serves the configured chain and that the SEDA Core address has code.
+ * @param network The network configuration.
+ * @returns 'ok', or what is wrong.
+ */
+async function checkNetwork(network: NetworkConfig): Promise<string> {
+  const provider = new JsonRpcProvider(network.url, network.chainId, { staticNetwork: true });
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('RPC timed out')), CHECK_TIMEOUT_MS);
+    });
+    const check = async () => {
+      const chainId = Number(await provider.send('eth_chainId', []));
+      if (chainId !== network.chainId) {
+        return `RPC serves chain ${chainId}`;
+      }
+      const code = await provider.getCode(network.coreAddress);
+      return code === '0x' ? 'no code at Core address' : 'ok';
+    };
+    return await Promise.race([check(), timeout]);
+  } catch (error: unknown) {
+    return `unreachable (${error instanceof Error ? error.message : String(error)})`;
+  } finally {
+    clearTimeout(timer);
+    provider.destroy();
+  }
+}
+
+/**
+ * Task: Lists the networks of the registry in networks.ts.
+ * Optional parameters:
+ * - skipCheck: Do not connect to the networks
+ * Checks every network's RPC and that its SEDA Core address has code, and fails if any check fails.
+ */
+priceFeedScope
+  .task('networks', 'Lists the supported networks and checks their SEDA Core deployments')
+  .addFlag('skipCheck', 'Only list the networks, without connecting to them')
+  .setAction(async ({ skipCheck }) => {
+    const entries = Object.entries(networks);
+    const checks = skipCheck ? [] : await Promise.all(entries.map(([, network]) => checkNetwork(network)));
+
+    console.table(
+      entries.map(([name, network], index) => ({
+        network: name,
+        'chain ID': network.chainId,
+        'EVM RPC': network.url,
+        'SEDA Core': network.coreAddress,
+        SEDA: network.seda,
+        verify: network.explorer ? network.explorer.apiKeyEnv : '-',
+        ...(!skipCheck && { check: checks[index] }),
+      })),
+    );
+
+    const failed = checks.filter((check) => check !== 'ok').length;
+    if (failed > 0) {
+      console.error(`${failed} network(s) failed the check`);
+      process.exitCode = 1;
+    }
+  });
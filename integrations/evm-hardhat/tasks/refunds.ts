@@ -0,0 +1,40 @@
+import { priceFeedScope } from '.';
+import { getDeployedContract } from './utils';
+
+/**
+ * Task: Shows the fees SEDA Core refunded to the PriceFeed contract and withdraws them.
+ * Optional parameters:
+ * - contract: PriceFeed contract address
+ * - withdrawTo: Send the refunded fees to this address, the signer must be the owner
+ * If the contract address is not provided, fetches from previous deployments.
+ */
+priceFeedScope
+  .task('refunds', 'Shows and withdraws the fees refunded to the PriceFeed contract')
+  .addOptionalParam('contract', 'The PriceFeed contract address')
+  .addOptionalParam('withdrawTo', 'Address to send the refunded fees to')
+  .setAction(async ({ contract, withdrawTo }, hre) => {
+    try {
+      // Fetch the address from previous deployments if not provided
+      let priceFeedAddress = contract;
+      if (!priceFeedAddress) {
+        console.log('No contract address specified, fetching from previous deployments...');
+        priceFeedAddress = getDeployedContract(hre.network, 'PriceFeed');
+        console.log('Contract found:', priceFeedAddress);
+      }
+
+      const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
+      const balance = await hre.ethers.provider.getBalance(priceFeedAddress);
+      console.log(`Refunded fees held by the PriceFeed: ${hre.ethers.formatEther(balance)} ETH`);
+      if (!withdrawTo || balance === 0n) {
+        return;
+      }
+
+      const recipient = hre.ethers.getAddress(withdrawTo);
+      const tx = await priceFeed.withdrawRefunds(recipient);
+      await tx.wait();
+      console.log(`Withdrew ${hre.ethers.formatEther(balance)} ETH to ${recipient} (transaction ${tx.hash})`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error handling refunds: ${errorMessage}`);
+    }
+  });
@@ -0,0 +1,239 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Network } from 'hardhat/types';
+
+/** Registry of every deployment made with the `deploy` task */
+export const DEFAULT_DEPLOYMENTS_FILE = path.join(__dirname, '../deployments/addresses.json');
+
+/** Version of the registry format, files without a version hold one PriceFeed per network */
+export const REGISTRY_VERSION = 2;
+
+/** Name of the instance deployments get unless one is given */
+export const DEFAULT_INSTANCE = 'default';
+
+/** A contract deployment */
+export interface Deployment {
+  /** Contract name, e.g. `PriceFeed` or `MockSedaCore` */
+  contract: string;
+  /** Instance name, to tell several deployments of a contract on one network apart */
+  name: string;
+  address: string;
+  /** Deployment transaction, unknown for deployments migrated from the first registry format */
+  txHash?: string;
+  blockNumber?: number;
+  /** Unix time in seconds */
+  timestamp: number;
+  deployer: string;
+  /** Contract specific details, e.g. the SEDA Core address and oracle program ID of a PriceFeed */
+  details?: Record<string, string>;
+}
+
+export interface NetworkDeployments {
+  /** The instance of each contract the tasks use, by contract name */
+  active: Record<string, string>;
+  /** Every deployment in the order they were made, later deployments of an instance replace earlier ones */
+  history: Deployment[];
+}
+
+export interface DeploymentRegistry {
+  version: number;
+  /** Deployments by network key (`<network name>-<chain ID>`) */
+  networks: Record<string, NetworkDeployments>;
+}
+
+/** Deployment info of the first registry format */
+interface LegacyDeploymentInfo {
+  contractAddress: string;
+  coreAddress: string;
+  oracleProgramId: string;
+  timestamp: number;
+  deployer: string;
+}
+
+/**
+ * Builds the key deployments of a network are stored under.
+ * @param network The Hardhat network.
+ * @returns `<network name>-<chain ID>`, e.g. `baseSepolia-84532`.
+ */
+export function getNetworkKey(network: Network): string {
+  return `${network.name}-${network.config.chainId || 0}`;
+}
+
+/**
+ * Reads the deployment registry, converting files of the first format (one PriceFeed per network).
+ * @param file Path of the registry.
+ * @returns The registry, empty if the file does not exist.
+ * @throws Error if the file is not a valid registry.
+ */
+export function loadRegistry(file = DEFAULT_DEPLOYMENTS_FILE): DeploymentRegistry {
+  if (!fs.existsSync(file)) {
+    return { version: REGISTRY_VERSION, networks: {} };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not parse deployments file ${file}: ${error}`);
+  }
+  return parseRegistry(parsed, file);
+}
+
+/**
+ * Validates a registry read from JSON.
+ * @param value The parsed JSON.
+ * @param source Where the registry comes from, for error messages.
+ * @returns The registry in the current format.
+ * @throws Error if the value is not a registry.
+ */
+export function parseRegistry(value: unknown, source: string): DeploymentRegistry {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Deployments file ${source} is not a JSON object`);
+  }
+
+  const registry = value as Partial<DeploymentRegistry>;
+  if (registry.version === undefined) {
+    return migrateLegacyRegistry(value as Record<string, LegacyDeploymentInfo>);
+  }
+  if (registry.version !== REGISTRY_VERSION) {
+    throw new Error(`Deployments file ${source} has version ${registry.version}, expected ${REGISTRY_VERSION}`);
+  }
+  if (typeof registry.networks !== 'object' || registry.networks === null) {
+    throw new Error(`Deployments file ${source} has no networks`);
+  }
+
+  for (const [key, deployments] of Object.entries(registry.networks)) {
+    if (!Array.isArray(deployments?.history) || typeof deployments.active !== 'object') {
+      throw new Error(`Deployments of ${key} in ${source} are malformed`);
+    }
+    for (const deployment of deployments.history) {
+      if (typeof deployment.contract !== 'string' || typeof deployment.name !== 'string' || !deployment.address) {
+        throw new Error(`A deployment of ${key} in ${source} has no contract, name or address`);
+      }
+    }
+  }
+  return registry as DeploymentRegistry;
+}
+
+function migrateLegacyRegistry(legacy: Record<string, LegacyDeploymentInfo>): DeploymentRegistry {
+  const registry: DeploymentRegistry = { version: REGISTRY_VERSION, networks: {} };
+  for (const [key, info] of Object.entries(legacy)) {
+    registry.networks[key] = {
+      active: { PriceFeed: DEFAULT_INSTANCE },
+      history: [
+        {
+          contract: 'PriceFeed',
+          name: DEFAULT_INSTANCE,
+          address: info.contractAddress,
+          timestamp: info.timestamp,
+          deployer: info.deployer,
+          details: { coreAddress: info.coreAddress, oracleProgramId: String(info.oracleProgramId) },
+        },
+      ],
+    };
+  }
+  return registry;
+}
+
+/**
+ * Writes the deployment registry.
+ * @param registry The registry.
+ * @param file Path of the registry.
+ */
+export function saveRegistry(registry: DeploymentRegistry, file = DEFAULT_DEPLOYMENTS_FILE): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(registry, null, 2)}\n`);
+}
+
+/**
+ * Adds a deployment to the history of a network and makes its instance the active one.
+ * @param registry The registry to update.
+ * @param networkKey Key of the network, see `getNetworkKey`.
+ * @param deployment The new deployment.
+ */
+export function recordDeployment(registry: DeploymentRegistry, networkKey: string, deployment: Deployment): void {
+  registry.networks[networkKey] ??= { active: {}, history: [] };
+  registry.networks[networkKey].history.push(deployment);
+  registry.networks[networkKey].active[deployment.contract] = deployment.name;
+}
+
+/**
+ * Finds the current deployment of a contract instance: the latest deployment with that contract and name.
+ * @param registry The registry.
+ * @param networkKey Key of the network, see `getNetworkKey`.
+ * @param contract The contract name.
+ * @param name The instance, the active one of the contract by default.
+ * @returns The deployment, or undefined if there is none.
+ */
+export function findDeployment(
+  registry: DeploymentRegistry,
+  networkKey: string,
+  contract: string,
+  name?: string,
+): Deployment | undefined {
+  const deployments = registry.networks[networkKey];
+  const instance = name ?? deployments?.active[contract];
+  return [...(deployments?.history ?? [])]
+    .reverse()
+    .find((deployment) => deployment.contract === contract && deployment.name === instance);
+}
+
+/**
+ * Lists the current deployment of every contract instance of a network, superseded deployments are left out.
+ * @param registry The registry.
+ * @param networkKey Key of the network, see `getNetworkKey`.
+ * @returns The deployments, ordered by contract and instance name.
+ */
+export function currentDeployments(registry: DeploymentRegistry, networkKey: string): Deployment[] {
+  const current = new Map<string, Deployment>();
+  for (const deployment of registry.networks[networkKey]?.history ?? []) {
+    current.set(`${deployment.contract}/${deployment.name}`, deployment);
+  }
+  return [...current.values()].sort((a, b) => a.contract.localeCompare(b.contract) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Selects the instance of a contract the tasks use on a network.
+ * @param registry The registry to update.
+ * @param networkKey Key of the network, see `getNetworkKey`.
+ * @param contract The contract name.
+ * @param name The instance name.
+ * @throws Error if the instance was never deployed on the network.
+ */
+export function useDeployment(registry: DeploymentRegistry, networkKey: string, contract: string, name: string): void {
+  if (!findDeployment(registry, networkKey, contract, name)) {
+    throw new Error(`No ${contract} deployment named "${name}" on network ${networkKey}`);
+  }
+  registry.networks[networkKey].active[contract] = name;
+}
+
+/**
+ * Merges the deployments of another registry, e.g. one exported from another checkout.
+ * Deployments already known (same contract, name and address) are skipped, the active instances of the
+ * target are kept and only set for contracts it has none for.
+ * @param target The registry to update.
+ * @param source The registry to import.
+ * @returns The number of deployments added.
+ */
+export function mergeRegistry(target: DeploymentRegistry, source: DeploymentRegistry): number {
+  let added = 0;
+  for (const [key, deployments] of Object.entries(source.networks)) {
+    target.networks[key] ??= { active: {}, history: [] };
+    const existing = target.networks[key];
+    for (const deployment of deployments.history) {
+      const known = existing.history.some(
+        (other) =>
+          other.contract === deployment.contract &&
+          other.name === deployment.name &&
+          other.address.toLowerCase() === deployment.address.toLowerCase(),
+      );
+      if (!known) {
+        existing.history.push(deployment);
+        added++;
+      }
+    }
+    existing.history.sort((a, b) => a.timestamp - b.timestamp);
+    existing.active = { ...deployments.active, ...existing.active };
+  }
+  return added;
+}
@@ -0,0 +1,231 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import MockSedaCore from '@seda-protocol/evm/artifacts/contracts/mocks/MockSedaCore.sol/MockSedaCore.json';
+import { getBytes } from 'ethers';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import {
+  decodeReveal,
+  decodeTallyResult,
+  describeStatus,
+  formatPrice,
+  PriceStatus,
+  type TokenPrice,
+  type TokenReveal,
+  toHex,
+} from '../../../packages/client/src';
+import { ClobMock, type ClobMockOptions } from '../../../packages/client/src/clob-mock';
+import type { PriceFeed } from '../typechain-types';
+import { priceFeedScope } from '.';
+import { getChainTime, getDeployedContract, isLocalNetwork } from './utils';
+
+/** Oracle program build of the repository root, see `bun run build` */
+export const DEFAULT_WASM_PATH = path.join(__dirname, '../../../target/wasm32-wasip1/release-wasm/oracle-program.wasm');
+
+export interface LocalResultOptions {
+  /** Path of the oracle program build */
+  wasmPath?: string;
+  /** Fetch handed to the executors (e.g. `ClobMock.fetch`), the live CLOB if not set */
+  fetch?: (input: string | URL | Request) => Promise<Response>;
+  /** Number of executors to run, the replication factor of the request parameters by default */
+  replicationFactor?: number;
+}
+
+/** What the local pipeline produced for a request */
+export interface LocalResult {
+  requestId: string;
+  /** Reveal of every executor that succeeded */
+  reveals: TokenReveal[][];
+  /** Exit code of the tally, 0 on success */
+  exitCode: number;
+  /** The tally result as posted to MockSedaCore */
+  result: Uint8Array;
+  /** The decoded prices, empty if the tally failed */
+  prices: TokenPrice[];
+}
+
+/**
+ * Resolves a request locally, standing in for the SEDA network: runs the execution phase of the oracle program
+ * once per executor and its tally phase in the SEDA VM (`@seda-protocol/vm` through the dev-tools test helpers),
+ * then posts the tally result to the MockSedaCore the PriceFeed uses. Afterwards `updateLatestAnswers` applies
+ * the real tally bytes, exactly as they would come from a SEDA network.
+ * @param hre The Hardhat runtime environment.
+ * @param priceFeed The PriceFeed contract instance, deployed against a MockSedaCore.
+ * @param requestId ID of a request transmitted through the PriceFeed.
+ * @param options The oracle program build, CLOB and number of executors.
+ * @returns The reveals, the tally result and the decoded prices.
+ * @throws Error if the request is unknown or the oracle program build is missing.
+ */
+export async function postLocalResult(
+  hre: HardhatRuntimeEnvironment,
+  priceFeed: PriceFeed,
+  requestId: string,
+  options: LocalResultOptions = {},
+): Promise<LocalResult> {
+  const tokenIds = (await priceFeed.getRequestTokenIds(requestId)).map((tokenId) => tokenId.toString());
+  if (tokenIds.length === 0) {
+    throw new Error(`Request ${requestId} was not transmitted through this PriceFeed`);
+  }
+
+  const wasmPath = options.wasmPath ?? DEFAULT_WASM_PATH;
+  if (!fs.existsSync(wasmPath)) {
+    throw new Error(
+      `Oracle program not found at ${wasmPath}, run "bun install && bun run build" in the repository root`,
+    );
+  }
+  const oracleProgram = fs.readFileSync(wasmPath);
+
+  // Loaded on demand, the SEDA VM is heavy and only needed here
+  const { testOracleProgramExecution, testOracleProgramTally } = await import('@seda-protocol/dev-tools');
+
+  const { execInputs, tallyInputs } = await requestInputs(priceFeed, requestId);
+  const replicationFactor = options.replicationFactor ?? Number((await priceFeed.getRequestParams()).replicationFactor);
+
+  const executions = [];
+  for (let executor = 0; executor < replicationFactor; executor++) {
+    executions.push(await testOracleProgramExecution(oracleProgram, Buffer.from(execInputs), options.fetch));
+  }
+
+  const tally = await testOracleProgramTally(
+    oracleProgram,
+    Buffer.from(tallyInputs),
+    executions.map((execution) => ({
+      exitCode: execution.exitCode,
+      gasUsed: Number(execution.gasUsed),
+      inConsensus: true,
+      result: Buffer.from(execution.result ?? []),
+    })),
+  );
+  const result = new Uint8Array(tally.result ?? []);
+
+  const sedaCore = await hre.ethers.getContractAt(MockSedaCore.abi, await priceFeed.SEDA_CORE());
+  const tx = await sedaCore.postResult(
+    {
+      version: '0.0.1',
+      drId: requestId,
+      consensus: true,
+      exitCode: tally.exitCode,
+      result: toHex(result),
+      blockHeight: await hre.ethers.provider.getBlockNumber(),
+      blockTimestamp: await getChainTime(hre),
+      gasUsed: Number(tally.gasUsed),
+      paybackAddress: hre.ethers.ZeroAddress,
+      sedaPayload: hre.ethers.ZeroHash,
+    },
+    0,
+    [],
+  );
+  await tx.wait();
+
+  return {
+    requestId,
+    reveals: executions
+      .filter((execution) => execution.exitCode === 0)
+      .map((execution) => decodeReveal(new Uint8Array(execution.result ?? []))),
+    exitCode: tally.exitCode,
+    result,
+    prices: tally.exitCode === 0 ? decodeTallyResult(result) : [],
+  };
+}
+
+/**
+ * Reads the inputs PriceFeed posted to SEDA Core for a request from its RequestInputsPosted event, so executors run
+ * exactly what the contract requested.
+ * @param priceFeed The PriceFeed contract instance.
+ * @param requestId ID of a request transmitted through the PriceFeed.
+ * @returns The execution and tally inputs as posted.
+ * @throws Error if the PriceFeed did not post inputs for the request.
+ */
+export async function requestInputs(
+  priceFeed: PriceFeed,
+  requestId: string,
+): Promise<{ execInputs: Uint8Array; tallyInputs: Uint8Array }> {
+  const [posted] = (await priceFeed.queryFilter(priceFeed.filters.RequestInputsPosted(requestId))).slice(-1);
+  if (!posted) {
+    throw new Error(`PriceFeed posted no inputs for request ${requestId}`);
+  }
+  return { execInputs: getBytes(posted.args.execInputs), tallyInputs: getBytes(posted.args.tallyInputs) };
+}
+
+/**
+ * Task: Resolves pending requests locally and posts their results to MockSedaCore.
+ * Optional parameters:
+ * - contract: PriceFeed contract address
+ * - requestId: Resolve this request only (if not provided, resolves every pending request)
+ * - clob: JSON file with the midpoints, books, last trades and price histories the mocked CLOB serves (if not
+ *   provided, the live CLOB)
+ * - wasm: Path of the oracle program build
+ * - replicationFactor: Number of executors to run
+ * Only works on local networks, where the PriceFeed was deployed against a MockSedaCore.
+ */
+priceFeedScope
+  .task('relay', 'Runs pending requests through the oracle program locally and posts the results to MockSedaCore')
+  .addOptionalParam('contract', 'The PriceFeed contract address')
+  .addOptionalParam('requestId', 'Request to resolve (defaults to all pending requests)')
+  .addOptionalParam(
+    'clob',
+    'JSON file with the midpoints, books, last trades and price histories to serve (defaults to the live CLOB)',
+  )
+  .addOptionalParam('wasm', 'Path of the oracle program build', DEFAULT_WASM_PATH)
+  .addOptionalParam('replicationFactor', 'Number of executors to run (defaults to the request parameters)')
+  .setAction(async ({ contract, requestId, clob, wasm, replicationFactor }, hre) => {
+    try {
+      if (!isLocalNetwork(hre.network.name)) {
+        throw new Error(`Results can only be posted to the MockSedaCore of a local network, not ${hre.network.name}`);
+      }
+
+      // Fetch the address from previous deployments if not provided
+      let priceFeedAddress = contract;
+      if (!priceFeedAddress) {
+        console.log('No contract address specified, fetching from previous deployments...');
+        priceFeedAddress = getDeployedContract(hre.network, 'PriceFeed');
+        console.log('Contract found:', priceFeedAddress);
+      }
+
+      // Get the PriceFeed contract instance
+      const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
+
+      const requestIds: string[] = requestId ? [requestId] : [...(await priceFeed.getPendingRequests())];
+      if (requestIds.length === 0) {
+        console.log('No pending requests, nothing to relay.');
+        return;
+      }
+
+      const options: LocalResultOptions = { wasmPath: wasm };
+      if (clob) {
+        options.fetch = new ClobMock(JSON.parse(fs.readFileSync(clob, 'utf-8')) as ClobMockOptions).fetch;
+      }
+      if (replicationFactor !== undefined) {
+        options.replicationFactor = Number(replicationFactor);
+        if (!Number.isSafeInteger(options.replicationFactor) || options.replicationFactor <= 0) {
+          throw new Error(`--replication-factor must be a positive integer, got "${replicationFactor}"`);
+        }
+      }
+
+      for (const id of requestIds) {
+        console.log(`\nRunning request ${id} through the oracle program...`);
+        const local = await postLocalResult(hre, priceFeed, id, options);
+        if (local.exitCode !== 0) {
+          console.log(
+            `  Tally failed with exit code ${local.exitCode}: ${Buffer.from(local.result).toString()}, posted anyway`,
+          );
+          continue;
+        }
+
+        const tokenIds = await priceFeed.getRequestTokenIds(id);
+        console.log(`  ${local.reveals.length} executor(s) revealed, posted the tally result to MockSedaCore:`);
+        local.prices.forEach((price, index) => {
+          const display =
+            price.status === PriceStatus.Ok
+              ? formatPrice(price.price)
+              : price.status === PriceStatus.Resolved
+                ? `resolved at ${formatPrice(price.price)}`
+                : `unavailable (${describeStatus(price.status)})`;
+          console.log(`  Token ${tokenIds[index]}: ${display}`);
+        });
+      }
+      console.log('\nApply the results with: bunx hardhat pricefeed update --network', hre.network.name);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error relaying local results: ${errorMessage}`);
+    }
+  });
@@ -1,75 +1,151 @@
+import {
+  DEFAULT_MARKET_CACHE_FILE,
+  DEFAULT_OUTCOME_TOLERANCE,
+  DEFAULT_TWAP_INTERVAL,
+  DEFAULT_TWAP_WINDOW,
+} from '../../../packages/client/src';
 import { priceFeedScope } from '.';
-import { getDeployedContract } from './utils';
-
-// Default fees in ETH
-const DEFAULT_FEE = '0.0001';
+import { DEFAULT_FEE_MARGIN, DEFAULT_SEDA_PRICE, formatFeeBreakdown, resolveFees } from './fees';
+import {
+  getDeployedContract,
+  resolveEvent,
+  resolveOutcomeSets,
+  resolveTokenIds,
+  resolveTwap,
+  transmitRequest,
+} from './utils';
 
 /**
  * Task: Calls the transmit function on the PriceFeed contract.
- * Required parameter:
+ * Required parameter (one of):
  * - tokenIds: Comma-separated Polymarket token IDs
+ * - markets: Comma-separated <slug-or-condition-id>:<outcome> references, resolved to token IDs
+ * - outcomeSets: Token IDs of the outcomes of each market, sets separated by semicolons, sent with
+ *   transmitOutcomeSets so the prices are checked and normalized to sum to 1
+ * - event: ID or slug of a Polymarket event, every outcome of the event is priced
  * Optional parameters:
+ * - normalize: Send the outcomes of the event as one outcome set, checked and normalized to sum to 1, like
+ *   tolerance does
+ * - marketCache: Cache file for resolved markets
  * - contract: PriceFeed contract address
+ * - mode: spot for the midpoint, or twap to also request the time-weighted average of the price history
+ * - window: Seconds of price history the TWAP covers
+ * - interval: Seconds between the price history samples, a multiple of 60
+ * - tolerance: Largest distance from 1 an outcome set may sum to, with event it also sends the outcomes as one set
  * - requestFee: Fee for data request (in ETH)
  * - resultFee: Fee for result processing (in ETH)
  * - batchFee: Fee for batch operations (in ETH)
+ * - sedaPrice: Price of a SEDA token in ETH, for the request fee estimate
+ * - feeMargin: Headroom added to the estimated fees, in percent
+ * - dryRun: Print the fees without transmitting
  *
- * If parameters are not provided, default values are used.
+ * Fees that are not provided are estimated from the request parameters and the network's gas price.
  */
 priceFeedScope
   .task('transmit', 'Calls the transmit function on the PriceFeed contract')
-  .addParam('tokenIds', 'Comma-separated Polymarket token IDs (e.g., "47060861968389645577251408086188258199430417779776802737050665875266354301946,47060861968389645577251408086188258199430417779776802737050665875266354301947")')
+  .addOptionalParam('tokenIds', 'Comma-separated Polymarket token IDs (e.g., "47060861968389645577251408086188258199430417779776802737050665875266354301946,47060861968389645577251408086188258199430417779776802737050665875266354301947")')
+  .addOptionalParam(
+    'markets',
+    'Comma-separated <slug-or-condition-id>:<outcome> references (e.g., "will-it-rain-in-london-tomorrow:Yes")',
+  )
+  .addOptionalParam(
+    'outcomeSets',
+    'Token IDs of the outcomes of each market, sets separated by semicolons (e.g., "<yes>,<no>;<a>,<b>,<c>")',
+  )
+  .addOptionalParam('event', 'ID or slug of a Polymarket event, prices every outcome of the event')
+  .addFlag('normalize', 'Check and normalize the outcomes of the event to sum to 1, like an outcome set')
+  .addOptionalParam('marketCache', 'Cache file for resolved markets', DEFAULT_MARKET_CACHE_FILE)
   .addOptionalParam('contract', 'The PriceFeed contract address')
-  .addOptionalParam('requestFee', 'Fee for data request (in ETH)', DEFAULT_FEE)
-  .addOptionalParam('resultFee', 'Fee for result processing (in ETH)', DEFAULT_FEE)
-  .addOptionalParam('batchFee', 'Fee for batch operations (in ETH)', DEFAULT_FEE)
-  .setAction(async ({ tokenIds, contract, requestFee, resultFee, batchFee }, hre) => {
+  .addOptionalParam('mode', 'spot, or twap to also request the time-weighted average price', 'spot')
+  .addOptionalParam('window', `Seconds of price history the TWAP covers (default: ${DEFAULT_TWAP_WINDOW})`)
+  .addOptionalParam('interval', `Seconds between TWAP samples, a multiple of 60 (default: ${DEFAULT_TWAP_INTERVAL})`)
+  .addOptionalParam(
+    'tolerance',
+    `Largest distance from 1 an outcome set may sum to, with --event it checks the outcomes as one set (default: ${DEFAULT_OUTCOME_TOLERANCE})`,
+  )
+  .addOptionalParam('requestFee', 'Fee for data request (in ETH, estimated if not provided)')
+  .addOptionalParam('resultFee', 'Fee for result processing (in ETH, estimated if not provided)')
+  .addOptionalParam('batchFee', 'Fee for batch operations (in ETH, estimated if not provided)')
+  .addOptionalParam('sedaPrice', 'Price of a SEDA token in ETH, for the request fee estimate', DEFAULT_SEDA_PRICE)
+  .addOptionalParam('feeMargin', 'Headroom added to the estimated fees, in percent', DEFAULT_FEE_MARGIN)
+  .addFlag('dryRun', 'Print the fee breakdown without transmitting')
+  .setAction(async (args, hre) => {
     try {
       // Fetch the address from previous deployments if not provided
-      let priceFeedAddress = contract;
+      let priceFeedAddress = args.contract;
       if (!priceFeedAddress) {
         console.log('No contract address specified, fetching from previous deployments...');
         priceFeedAddress = getDeployedContract(hre.network, 'PriceFeed');
         console.log('Contract found:', priceFeedAddress);
       }
 
-      // Parse the fee values
-      const parsedRequestFee = hre.ethers.parseEther(requestFee);
-      const parsedResultFee = hre.ethers.parseEther(resultFee);
-      const parsedBatchFee = hre.ethers.parseEther(batchFee);
+      // Validate the token IDs and resolve market references before paying for a request
+      if (args.outcomeSets && (args.tokenIds || args.markets)) {
+        throw new Error(
+          '--outcome-sets already lists every token, it cannot be combined with --token-ids or --markets',
+        );
+      }
+      if (args.event && (args.tokenIds || args.markets || args.outcomeSets)) {
+        throw new Error('--event already lists every token, it cannot be combined with other token selections');
+      }
+      if (args.normalize && !args.event) {
+        throw new Error('--normalize can only be used with --event, outcome sets are always normalized');
+      }
 
-      // Calculate total value for the transaction
-      const totalValue = parsedRequestFee + parsedResultFee + parsedBatchFee;
+      // The outcomes of an event are sent as a single outcome set when a tolerance or normalization is asked for,
+      // like post-dr does
+      const tolerance: string = args.tolerance ?? DEFAULT_OUTCOME_TOLERANCE;
+      const normalize = args.normalize || (args.event !== undefined && args.tolerance !== undefined);
+      const event = args.event ? await resolveEvent(args.event) : undefined;
+      if (event && normalize && !event.exclusive) {
+        throw new Error(`The outcomes of event "${args.event}" are not exclusive, they cannot be normalized`);
+      }
+      const eventTokenIds = event?.outcomes.map((outcome) => outcome.tokenId);
+      const outcomeSets = normalize ? eventTokenIds?.join(',') : args.outcomeSets;
+      const sets = outcomeSets ? resolveOutcomeSets(outcomeSets, tolerance) : undefined;
+      const requestedTokenIds =
+        sets?.tokenIds ?? eventTokenIds ?? (await resolveTokenIds(args.tokenIds, args.markets, args.marketCache));
+      const twap = resolveTwap(args.mode, args.window, args.interval);
+      if (twap && sets) {
+        throw new Error('Outcome sets are priced at the spot midpoint, --mode twap cannot be used with them');
+      }
 
       // Get the PriceFeed contract instance
       const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
 
-      // Call the transmit function
-      console.log(`\nCalling transmit() on PriceFeed at ${priceFeedAddress}...\n`);
-      console.log(`Token IDs: ${tokenIds}`);
-      console.log(`Fees (ETH):
-- Request Fee: ${requestFee}
-- Result Fee: ${resultFee}
-- Batch Fee: ${batchFee}
-- Total: ${hre.ethers.formatEther(totalValue)}\n`);
-
-      const tx = await priceFeed.transmit(tokenIds, parsedRequestFee, parsedResultFee, parsedBatchFee, { value: totalValue });
-
-      // Wait for the transaction
-      const receipt = await tx.wait();
-      if (!receipt) {
-        console.log('Transaction failed - no receipt received');
+      // Estimate the fees that were not given
+      const { fees, estimate } = await resolveFees(hre, priceFeed, requestedTokenIds.length, args);
+      if (event) {
+        console.log(`\nOutcomes of ${event.title ?? event.slug}:`);
+        event.outcomes.forEach((outcome) => {
+          console.log(`  ${outcome.label}: ${outcome.tokenId}`);
+        });
+      } else {
+        console.log(`\nToken IDs: ${requestedTokenIds.join(', ')}`);
+      }
+      if (twap) {
+        console.log(`TWAP: ${twap.window}s window, sampled every ${twap.interval}s`);
+      }
+      if (sets) {
+        const sizes = sets.outcomeSets.sizes.join(', ');
+        console.log(`Outcome sets of ${sizes} token(s), checked to sum to 1 within ${tolerance} and normalized`);
+      }
+      console.log(`Fees:\n${formatFeeBreakdown(fees, estimate).join('\n')}\n`);
+      if (args.dryRun) {
+        console.log('Dry run, nothing was transmitted.');
         return;
       }
-      console.log(`Request submitted successfully!`);
 
-      // Find request ID in event logs
-      const requestPostedLog = receipt.logs.find((log) => log.topics[0] === hre.ethers.id('RequestPosted(bytes32)'));
-      if (requestPostedLog) {
-        const requestId = requestPostedLog.topics[1];
-        console.log(`Request ID: ${requestId}`);
-      } else {
-        console.log('Transaction successful but could not extract request ID');
+      // Call the transmit function
+      const method = twap ? 'transmitTwap' : sets ? 'transmitOutcomeSets' : 'transmit';
+      console.log(`Calling ${method}() on PriceFeed at ${priceFeedAddress}...\n`);
+
+      const { requestId } = await transmitRequest(priceFeed, requestedTokenIds, fees, twap, sets?.outcomeSets);
+      console.log(`Request submitted successfully!`);
+      console.log(`Request ID: ${requestId}`);
+      console.log(`Once resolved, apply it with: bunx hardhat pricefeed update --request-id ${requestId}`);
+      if (event) {
+        console.log(`Then rank the outcomes with: bunx hardhat pricefeed latest --event ${args.event}`);
       }
     } catch (error) {
       console.error('An error occurred during the transmit function:', error);
@@ -1,15 +1,21 @@
+import { describeStatus, formatPrice, PriceStatus } from '../../../packages/client/src';
 import { priceFeedScope } from '.';
-import { getDeployedContract } from './utils';
+import { formatFeeFlows, getFeeFlows } from './fees';
+import { applyResults, formatAge, getChainTime, getDeployedContract } from './utils';
 
 /**
- * Task: Updates the latest prices from the SEDA network result.
- * Optional parameter: contract (PriceFeed contract address).
+ * Task: Updates the latest prices from SEDA network results.
+ * Optional parameters:
+ * - contract: PriceFeed contract address
+ * - requestId: Apply the result of this request only (if not provided, applies every pending request)
  * If the contract address is not provided, fetches from previous deployments.
+ * Reports how SEDA Core settled the fees of every applied request and the refunds the contract holds.
  */
 priceFeedScope
-    .task('update', 'Updates the latest prices from SEDA network result')
+    .task('update', 'Updates the latest prices from SEDA network results')
     .addOptionalParam('contract', 'The PriceFeed contract address')
-    .setAction(async ({ contract }, hre) => {
+    .addOptionalParam('requestId', 'Request whose result to apply (defaults to all pending requests)')
+    .setAction(async ({ contract, requestId }, hre) => {
         try {
             // Fetch the address from previous deployments if not provided
             let priceFeedAddress = contract;
@@ -22,28 +28,54 @@ priceFeedScope
             // Get the PriceFeed contract instance
             const priceFeed = await hre.ethers.getContractAt('PriceFeed', priceFeedAddress);
 
-            // Update the latest answers
-            console.log(`\nUpdating latest answers from SEDA network...`);
-            const tx = await priceFeed.updateLatestAnswers();
-            const receipt = await tx.wait();
-
-            if (!receipt) {
-                console.log('Transaction failed - no receipt received');
+            const requestIds: string[] = requestId ? [requestId] : [...(await priceFeed.getPendingRequests())];
+            if (requestIds.length === 0) {
+                console.log('No pending requests, nothing to update.');
                 return;
             }
 
-            console.log('Latest answers updated successfully!');
-            console.log(`Transaction hash: ${tx.hash}`);
+            // Apply the results
+            console.log(`\nApplying the results of ${requestIds.length} request(s) from SEDA network...`);
+            const { applied } = await applyResults(priceFeed, requestIds);
+            if (applied.length === 0) {
+                console.log('No results were applied, try again once the requests are resolved.');
+                return;
+            }
 
-            // Show the updated prices
-            const allPrices = await priceFeed.getAllPrices();
-            const tokenCount = await priceFeed.getTokenCount();
+            // Show the updated prices of every applied request
+            const now = await getChainTime(hre);
+            for (const appliedRequestId of applied) {
+                const tokenIds = await priceFeed.getRequestTokenIds(appliedRequestId);
+                console.log(`\nRequest ${appliedRequestId} updated ${tokenIds.length} tokens:`);
+                for (const tokenId of tokenIds) {
+                    const feed = await priceFeed.getFeed(tokenId);
+                    const display =
+                        Number(feed.status) === PriceStatus.Ok
+                            ? `${formatPrice(feed.price)} (${feed.price.toString()})`
+                            : Number(feed.status) === PriceStatus.Resolved
+                              ? `resolved at ${formatPrice(feed.price)}`
+                              : `unavailable (${describeStatus(feed.status)})`;
+                    const age = formatAge(now - Number(feed.updatedAt));
+                    console.log(`  Token ${tokenId}: ${display}, round ${feed.roundId}, ${age} old`);
+                }
 
-            console.log(`\nUpdated prices for ${tokenCount.toString()} tokens:`);
-            allPrices.forEach((price: any, index: number) => {
-                console.log(`  Token ${index}: ${price.toString()}`);
-            });
+                // Fee lookups need the logs of the transmission, which some RPCs limit
+                try {
+                    const flows = await getFeeFlows(hre, priceFeed, appliedRequestId);
+                    if (flows) {
+                        console.log(`Fees:\n${formatFeeFlows(flows).join('\n')}`);
+                    }
+                } catch (error: unknown) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    console.log(`Could not look up the fees: ${errorMessage}`);
+                }
+            }
 
+            const refunds = await hre.ethers.provider.getBalance(priceFeedAddress);
+            if (refunds > 0n) {
+                console.log(`\nThe PriceFeed holds ${hre.ethers.formatEther(refunds)} ETH of refunded fees.`);
+                console.log('Withdraw them with: bunx hardhat pricefeed refunds --withdraw-to <address>');
+            }
         } catch (error: unknown) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             console.error(`Error updating latest answers: ${errorMessage}`);
@@ -51,4 +83,4 @@ priceFeedScope
                 'Make sure you ran "bunx hardhat pricefeed transmit" first and wait for the result to be available.',
             );
         }
-    });
\ No newline at end of file
+    });
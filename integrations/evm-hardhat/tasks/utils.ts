@@ -1,57 +1,94 @@
 import * as fs from 'node:fs';
-import * as path from 'node:path';
 import dotenv from 'dotenv';
-import type { Network } from 'hardhat/types';
+import type { ContractTransactionResponse } from 'ethers';
+import type { HardhatRuntimeEnvironment, Network } from 'hardhat/types';
+import {
+  assertTolerance,
+  assertTwapOptions,
+  DEFAULT_TWAP_INTERVAL,
+  DEFAULT_TWAP_WINDOW,
+  type EventInfo,
+  MarketResolver,
+  parseMarketRefs,
+  parseOutcomeSets,
+  parsePrice,
+  parseTokenIds,
+  type TwapOptions,
+} from '../../../packages/client/src';
 import { networkConfigs, type SedaConfig } from '../seda.config';
+import type { PriceFeed } from '../typechain-types';
+import { DEFAULT_DEPLOYMENTS_FILE, findDeployment, getNetworkKey, loadRegistry } from './registry';
 
 dotenv.config();
 
+/** Outcome sets of a request transmitted with `transmitOutcomeSets`, its token IDs are grouped set by set */
+export interface OutcomeSetRequest {
+  /** Number of tokens of every set, in token order */
+  sizes: number[];
+  /** Largest distance from 1 a set may sum to, with 6 decimals */
+  tolerance: bigint;
+}
+
+/** Fees paid to SEDA Core for a request, in wei */
+export interface RequestFees {
+  requestFee: bigint;
+  resultFee: bigint;
+  batchFee: bigint;
+}
+
 /**
- * Helper function to fetch the deployed contract address from the deployment file.
+ * Helper function to fetch the deployed contract address from the deployment registry.
  * @param network HardhatNetwork object containing network details.
- * @param contractName The full name of the contract (as stored in the deployment JSON file).
+ * @param contractName The name of the contract (e.g. 'PriceFeed' or 'MockSedaCore').
+ * @param name The instance to use, by default the one selected with `pricefeed deployments use` or deployed last.
  * @returns The deployed contract address as a string.
  * @throws Error if the deployment file or contract address is not found.
  */
-export function getDeployedContract(network: Network, contractName: string): string {
-  // Path to our new deployments file
-  const deploymentPath = path.join(__dirname, '../deployments/addresses.json');
-
+export function getDeployedContract(network: Network, contractName: string, name?: string): string {
   // Check if the deployment file exists
-  if (!fs.existsSync(deploymentPath)) {
-    throw new Error(`Deployments file not found at ${deploymentPath}`);
+  if (!fs.existsSync(DEFAULT_DEPLOYMENTS_FILE)) {
+    throw new Error(`Deployments file not found at ${DEFAULT_DEPLOYMENTS_FILE}`);
   }
 
-  // Parse the deployment JSON file to fetch contract addresses
-  const deployments = JSON.parse(fs.readFileSync(deploymentPath, 'utf-8'));
-
   // Create network key with name and chainId
-  // const networkKey = `${network.name}-${network.chainId}`;
-  const networkKey = `${network.name}-${network.config.chainId}`;
+  const networkKey = getNetworkKey(network);
+  const registry = loadRegistry();
 
   // Check if network exists in deployments
-  if (!deployments[networkKey]) {
+  if (!registry.networks[networkKey]) {
     throw new Error(`No deployments found for network ${networkKey}`);
   }
 
-  // For PriceFeed, use contractAddress
-  if (contractName === 'PriceFeed') {
-    return deployments[networkKey].contractAddress;
+  const deployment = findDeployment(registry, networkKey, contractName, name);
+  if (!deployment) {
+    const instance = name ? ` named "${name}"` : '';
+    throw new Error(`Contract ${contractName}${instance} not found in deployment file for network ${networkKey}`);
   }
 
-  throw new Error(`Contract ${contractName} not found in deployment file for network ${networkKey}`);
+  return deployment.address;
+}
+
+/**
+ * Checks whether a network is a local Hardhat network, which uses a MockSedaCore instead of a SEDA Core deployment.
+ * @param network The name of the network.
+ * @returns True for the in-process `hardhat` network and a `localhost` node.
+ */
+export function isLocalNetwork(network: string): boolean {
+  return network === 'hardhat' || network === 'localhost';
 }
 
 /**
  * Fetches the SEDA network configuration based on the provided network name.
- * @param network The name of the network (e.g., 'mainnet', 'goerli', etc.).
+ * @param network The Hardhat name of the network (e.g., 'baseSepolia', 'gnosisChiado', etc.).
  * @returns SedaConfig The configuration object for the given network.
  * @throws Error if the network configuration is not found.
  */
 export function getSedaConfig(network: string): SedaConfig {
   const config = networkConfigs[network];
   if (!config) {
-    throw new Error(`SEDA network configuration for ${network} not found`);
+    throw new Error(
+      `SEDA network configuration for ${network} not found, supported networks: ${Object.keys(networkConfigs).join(', ')}`,
+    );
   }
 
   return config;
@@ -80,3 +117,274 @@ export function getOracleProgramId(): string {
   // Automatically add "0x" if missing
   return `0x${oracleProgramId}`;
 }
+
+/**
+ * Formats an age in seconds for display (e.g. "45s", "12m 5s", "3h 20m", "2d 4h").
+ * @param seconds The age in seconds, negative ages (clock skew) count as 0.
+ * @returns The human-readable age.
+ */
+export function formatAge(seconds: number): string {
+  const age = Math.max(0, Math.floor(seconds));
+  if (age < 60) {
+    return `${age}s`;
+  }
+  if (age < 3600) {
+    return `${Math.floor(age / 60)}m ${age % 60}s`;
+  }
+  if (age < 86400) {
+    return `${Math.floor(age / 3600)}h ${Math.floor((age % 3600) / 60)}m`;
+  }
+  return `${Math.floor(age / 86400)}d ${Math.floor((age % 86400) / 3600)}h`;
+}
+
+/**
+ * Returns the timestamp of the latest block, the reference for the age of on-chain prices.
+ * @param hre The Hardhat runtime environment.
+ * @returns The block timestamp in seconds.
+ */
+export async function getChainTime(hre: HardhatRuntimeEnvironment): Promise<number> {
+  const block = await hre.ethers.provider.getBlock('latest');
+  return block ? block.timestamp : Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Describes why the PriceFeed dropped a request's result, from its RequestDropped event.
+ * @param consensus Whether the executors reached consensus.
+ * @param exitCode Exit code of the tally.
+ * @returns The reason, e.g. "no consensus".
+ */
+export function describeDrop(consensus: boolean, exitCode: bigint): string {
+  if (!consensus) {
+    return 'no consensus';
+  }
+  if (exitCode !== 0n) {
+    return `the oracle program failed with exit code ${exitCode}`;
+  }
+  return 'the result does not hold one price per token';
+}
+
+/** Requests whose result `applyResults` applied, and the one whose result the guard rejected, if any */
+export interface AppliedResults {
+  applied: string[];
+  rejected?: string;
+}
+
+/**
+ * Applies the results of the given requests to the PriceFeed, one transaction per request.
+ * Requests whose result is not available yet are skipped and stay pending. Results are final: one that failed
+ * (no consensus, a non-zero exit code), cannot be decoded or is rejected by the guard is dropped from the pending
+ * requests. Nothing is applied while the circuit breaker is tripped, and a result that trips it stops the remaining
+ * ones.
+ * @param priceFeed The PriceFeed contract instance.
+ * @param requestIds IDs of requests transmitted through the contract.
+ * @param log Where to report the progress of every request.
+ * @returns The IDs of the requests whose result was applied, and of the request whose result tripped the breaker.
+ */
+export async function applyResults(
+  priceFeed: PriceFeed,
+  requestIds: string[],
+  log: (message: string) => void = console.log,
+): Promise<AppliedResults> {
+  const applied: string[] = [];
+  if (await priceFeed.paused()) {
+    log('  Updates are paused by the circuit breaker, inspect it with: bunx hardhat pricefeed guard');
+    return { applied };
+  }
+
+  for (const requestId of requestIds) {
+    // Simulate first so unavailable results do not cost a reverted transaction
+    let applies: boolean;
+    try {
+      applies = await priceFeed.updateLatestAnswers.staticCall(requestId);
+    } catch {
+      log(`  ${requestId}: result not available yet`);
+      continue;
+    }
+
+    const tx = await priceFeed.updateLatestAnswers(requestId);
+    const receipt = await tx.wait();
+    if (!applies) {
+      const events = receipt?.logs.map((entry) => priceFeed.interface.parseLog(entry)) ?? [];
+      if (events.some((event) => event?.name === 'CircuitBreakerTripped')) {
+        log(`  ${requestId}: rejected by the guard, the circuit breaker tripped (transaction ${tx.hash})`);
+        log('  Inspect and reset it with: bunx hardhat pricefeed guard');
+        return { applied, rejected: requestId };
+      }
+      const dropped = events.find((event) => event?.name === 'RequestDropped');
+      const reason = dropped ? describeDrop(dropped.args.consensus, dropped.args.exitCode) : 'the result failed';
+      log(`  ${requestId}: dropped, ${reason} (transaction ${tx.hash})`);
+      continue;
+    }
+    log(`  ${requestId}: applied (transaction ${tx.hash})`);
+    applied.push(requestId);
+  }
+  return { applied };
+}
+
+/**
+ * Returns the value to send along with a transmit transaction.
+ * @param fees The request fees.
+ * @returns The sum of all fees in wei.
+ */
+export function totalFee(fees: RequestFees): bigint {
+  return fees.requestFee + fees.resultFee + fees.batchFee;
+}
+
+/**
+ * Validates token IDs and resolves market references, keeping the given order without duplicates.
+ * @param tokenIds Comma-separated Polymarket token IDs, if any.
+ * @param markets Comma-separated <slug-or-condition-id>:<outcome> references, if any.
+ * @param marketCache Cache file for resolved markets.
+ * @returns The token IDs to request.
+ * @throws Error if neither is given, a token ID is invalid or a market cannot be resolved.
+ */
+export async function resolveTokenIds(
+  tokenIds: string | undefined,
+  markets: string | undefined,
+  marketCache: string,
+): Promise<string[]> {
+  if (!tokenIds && !markets) {
+    throw new Error('Provide the tokens to price with --token-ids or --markets');
+  }
+
+  const requestedTokenIds = tokenIds ? parseTokenIds(tokenIds) : [];
+  if (markets) {
+    const resolver = new MarketResolver({ cacheFile: marketCache });
+    for (const ref of parseMarketRefs(markets)) {
+      const tokenId = await resolver.resolveTokenId(ref);
+      console.log(`Resolved ${ref.market} (${ref.outcome}) to token ${tokenId}`);
+      if (!requestedTokenIds.includes(tokenId)) {
+        requestedTokenIds.push(tokenId);
+      }
+    }
+  }
+  return requestedTokenIds;
+}
+
+/**
+ * Resolves an event to the token IDs and labels of its outcomes.
+ * @param event Event ID or slug.
+ * @returns The event with its outcomes, in the event's order.
+ * @throws Error if the event cannot be found or has no open market.
+ */
+export async function resolveEvent(event: string): Promise<EventInfo> {
+  // Events are always fetched, the outcomes listed by an event change over time
+  const resolver = new MarketResolver({ cacheFile: false });
+  const info = await resolver.getEvent(event.trim());
+  console.log(`Resolved event ${info.slug} (${info.title ?? info.id}) to ${info.outcomes.length} outcome(s)`);
+  return info;
+}
+
+/**
+ * Parses the price mode options of a task.
+ * @param mode "spot" or "twap".
+ * @param window Seconds of price history the TWAP covers, if given.
+ * @param interval Seconds between the price history samples, if given.
+ * @returns The TWAP window and interval, undefined in spot mode.
+ * @throws Error if the mode is unknown, or the window or interval are invalid or given in spot mode.
+ */
+export function resolveTwap(
+  mode: string,
+  window: string | undefined,
+  interval: string | undefined,
+): TwapOptions | undefined {
+  if (mode !== 'spot' && mode !== 'twap') {
+    throw new Error(`Unknown mode "${mode}", expected spot or twap`);
+  }
+  if (mode === 'spot') {
+    if (window !== undefined || interval !== undefined) {
+      throw new Error('--window and --interval can only be used with --mode twap');
+    }
+    return undefined;
+  }
+
+  const twap = {
+    window: window !== undefined ? Number(window) : DEFAULT_TWAP_WINDOW,
+    interval: interval !== undefined ? Number(interval) : DEFAULT_TWAP_INTERVAL,
+  };
+  assertTwapOptions(twap);
+  return twap;
+}
+
+/**
+ * Parses the outcome set options of a task.
+ * @param outcomeSets Semicolon-separated sets of comma-separated token IDs.
+ * @param tolerance Largest distance from 1 a set may sum to, as a decimal with at most 6 fraction digits.
+ * @returns The token IDs grouped set by set, and the sizes and tolerance of the sets.
+ * @throws Error if a set has fewer than 2 tokens, a token is in several sets or the tolerance is invalid.
+ */
+export function resolveOutcomeSets(
+  outcomeSets: string,
+  tolerance: string,
+): { tokenIds: string[]; outcomeSets: OutcomeSetRequest } {
+  const sets = parseOutcomeSets(outcomeSets);
+  if (sets.length === 0) {
+    throw new Error('--outcome-sets needs at least one set of token IDs');
+  }
+  assertTolerance(tolerance);
+  return {
+    tokenIds: sets.flat(),
+    outcomeSets: { sizes: sets.map((set) => set.length), tolerance: parsePrice(tolerance) },
+  };
+}
+
+/**
+ * Transmits a request for the given tokens and returns its ID.
+ * @param priceFeed The PriceFeed contract instance, connected to an operator.
+ * @param tokenIds Polymarket token IDs as decimal strings.
+ * @param fees The request fees, sent along as the transaction value.
+ * @param twap Window and interval of a TWAP to request next to the spot price, through `transmitTwap`.
+ * @param outcomeSets Outcome sets the token IDs are grouped into, through `transmitOutcomeSets`.
+ * @returns The ID of the posted request and the transaction hash.
+ * @throws Error if both a TWAP and outcome sets are given, or the transaction fails.
+ */
+export async function transmitRequest(
+  priceFeed: PriceFeed,
+  tokenIds: string[],
+  fees: RequestFees,
+  twap?: TwapOptions,
+  outcomeSets?: OutcomeSetRequest,
+): Promise<{ requestId: string; transactionHash: string }> {
+  if (twap && outcomeSets) {
+    throw new Error('Outcome sets are priced at the spot midpoint, they cannot be combined with a TWAP');
+  }
+
+  // Polymarket token IDs are uint256 values, the contract builds the execution inputs from them
+  const tokenIdValues = tokenIds.map((tokenId) => BigInt(tokenId));
+  const overrides = { value: totalFee(fees) };
+  let tx: ContractTransactionResponse;
+  if (twap) {
+    tx = await priceFeed.transmitTwap(
+      tokenIdValues,
+      twap.window,
+      twap.interval,
+      fees.requestFee,
+      fees.resultFee,
+      fees.batchFee,
+      overrides,
+    );
+  } else if (outcomeSets) {
+    tx = await priceFeed.transmitOutcomeSets(
+      tokenIdValues,
+      outcomeSets.sizes,
+      outcomeSets.tolerance,
+      fees.requestFee,
+      fees.resultFee,
+      fees.batchFee,
+      overrides,
+    );
+  } else {
+    tx = await priceFeed.transmit(tokenIdValues, fees.requestFee, fees.resultFee, fees.batchFee, overrides);
+  }
+
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error('Transaction failed - no receipt received');
+  }
+
+  // The PriceFeed emits PricesRequested(bytes32 indexed requestId, ...) for every transmission
+  const pricesRequestedTopic = priceFeed.interface.getEvent('PricesRequested').topicHash;
+  const pricesRequestedLog = receipt.logs.find((log) => log.topics[0] === pricesRequestedTopic);
+  const requestId = pricesRequestedLog ? pricesRequestedLog.topics[1] : await priceFeed.requestId();
+  return { requestId, transactionHash: tx.hash };
+}
@@ -0,0 +1,117 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { PriceStatus } from '../../../packages/client/src';
+import { PriceApi } from '../tasks/api';
+import { deployPriceFeedFixture, type PriceFeedFixture, postPrices } from './helpers';
+
+describe('PriceApi', () => {
+  const YES_TOKEN = 47060861968389645577251408086188258199430417779776802737050665875266354301946n;
+  const NO_TOKEN = 12905796939799815677187294753823746821359945387637800747970148392857538825639n;
+
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+  });
+
+  // Starts the API on a free port and returns a function fetching a path as JSON
+  async function startApi(fixture: PriceFeedFixture, maxAge = 600) {
+    server = await new PriceApi(fixture.priceFeed, ethers.provider, { maxAge }).listen(0, '127.0.0.1');
+    const { port } = server.address() as AddressInfo;
+    return async (path: string) => {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`);
+      return { status: response.status, cache: response.headers.get('x-cache'), body: await response.json() };
+    };
+  }
+
+  async function applyResult(
+    { priceFeed, core }: PriceFeedFixture,
+    tokenIds: bigint[],
+    entries: { status: PriceStatus; price: bigint; bid?: bigint }[],
+  ) {
+    await priceFeed.transmit(tokenIds, 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+    await postPrices(core, requestId, entries, { blockHeight: 1, blockTimestamp: await time.latest() });
+    await priceFeed.updateLatestAnswers(requestId);
+  }
+
+  it('Should serve decimal prices and their staleness', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const get = await startApi(fixture);
+
+    const empty = await get('/health');
+    expect(empty.status).to.equal(503);
+    expect(empty.body.status).to.equal('empty');
+    expect((await get('/prices')).body.prices).to.deep.equal([]);
+
+    await applyResult(
+      fixture,
+      [YES_TOKEN, NO_TOKEN],
+      [
+        { status: PriceStatus.Ok, price: 505000n, bid: 500000n },
+        { status: PriceStatus.FetchFailed, price: 0n },
+      ],
+    );
+
+    const prices = await get('/prices');
+    expect(prices.status).to.equal(200);
+    expect(prices.body.prices).to.have.length(2);
+    expect(prices.body.prices[0]).to.include({
+      tokenId: YES_TOKEN.toString(),
+      price: '0.505',
+      raw: '505000',
+      status: 'ok',
+      resolved: false,
+      bid: '0.5',
+      ask: null,
+      probability: null,
+      roundId: '1',
+      stale: false,
+    });
+    expect(prices.body.prices[1]).to.include({ tokenId: NO_TOKEN.toString(), price: null, status: 'fetch failed' });
+
+    const single = await get(`/prices/${YES_TOKEN}`);
+    expect(single.body).to.include({
+      tokenId: YES_TOKEN.toString(),
+      price: '0.505',
+      blockNumber: prices.body.blockNumber,
+    });
+    expect((await get('/tokens')).body.tokenIds).to.deep.equal([YES_TOKEN.toString(), NO_TOKEN.toString()]);
+    expect((await get('/health')).body).to.include({ status: 'ok', latestRoundId: '1', pendingRequests: 0 });
+
+    // Prices age with the chain, not with the wall clock
+    await time.increase(601);
+    const stale = await get(`/prices/${YES_TOKEN}`);
+    expect(stale.body.stale).to.equal(true);
+    expect(stale.body.age).to.be.greaterThan(600);
+    const health = await get('/health');
+    expect(health.status).to.equal(503);
+    expect(health.body.status).to.equal('stale');
+  });
+
+  it('Should cache responses until the next block', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    await applyResult(fixture, [YES_TOKEN], [{ status: PriceStatus.Ok, price: 505000n }]);
+    const get = await startApi(fixture);
+
+    expect((await get('/prices')).cache).to.equal('miss');
+    expect((await get('/prices/')).cache).to.equal('hit');
+
+    await applyResult(fixture, [YES_TOKEN], [{ status: PriceStatus.Ok, price: 510000n }]);
+    const updated = await get('/prices');
+    expect(updated.cache).to.equal('miss');
+    expect(updated.body.prices[0].price).to.equal('0.51');
+  });
+
+  it('Should reject unknown routes and tokens', async () => {
+    const get = await startApi(await loadFixture(deployPriceFeedFixture));
+
+    expect((await get('/prices/abc')).status).to.equal(400);
+    expect((await get('/prices/123')).status).to.equal(404);
+    expect((await get('/orders')).status).to.equal(404);
+  });
+});
@@ -0,0 +1,107 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import {
+  currentDeployments,
+  type Deployment,
+  type DeploymentRegistry,
+  findDeployment,
+  loadRegistry,
+  mergeRegistry,
+  recordDeployment,
+  saveRegistry,
+  useDeployment,
+} from '../tasks/registry';
+
+describe('DeploymentRegistry', () => {
+  const NETWORK = 'baseSepolia-84532';
+
+  function deployment(contract: string, name: string, address: string, timestamp: number): Deployment {
+    return { contract, name, address, timestamp, deployer: '0x0000000000000000000000000000000000000001' };
+  }
+
+  function emptyRegistry(): DeploymentRegistry {
+    return { version: 2, networks: {} };
+  }
+
+  it('Should keep the history and resolve the current deployment of each instance', () => {
+    const registry = emptyRegistry();
+    recordDeployment(registry, NETWORK, deployment('PriceFeed', 'default', '0xa1', 1));
+    recordDeployment(registry, NETWORK, deployment('PriceFeed', 'team-b', '0xb1', 2));
+    recordDeployment(registry, NETWORK, deployment('PriceFeed', 'default', '0xa2', 3));
+
+    // The last deployment is active, redeploying an instance supersedes its previous address
+    expect(findDeployment(registry, NETWORK, 'PriceFeed')?.address).to.equal('0xa2');
+    expect(findDeployment(registry, NETWORK, 'PriceFeed', 'team-b')?.address).to.equal('0xb1');
+    expect(registry.networks[NETWORK].history.map(({ address }) => address)).to.deep.equal(['0xa1', '0xb1', '0xa2']);
+    expect(currentDeployments(registry, NETWORK).map(({ address }) => address)).to.deep.equal(['0xa2', '0xb1']);
+
+    useDeployment(registry, NETWORK, 'PriceFeed', 'team-b');
+    expect(findDeployment(registry, NETWORK, 'PriceFeed')?.address).to.equal('0xb1');
+    expect(() => useDeployment(registry, NETWORK, 'PriceFeed', 'team-c')).to.throw(
+      `No PriceFeed deployment named "team-c" on network ${NETWORK}`,
+    );
+    expect(findDeployment(registry, 'base-8453', 'PriceFeed')).to.equal(undefined);
+  });
+
+  it('Should track any contract', () => {
+    const registry = emptyRegistry();
+    recordDeployment(registry, NETWORK, deployment('MockSedaCore', 'default', '0xc1', 1));
+    recordDeployment(registry, NETWORK, deployment('PriceFeed', 'default', '0xa1', 1));
+
+    expect(findDeployment(registry, NETWORK, 'MockSedaCore')?.address).to.equal('0xc1');
+    expect(findDeployment(registry, NETWORK, 'PriceFeed')?.address).to.equal('0xa1');
+  });
+
+  it('Should convert files of the first format', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'deployments-')), 'addresses.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        [NETWORK]: {
+          contractAddress: '0xa1',
+          coreAddress: '0xc1',
+          oracleProgramId: '0x01',
+          timestamp: 1700000000,
+          deployer: '0xd1',
+        },
+      }),
+    );
+
+    const registry = loadRegistry(file);
+    expect(registry.version).to.equal(2);
+    expect(findDeployment(registry, NETWORK, 'PriceFeed')).to.deep.equal({
+      contract: 'PriceFeed',
+      name: 'default',
+      address: '0xa1',
+      timestamp: 1700000000,
+      deployer: '0xd1',
+      details: { coreAddress: '0xc1', oracleProgramId: '0x01' },
+    });
+
+    // Saved in the current format
+    saveRegistry(registry, file);
+    expect(loadRegistry(file)).to.deep.equal(registry);
+
+    fs.writeFileSync(file, JSON.stringify({ version: 3, networks: {} }));
+    expect(() => loadRegistry(file)).to.throw('has version 3, expected 2');
+  });
+
+  it('Should merge imported deployments without duplicates', () => {
+    const registry = emptyRegistry();
+    recordDeployment(registry, NETWORK, deployment('PriceFeed', 'default', '0xa1', 1));
+
+    const imported = emptyRegistry();
+    recordDeployment(imported, NETWORK, deployment('PriceFeed', 'default', '0xA1', 1));
+    recordDeployment(imported, NETWORK, deployment('PriceFeed', 'team-b', '0xb1', 2));
+    recordDeployment(imported, 'base-8453', deployment('PriceFeed', 'default', '0xe1', 3));
+
+    expect(mergeRegistry(registry, imported)).to.equal(2);
+    expect(registry.networks[NETWORK].history.map(({ address }) => address)).to.deep.equal(['0xa1', '0xb1']);
+    // The local selection wins, networks without one take the imported selection
+    expect(findDeployment(registry, NETWORK, 'PriceFeed')?.address).to.equal('0xa1');
+    expect(findDeployment(registry, 'base-8453', 'PriceFeed')?.address).to.equal('0xe1');
+    expect(mergeRegistry(registry, imported)).to.equal(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { encodeTallyResult, PriceStatus, toHex } from '../../../packages/client/src';
+import { estimateFees, formatFeeBreakdown, getFeeFlows, RESULT_BASE_GAS, RESULT_GAS_PER_TOKEN } from '../tasks/fees';
+import { sedaResult } from './helpers';
+
+describe('Fees', () => {
+  const params = { gasPrice: 2000n, execGasLimit: 50_000_000n, tallyGasLimit: 20_000_000n, replicationFactor: 3n };
+
+  it('Should derive the fees from the request parameters', () => {
+    const estimate = estimateFees(params, 2, {
+      sedaPrice: ethers.parseEther('0.0001'),
+      evmGasPrice: ethers.parseUnits('2', 'gwei'),
+      marginPercent: 0n,
+    });
+
+    // Three executors' execution plus the tally, at 2000 aSEDA per gas and 0.0001 ETH per SEDA
+    expect(estimate.sedaGas).to.equal(170_000_000n);
+    expect(estimate.requestFee).to.equal((170_000_000n * 2000n * ethers.parseEther('0.0001')) / 10n ** 18n);
+    expect(estimate.resultFee).to.equal((RESULT_BASE_GAS + 2n * RESULT_GAS_PER_TOKEN) * ethers.parseUnits('2', 'gwei'));
+
+    const withMargin = estimateFees(params, 2, {
+      sedaPrice: ethers.parseEther('0.0001'),
+      evmGasPrice: ethers.parseUnits('2', 'gwei'),
+      marginPercent: 50n,
+    });
+    expect(withMargin.requestFee).to.equal((estimate.requestFee * 3n) / 2n);
+    expect(withMargin.batchFee).to.equal((estimate.batchFee * 3n) / 2n);
+
+    const breakdown = formatFeeBreakdown({ ...estimate, resultFee: ethers.parseEther('1') }, estimate);
+    expect(breakdown[0]).to.include('170000000 SEDA gas at 2000 aSEDA');
+    expect(breakdown[1]).to.equal(
+      `- Result Fee: 1.0 ETH, given (estimate ${ethers.formatEther(estimate.resultFee)} ETH)`,
+    );
+  });
+
+  it('Should report how the fees of a request are settled', async () => {
+    const [, solver] = await ethers.getSigners();
+    const core = await (await ethers.getContractFactory('FeeSettlingSedaCore')).deploy();
+    const priceFeed = await (await ethers.getContractFactory('PriceFeed')).deploy(core.getAddress(), ethers.ZeroHash);
+    await priceFeed.setRequestParams({ ...params, consensusFilter: '0x00' });
+
+    const fees = [ethers.parseEther('0.017'), ethers.parseEther('0.002'), ethers.parseEther('0.001')] as const;
+    const postResult = async (requestId: string, gasUsed: bigint) => {
+      const result = toHex(encodeTallyResult([{ status: PriceStatus.Ok, price: 505000n }]));
+      const tx = await core.postResult(
+        sedaResult(requestId, { result, gasUsed, paybackAddress: solver.address }),
+        0,
+        [],
+      );
+      return tx.hash;
+    };
+
+    await priceFeed.transmit([1n], ...fees, { value: ethers.parseEther('0.02') });
+    const requestId = await priceFeed.requestId();
+    await priceFeed.transmit([2n], ...fees, { value: ethers.parseEther('0.02') });
+    const otherRequestId = await priceFeed.requestId();
+
+    // The other request's refund comes first and must not be counted
+    await postResult(otherRequestId, 170_000_000n / 2n);
+    const txHash = await postResult(requestId, 42_500_000n);
+
+    // A quarter of the gas limit was used, so SEDA Core refunded three quarters of the request fee
+    const flows = await getFeeFlows(hre, priceFeed, requestId);
+    expect(flows).to.deep.include({
+      gasLimit: 170_000_000n,
+      gasUsed: 42_500_000n,
+      paybackAddress: solver.address,
+      paidBack: ethers.parseEther('0.00425'),
+      refunded: ethers.parseEther('0.01275'),
+      refundTxHash: txHash,
+    });
+    expect(await getFeeFlows(hre, priceFeed, ethers.id('unknown'))).to.equal(undefined);
+  });
+});
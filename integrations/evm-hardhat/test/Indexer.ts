@@ -0,0 +1,74 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { PriceStatus } from '../../../packages/client/src';
+import { CSV_COLUMNS, exportPriceHistory, indexPriceHistory, toCsv } from '../tasks/indexer';
+import { deployPriceFeedFixture, postPrices } from './helpers';
+
+describe('Indexer', () => {
+  it('Should export the price history of the local chain', async () => {
+    const { priceFeed, core } = await deployPriceFeedFixture();
+    const fromBlock = await ethers.provider.getBlockNumber();
+
+    // Two rounds: both tokens, then the first token alone with a failed fetch
+    const rounds = [
+      { tokenIds: [1n, 2n], entries: [505000n, 495000n].map((price) => ({ status: PriceStatus.Ok, price })) },
+      { tokenIds: [1n], entries: [{ status: PriceStatus.FetchFailed, price: 0n }] },
+    ];
+    for (const [index, round] of rounds.entries()) {
+      await priceFeed.transmit(round.tokenIds, 0, 0, 0);
+      const requestId = await priceFeed.requestId();
+      await postPrices(core, requestId, round.entries, {
+        blockHeight: index + 1,
+        blockTimestamp: 1_700_000_000 + index * 60,
+      });
+      await priceFeed.updateLatestAnswers(requestId);
+    }
+    const toBlock = await ethers.provider.getBlockNumber();
+
+    // Single block chunks must find the same events as one query over the range
+    const history = await indexPriceHistory(priceFeed, { fromBlock, toBlock });
+    expect(await indexPriceHistory(priceFeed, { fromBlock, toBlock, chunkSize: 1 })).to.deep.equal(history);
+    expect(
+      history.map(({ roundId, tokenId, status, price, timestamp }) => [roundId, tokenId, status, price, timestamp]),
+    ).to.deep.equal([
+      ['1', '1', 'Ok', '505000', 1_700_000_000],
+      ['1', '2', 'Ok', '495000', 1_700_000_000],
+      ['2', '1', 'FetchFailed', '0', 1_700_000_060],
+    ]);
+
+    const filtered = await indexPriceHistory(priceFeed, { fromBlock, toBlock, tokenIds: ['2'] });
+    expect(filtered).to.have.length(1);
+    expect(filtered[0].price).to.equal('495000');
+
+    const csv = toCsv(history).trimEnd().split('\n');
+    expect(csv[0]).to.equal(CSV_COLUMNS.join(','));
+    expect(csv[3]).to.equal(
+      [
+        history[2].blockNumber,
+        history[2].transactionHash,
+        history[2].requestId,
+        2,
+        1_700_000_060,
+        1,
+        'FetchFailed',
+        0,
+      ].join(','),
+    );
+
+    // The task writes the same history as JSON
+    const out = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'pricefeed-index-')), 'history.json');
+    const args = { contract: await priceFeed.getAddress(), fromBlock: String(fromBlock), format: 'json', out };
+    const silent = () => {};
+    await exportPriceHistory(hre, { ...args, chunkSize: '2' }, silent);
+    expect(JSON.parse(fs.readFileSync(out, 'utf-8'))).to.deep.equal(history);
+
+    for (const chunkSize of ['0', '1.5', 'all']) {
+      await expect(exportPriceHistory(hre, { ...args, chunkSize }, silent)).to.be.rejectedWith(
+        `--chunk-size must be a positive whole number of blocks, got "${chunkSize}"`,
+      );
+    }
+  });
+});
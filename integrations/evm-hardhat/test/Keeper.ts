@@ -0,0 +1,213 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { Keeper, type KeeperOptions } from '../tasks/keeper';
+import type { PriceFeed } from '../typechain-types';
+import { deployPriceFeedFixture, postPrices } from './helpers';
+
+describe('Keeper', () => {
+  const TOKEN_IDS = [
+    '47060861968389645577251408086188258199430417779776802737050665875266354301946',
+    '12905796939799815677187294753823746821359945387637800747970148392857538825639',
+  ];
+
+  // Starts at an arbitrary time, tests move it forward by hand
+  function createKeeper(priceFeed: PriceFeed, options: Partial<KeeperOptions> = {}) {
+    const clock = { now: 1_700_000_000 };
+    const logs: string[] = [];
+    const keeper = new Keeper(hre, priceFeed, {
+      tokenIds: TOKEN_IDS,
+      fees: { requestFee: 0n, resultFee: 0n, batchFee: 0n },
+      interval: 3600,
+      resultTimeout: 900,
+      retryDelay: 15,
+      maxRetryDelay: 600,
+      stateFile: false,
+      now: () => clock.now,
+      log: (message) => logs.push(message),
+      ...options,
+    });
+    return { keeper, clock, logs };
+  }
+
+  it('Should transmit, apply the result and wait for the interval', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    const { keeper, clock } = createKeeper(priceFeed);
+
+    // The first cycle transmits right away
+    await keeper.tick();
+    const requestId = await priceFeed.requestId();
+    expect(keeper.getState().pendingRequestId).to.equal(requestId);
+    expect(await priceFeed.getRequestTokenIds(requestId)).to.deep.equal(TOKEN_IDS.map(BigInt));
+
+    // Without a result the keeper keeps waiting
+    clock.now += 60;
+    await keeper.tick();
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([requestId]);
+
+    await postPrices(fixture.core, requestId, [505000n, 495000n]);
+    clock.now += 60;
+    await keeper.tick();
+    expect(await priceFeed.getAllPrices()).to.deep.equal([505000n, 495000n]);
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([]);
+    expect(keeper.getState().pendingRequestId).to.equal(undefined);
+
+    // Nothing is due before the interval elapsed
+    clock.now += 1800;
+    await keeper.tick();
+    expect(await priceFeed.requestId()).to.equal(requestId);
+
+    clock.now += 1800;
+    await keeper.tick();
+    expect(await priceFeed.requestId()).to.not.equal(requestId);
+    expect(keeper.getState().pendingRequestId).to.equal(await priceFeed.requestId());
+  });
+
+  it('Should transmit early when a price moves past the deviation threshold', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    const midpoints: Record<string, bigint> = { [TOKEN_IDS[0]]: 500000n, [TOKEN_IDS[1]]: 500000n };
+    const { keeper, clock, logs } = createKeeper(priceFeed, {
+      deviation: 5,
+      fetchMidpoint: async (tokenId) => midpoints[tokenId],
+    });
+
+    await keeper.tick();
+    const requestId = await priceFeed.requestId();
+    await postPrices(fixture.core, requestId, [500000n, 500000n]);
+    await keeper.tick();
+
+    // 4% is within the threshold
+    midpoints[TOKEN_IDS[1]] = 480000n;
+    clock.now += 60;
+    await keeper.tick();
+    expect(await priceFeed.requestId()).to.equal(requestId);
+
+    // 6% is not
+    midpoints[TOKEN_IDS[1]] = 530000n;
+    clock.now += 60;
+    await keeper.tick();
+    expect(await priceFeed.requestId()).to.not.equal(requestId);
+    expect(logs).to.include(`Transmitting a request for 2 token(s): token ${TOKEN_IDS[1]} moved from 0.5 to 0.53`);
+  });
+
+  it('Should resume the pending request after a restart', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed, core } = fixture;
+    const stateFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'keeper-')), 'state.json');
+
+    const { keeper } = createKeeper(priceFeed, { stateFile });
+    await keeper.tick();
+    const requestId = await priceFeed.requestId();
+
+    // A new keeper picks up the request instead of transmitting another one
+    const restarted = createKeeper(priceFeed, { stateFile });
+    expect(restarted.keeper.getState().pendingRequestId).to.equal(requestId);
+    expect(restarted.logs).to.include(`Resuming, waiting for request ${requestId}`);
+
+    await postPrices(fixture.core, requestId, [505000n, 495000n]);
+    await restarted.keeper.tick();
+    expect(await priceFeed.getAllPrices()).to.deep.equal([505000n, 495000n]);
+    expect(await priceFeed.requestId()).to.equal(requestId);
+
+    // The state of another PriceFeed is discarded
+    const PriceFeed = await ethers.getContractFactory('PriceFeed');
+    const other = await PriceFeed.deploy(core.getAddress(), ethers.ZeroHash);
+    const { keeper: otherKeeper } = createKeeper(other, { stateFile });
+    expect(otherKeeper.getState()).to.deep.equal({ contract: await other.getAddress(), failures: 0 });
+  });
+
+  it('Should retry failed cycles with exponential backoff', async () => {
+    const { priceFeed, stranger } = await loadFixture(deployPriceFeedFixture);
+    const { keeper, clock } = createKeeper(priceFeed.connect(stranger));
+    const start = clock.now;
+
+    // The stranger is not an operator, so transmitting reverts
+    await keeper.tick();
+    expect(keeper.getState()).to.include({ failures: 1, retryAt: start + 15 });
+
+    // No attempt before the retry time
+    clock.now = start + 10;
+    await keeper.tick();
+    expect(keeper.getState()).to.include({ failures: 1, retryAt: start + 15 });
+
+    clock.now = start + 15;
+    await keeper.tick();
+    expect(keeper.getState()).to.include({ failures: 2, retryAt: start + 45 });
+
+    await priceFeed.setOperator(stranger.address, true);
+    clock.now = start + 45;
+    await keeper.tick();
+    expect(keeper.getState()).to.include({ failures: 0, retryAt: undefined });
+    expect(keeper.getState().pendingRequestId).to.equal(await priceFeed.requestId());
+  });
+
+  it('Should transmit again when a request fails or times out', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    const { keeper, clock, logs } = createKeeper(priceFeed);
+
+    await keeper.tick();
+    const failedRequestId = await priceFeed.requestId();
+    await postPrices(fixture.core, failedRequestId, [505000n, 495000n], { consensus: false });
+
+    clock.now += 60;
+    await keeper.tick();
+    const retriedRequestId = await priceFeed.requestId();
+    expect(retriedRequestId).to.not.equal(failedRequestId);
+    expect(logs).to.include(
+      `Transmitting a request for 2 token(s): request ${failedRequestId} was dropped, no consensus`,
+    );
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([retriedRequestId]);
+
+    // No result within the timeout
+    clock.now += 900;
+    await keeper.tick();
+    expect(await priceFeed.requestId()).to.not.equal(retriedRequestId);
+    expect(logs).to.include(
+      `Transmitting a request for 2 token(s): request ${retriedRequestId} timed out after 15m 0s`,
+    );
+  });
+
+  it('Should stop tracking a request the guard rejected', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    const { keeper, clock, logs } = createKeeper(priceFeed);
+
+    await keeper.tick();
+    await postPrices(fixture.core, await priceFeed.requestId(), [505000n, 495000n]);
+    await keeper.tick();
+
+    // 0.505 -> 0.905 moves further than the maximum deviation
+    await priceFeed.setMaxDeviation(200000n);
+    clock.now += 3600;
+    await keeper.tick();
+    const rejectedRequestId = await priceFeed.requestId();
+    await postPrices(fixture.core, rejectedRequestId, [905000n, 95000n]);
+    clock.now += 60;
+    await keeper.tick();
+
+    expect(await priceFeed.paused()).to.equal(true);
+    expect(logs).to.include(
+      `Transmitting a request for 2 token(s): request ${rejectedRequestId} was dropped, the guard rejected its result and tripped the circuit breaker`,
+    );
+
+    // The new request waits for the owner to reset the breaker
+    const retriedRequestId = await priceFeed.requestId();
+    expect(keeper.getState().pendingRequestId).to.equal(retriedRequestId);
+    await postPrices(fixture.core, retriedRequestId, [515000n, 485000n]);
+    clock.now += 60;
+    await keeper.tick();
+    expect(await priceFeed.isPending(retriedRequestId)).to.equal(true);
+
+    await priceFeed.resetCircuitBreaker();
+    clock.now += 60;
+    await keeper.tick();
+    expect(await priceFeed.getAllPrices()).to.deep.equal([515000n, 485000n]);
+    expect(keeper.getState().pendingRequestId).to.equal(undefined);
+  });
+});
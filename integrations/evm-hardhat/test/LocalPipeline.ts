@@ -0,0 +1,187 @@
+import * as fs from 'node:fs';
+import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
+import { expect } from 'chai';
+import hre, { ethers } from 'hardhat';
+import { OUTCOME_SET_VIOLATION_EXIT_CODE, PriceStatus } from '../../../packages/client/src';
+import { ClobMock } from '../../../packages/client/src/clob-mock';
+import { DEFAULT_WASM_PATH, postLocalResult, requestInputs } from '../tasks/relay';
+import { deployPriceFeedFixture } from './helpers';
+
+const YES_TOKEN = '47060861968389645577251408086188258199430417779776802737050665875266354301946';
+const NO_TOKEN = '12905796939799815677187294753823746821359945387637800747970148392857538825639';
+
+describe('Relay inputs', () => {
+  it('Should forward the execution inputs the PriceFeed posted', async () => {
+    const { priceFeed, core } = await loadFixture(deployPriceFeedFixture);
+    await priceFeed.setMarketFields(0x05);
+
+    await priceFeed.transmitTwap([YES_TOKEN, NO_TOKEN], 240, 60, 0, 0, 0);
+    const { execInputs } = await requestInputs(priceFeed, await priceFeed.requestId());
+    expect(execInputs).to.deep.equal(ethers.getBytes(await core.lastExecInputs()));
+  });
+
+  it('Should forward the tally inputs the PriceFeed posted', async () => {
+    const { priceFeed } = await loadFixture(deployPriceFeedFixture);
+
+    await priceFeed.transmitOutcomeSets([YES_TOKEN, NO_TOKEN], [2], 50000, 0, 0, 0);
+    const { tallyInputs } = await requestInputs(priceFeed, await priceFeed.requestId());
+    expect(Buffer.from(tallyInputs).toString()).to.equal(
+      '{"outcome_sets":[[0,1]],"tolerance":"0.050000","normalize":true}',
+    );
+  });
+
+  it('Should reject requests the PriceFeed did not post inputs for', async () => {
+    const { priceFeed } = await loadFixture(deployPriceFeedFixture);
+
+    await expect(requestInputs(priceFeed, ethers.ZeroHash)).to.be.rejectedWith(
+      'PriceFeed posted no inputs for request',
+    );
+  });
+});
+
+// Runs the oracle program build in the SEDA VM, skipped until the repository root is built (`bun run build`)
+describe('Local pipeline', () => {
+  before(function () {
+    try {
+      require.resolve('@seda-protocol/dev-tools');
+    } catch {
+      this.skip();
+    }
+    if (!fs.existsSync(DEFAULT_WASM_PATH)) {
+      this.skip();
+    }
+  });
+
+  it('Should apply the tally of the oracle program to the PriceFeed', async () => {
+    const { priceFeed, core } = await loadFixture(deployPriceFeedFixture);
+    const clob = new ClobMock({
+      midpoints: { [YES_TOKEN]: '0.505', [NO_TOKEN]: '0.495' },
+      books: { [YES_TOKEN]: { bids: ['0.5', '0.49'], asks: ['0.51', '0.52'] } },
+      lastTrades: { [YES_TOKEN]: '0.503' },
+    });
+
+    await priceFeed.transmit([YES_TOKEN, NO_TOKEN], 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+
+    const local = await postLocalResult(hre, priceFeed, requestId, { fetch: clob.fetch });
+    expect(local.exitCode).to.equal(0);
+    expect(await core.hasResult(requestId)).to.equal(true);
+
+    await priceFeed.updateLatestAnswers(requestId);
+    expect(await priceFeed.getAllPrices()).to.deep.equal([505000n, 495000n]);
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([]);
+
+    const yes = await priceFeed.getFeed(YES_TOKEN);
+    expect(yes.status).to.equal(PriceStatus.Ok);
+    expect([yes.marketData.bid, yes.marketData.ask, yes.marketData.spread, yes.marketData.lastTrade]).to.deep.equal([
+      500000n,
+      510000n,
+      10000n,
+      503000n,
+    ]);
+  });
+
+  it('Should fetch the TWAP of TWAP requests', async () => {
+    const { priceFeed } = await loadFixture(deployPriceFeedFixture);
+    const clob = new ClobMock({
+      midpoints: { [YES_TOKEN]: '0.62' },
+      histories: {
+        [YES_TOKEN]: [
+          { t: 1700000000, p: 0.5 },
+          { t: 1700000060, p: 0.5 },
+          { t: 1700000120, p: 0.5 },
+          { t: 1700000180, p: 0.62 },
+        ],
+      },
+      now: 1700000240,
+    });
+
+    await priceFeed.transmitTwap([YES_TOKEN], 240, 60, 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+
+    await postLocalResult(hre, priceFeed, requestId, { fetch: clob.fetch, replicationFactor: 1 });
+    await priceFeed.updateLatestAnswers(requestId);
+
+    const yes = await priceFeed.getFeed(YES_TOKEN);
+    expect(yes.price).to.equal(620000n);
+    expect(yes.marketData.twap).to.equal(530000n);
+    expect(clob.requests.some((url) => url.pathname === '/prices-history')).to.equal(true);
+  });
+
+  it('Should normalize outcome sets and drop violated sets', async () => {
+    const { priceFeed } = await loadFixture(deployPriceFeedFixture);
+    const clob = new ClobMock({ midpoints: { [YES_TOKEN]: '0.505', [NO_TOKEN]: '0.515' } });
+
+    await priceFeed.transmitOutcomeSets([YES_TOKEN, NO_TOKEN], [2], 50000n, 0, 0, 0);
+    const checked = await priceFeed.requestId();
+    await postLocalResult(hre, priceFeed, checked, { fetch: clob.fetch, replicationFactor: 1 });
+    await priceFeed.updateLatestAnswers(checked);
+
+    expect(await priceFeed.getProbabilityByTokenId(YES_TOKEN)).to.equal(495098n);
+    expect(await priceFeed.getProbabilityByTokenId(NO_TOKEN)).to.equal(504902n);
+
+    // 1.02 is further from 1 than a tolerance of 0.01
+    await priceFeed.transmitOutcomeSets([YES_TOKEN, NO_TOKEN], [2], 10000n, 0, 0, 0);
+    const violated = await priceFeed.requestId();
+    const local = await postLocalResult(hre, priceFeed, violated, { fetch: clob.fetch, replicationFactor: 1 });
+    expect(local.exitCode).to.equal(OUTCOME_SET_VIOLATION_EXIT_CODE);
+
+    await expect(priceFeed.updateLatestAnswers(violated))
+      .to.emit(priceFeed, 'RequestDropped')
+      .withArgs(violated, true, OUTCOME_SET_VIOLATION_EXIT_CODE);
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([]);
+  });
+
+  it('Should store the final outcome of a resolved market', async () => {
+    const { priceFeed } = await loadFixture(deployPriceFeedFixture);
+    const clob = new ClobMock({
+      markets: [
+        {
+          conditionId: `0x${'ab'.repeat(32)}`,
+          slug: 'will-it-rain-tomorrow',
+          question: 'Will it rain tomorrow?',
+          outcomes: [
+            { outcome: 'Yes', tokenId: YES_TOKEN },
+            { outcome: 'No', tokenId: NO_TOKEN },
+          ],
+          closed: true,
+          outcomePrices: ['1', '0'],
+        },
+      ],
+    });
+
+    await priceFeed.transmit([YES_TOKEN, NO_TOKEN], 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+    await postLocalResult(hre, priceFeed, requestId, { fetch: clob.fetch, replicationFactor: 1 });
+    await priceFeed.updateLatestAnswers(requestId);
+
+    expect(await priceFeed.getAllStatuses()).to.deep.equal([
+      BigInt(PriceStatus.Resolved),
+      BigInt(PriceStatus.Resolved),
+    ]);
+    expect(await priceFeed.getPriceByTokenId(YES_TOKEN)).to.equal(1_000_000n);
+    expect((await priceFeed.getResolution(NO_TOKEN)).resolved).to.equal(true);
+  });
+
+  it('Should store tokens the CLOB does not know as unavailable', async () => {
+    const { priceFeed } = await loadFixture(deployPriceFeedFixture);
+    const clob = new ClobMock({ midpoints: { [YES_TOKEN]: '0.62' } });
+
+    await priceFeed.transmit([YES_TOKEN, NO_TOKEN], 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+
+    await postLocalResult(hre, priceFeed, requestId, { fetch: clob.fetch, replicationFactor: 2 });
+    await priceFeed.updateLatestAnswers(requestId);
+
+    expect((await priceFeed.getFeed(YES_TOKEN)).price).to.equal(620000n);
+    expect((await priceFeed.getFeed(NO_TOKEN)).status).to.equal(PriceStatus.FetchFailed);
+  });
+
+  it('Should reject requests the PriceFeed did not transmit', async () => {
+    const { priceFeed } = await loadFixture(deployPriceFeedFixture);
+
+    await expect(postLocalResult(hre, priceFeed, ethers.ZeroHash)).to.be.rejectedWith(
+      `Request ${ethers.ZeroHash} was not transmitted through this PriceFeed`,
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { networks, validateNetworks } from '../networks';
+import { getSedaConfig } from '../tasks/utils';
+
+describe('Networks', () => {
+  it('Should configure every registry network in Hardhat and seda.config', () => {
+    for (const [name, network] of Object.entries(networks)) {
+      const config = hre.config.networks[name];
+      expect(config, name).to.include({ chainId: network.chainId });
+      expect(getSedaConfig(name).coreAddress).to.equal(network.coreAddress);
+    }
+
+    // The Hardhat network name, Core addresses used to be keyed by `chiado`
+    expect(getSedaConfig('gnosisChiado').rpc).to.equal('https://rpc.testnet.seda.xyz');
+  });
+
+  it('Should reject invalid networks', () => {
+    const valid = {
+      url: 'https://sepolia.base.org',
+      chainId: 84532,
+      coreAddress: '0xffdb1d9bbe4d56780143428450c4c2058061e6f3',
+      seda: 'testnet' as const,
+    };
+
+    expect(validateNetworks({ baseSepolia: { ...valid } }).baseSepolia.coreAddress).to.equal(
+      '0xffDB1d9bBE4D56780143428450c4C2058061E6F3',
+    );
+    expect(() =>
+      validateNetworks({
+        a: { ...valid, url: 'sepolia.base.org' },
+        b: { ...valid, coreAddress: '0x1234' },
+        c: { ...valid, chainId: 0 },
+      }),
+    ).to.throw(
+      [
+        'Invalid network configuration:',
+        '  a: invalid RPC URL "sepolia.base.org"',
+        '  b: chain ID 84532 is already used by a',
+        '  b: invalid SEDA Core address "0x1234"',
+        '  c: invalid chain ID 0',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { deployPriceFeedFixture, postPrices } from './helpers';
+
+/**
+ * Gas benchmark of the token ID handling: the uint256[] PriceFeed against the string-based design it replaced
+ * (StringTokenIdsPriceFeed). Prints a table with the cost of transmitting and of looking up one price.
+ */
+describe('PriceFeed gas benchmark', () => {
+  const TOKEN_COUNTS = [1, 10, 50];
+
+  // Realistic 77-digit Polymarket token IDs
+  const tokenIdsOf = (count: number) =>
+    Array.from(
+      { length: count },
+      (_, index) => 47060861968389645577251408086188258199430417779776802737050665875266354301946n + BigInt(index),
+    );
+
+  async function measure(count: number) {
+    const tokenIds = tokenIdsOf(count);
+    const lastTokenId = tokenIds[tokenIds.length - 1];
+
+    const { priceFeed, core } = await deployPriceFeedFixture();
+    const StringTokenIdsPriceFeed = await ethers.getContractFactory('StringTokenIdsPriceFeed');
+    const legacy = await StringTokenIdsPriceFeed.deploy(core.getAddress(), ethers.id('legacy'));
+
+    // Before: comma-separated string, split and stored as strings, linear lookup
+    const legacyTransmit = await (await legacy.transmit(tokenIds.join(','))).wait();
+    await legacy.setPrices(tokenIds.map(() => 505000n));
+    const legacyLookup = await legacy.getPriceByTokenId.estimateGas(lastTokenId.toString());
+
+    // After: uint256[] token IDs and a mapping per token ID
+    const transmit = await (await priceFeed.transmit(tokenIds, 0, 0, 0)).wait();
+    const requestId = await priceFeed.requestId();
+    await postPrices(
+      core,
+      requestId,
+      tokenIds.map(() => 505000n),
+    );
+    await priceFeed.updateLatestAnswers(requestId);
+    const lookup = await priceFeed.getPriceByTokenId.estimateGas(lastTokenId);
+
+    return {
+      tokens: count,
+      'transmit before': legacyTransmit?.gasUsed ?? 0n,
+      'transmit after': transmit?.gasUsed ?? 0n,
+      'lookup before': legacyLookup,
+      'lookup after': lookup,
+    };
+  }
+
+  it('Should transmit and look up prices cheaper than string token IDs', async () => {
+    const rows = [];
+    for (const count of TOKEN_COUNTS) {
+      rows.push(await measure(count));
+    }
+    console.table(
+      rows.map((row) => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, String(value)]))),
+    );
+
+    for (const row of rows) {
+      expect(row['transmit after']).to.be.lessThan(row['transmit before']);
+    }
+
+    // Lookups no longer depend on the number of tokens
+    const lookups = rows.map((row) => row['lookup after']);
+    expect(lookups[lookups.length - 1] - lookups[0]).to.be.lessThan(1000n);
+    expect(rows[rows.length - 1]['lookup after']).to.be.lessThan(rows[rows.length - 1]['lookup before']);
+  });
+});
@@ -1,27 +1,23 @@
-import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
-import MockSedaCore from '@seda-protocol/evm/artifacts/contracts/mocks/MockSedaCore.sol/MockSedaCore.json';
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
+import { encodeTallyResult, PriceStatus, type TokenPriceInput, toHex } from '../../../packages/client/src';
+import { deployPriceFeedFixture, type PriceFeedFixture, postPrices } from './helpers';
 
 describe('PriceFeed Contract', () => {
-  // Setup the fixture to deploy contracts
-  async function deployPriceFeedFixture() {
-    const [admin] = await ethers.getSigners();
-
-    // A Data Request WASM binary ID (mock value)
-    const oracleProgramId = ethers.ZeroHash;
-
-    // Deploy MockSedaCore
-    const SedaCore = await ethers.getContractFactoryFromArtifact(MockSedaCore);
-
-    // Deploy without constructor arguments as the mock doesn't have the expected constructor
-    const core = await SedaCore.deploy();
-
-    // Deploy the PriceFeed contract
-    const PriceFeed = await ethers.getContractFactory('PriceFeed');
-    const priceFeed = await PriceFeed.deploy(core.getAddress(), oracleProgramId);
-
-    return { priceFeed, core, admin };
+  // Transmits a request for the given token IDs, posts a result with their prices and returns the request ID.
+  // Plain prices are Ok, a full entry also carries a status or order-book data
+  async function transmitAndPost(
+    { priceFeed, core }: PriceFeedFixture,
+    tokenIds: bigint[],
+    prices: (bigint | TokenPriceInput)[],
+    blockTimestamp: number,
+    blockHeight = 0,
+  ) {
+    await priceFeed.transmit(tokenIds, 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+    await postPrices(core, requestId, prices, { blockHeight, blockTimestamp });
+    return requestId;
   }
 
   /**
@@ -43,11 +39,12 @@ describe('PriceFeed Contract', () => {
     const { priceFeed, core } = await loadFixture(deployPriceFeedFixture);
 
     // Transmit the data request (but no result set)
-    const tokenIds = "47060861968389645577251408086188258199430417779776802737050665875266354301946";
+    const tokenIds = [47060861968389645577251408086188258199430417779776802737050665875266354301946n];
     await priceFeed.transmit(tokenIds, 0, 0, 0);
+    const dataRequestId = await priceFeed.requestId();
 
     // updateLatestAnswers should revert due to no data result being set
-    await expect(priceFeed.updateLatestAnswers()).to.be.revertedWithCustomError(core, 'ResultNotFound');
+    await expect(priceFeed.updateLatestAnswers(dataRequestId)).to.be.revertedWithCustomError(core, 'ResultNotFound');
   });
 
   /**
@@ -58,13 +55,16 @@ describe('PriceFeed Contract', () => {
     const { priceFeed, core } = await loadFixture(deployPriceFeedFixture);
 
     // Transmit a data request with multiple token IDs
-    const tokenIds = "47060861968389645577251408086188258199430417779776802737050665875266354301946,47060861968389645577251408086188258199430417779776802737050665875266354301947";
+    const tokenIds = [
+      47060861968389645577251408086188258199430417779776802737050665875266354301946n,
+      47060861968389645577251408086188258199430417779776802737050665875266354301947n,
+    ];
     await priceFeed.transmit(tokenIds, 0, 0, 0);
     const dataRequestId = await priceFeed.requestId();
 
     // Set a data result with consensus - encoding array of prices
-    const prices = [BigInt(1800750000), BigInt(1801250000)]; // Mock prices: 1800.75, 1801.25 (scaled by 1e6)
-    const resultValue = new ethers.AbiCoder().encode(['uint256[]'], [prices]);
+    const prices = [BigInt(505000), BigInt(495000)]; // Mock prices: 0.505, 0.495 (scaled by 1e6)
+    const resultValue = toHex(encodeTallyResult(prices.map((price) => ({ status: PriceStatus.Ok, price }))));
     const result = {
       version: '0.0.1',
       drId: dataRequestId,
@@ -80,19 +80,19 @@ describe('PriceFeed Contract', () => {
     await core.postResult(result, 0, []);
 
     // Update the latest answers
-    await priceFeed.updateLatestAnswers();
+    await priceFeed.updateLatestAnswers(dataRequestId);
 
     // Check individual token prices
     const price0 = await priceFeed.getPrice(0);
     const price1 = await priceFeed.getPrice(1);
-    expect(price0).to.equal(1800750000);
-    expect(price1).to.equal(1801250000);
+    expect(price0).to.equal(505000);
+    expect(price1).to.equal(495000);
 
     // Check all prices
     const allPrices = await priceFeed.getAllPrices();
     expect(allPrices.length).to.equal(2);
-    expect(allPrices[0]).to.equal(1800750000);
-    expect(allPrices[1]).to.equal(1801250000);
+    expect(allPrices[0]).to.equal(505000);
+    expect(allPrices[1]).to.equal(495000);
 
     // Check token count
     const tokenCount = await priceFeed.getTokenCount();
@@ -100,7 +100,7 @@ describe('PriceFeed Contract', () => {
 
     // Check legacy latestAnswer (should return first price)
     const latestAnswer = await priceFeed.latestAnswer();
-    expect(latestAnswer).to.equal(1800750000);
+    expect(latestAnswer).to.equal(505000);
   });
 
   /**
@@ -111,13 +111,13 @@ describe('PriceFeed Contract', () => {
     const { priceFeed, core } = await loadFixture(deployPriceFeedFixture);
 
     // Transmit a data request
-    const tokenIds = "47060861968389645577251408086188258199430417779776802737050665875266354301946";
+    const tokenIds = [47060861968389645577251408086188258199430417779776802737050665875266354301946n];
     await priceFeed.transmit(tokenIds, 0, 0, 0);
     const dataRequestId = await priceFeed.requestId();
 
     // Set a data result without consensus (false)
     const prices = [BigInt(100)]; // Mock value
-    const resultValue = new ethers.AbiCoder().encode(['uint256[]'], [prices]);
+    const resultValue = toHex(encodeTallyResult(prices.map((price) => ({ status: PriceStatus.Ok, price }))));
     const result = {
       version: '0.0.1',
       drId: dataRequestId,
@@ -133,9 +133,15 @@ describe('PriceFeed Contract', () => {
     await core.postResult(result, 0, []);
 
     // updateLatestAnswers should return false since no consensus was reached
-    const success = await priceFeed.updateLatestAnswers.staticCall();
+    const success = await priceFeed.updateLatestAnswers.staticCall(dataRequestId);
     expect(success).to.equal(false);
 
+    // The result is final, the request is dropped instead of staying pending forever
+    await expect(priceFeed.updateLatestAnswers(dataRequestId))
+      .to.emit(priceFeed, 'RequestDropped')
+      .withArgs(dataRequestId, false, 0);
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([]);
+
     // Prices array should be empty
     const allPrices = await priceFeed.getAllPrices();
     expect(allPrices.length).to.equal(0);
@@ -157,7 +163,10 @@ describe('PriceFeed Contract', () => {
     expect(dataRequestId).to.be.equal(ethers.ZeroHash);
 
     // Call the transmit function with multiple token IDs
-    const tokenIds = "47060861968389645577251408086188258199430417779776802737050665875266354301946,47060861968389645577251408086188258199430417779776802737050665875266354301947";
+    const tokenIds = [
+      47060861968389645577251408086188258199430417779776802737050665875266354301946n,
+      47060861968389645577251408086188258199430417779776802737050665875266354301947n,
+    ];
     await priceFeed.transmit(tokenIds, 0, 0, 0);
 
     // Check that the data request ID is valid and stored correctly
@@ -173,12 +182,12 @@ describe('PriceFeed Contract', () => {
     const { priceFeed, core } = await loadFixture(deployPriceFeedFixture);
 
     // Transmit a data request and set up one price
-    const tokenIds = "47060861968389645577251408086188258199430417779776802737050665875266354301946";
+    const tokenIds = [47060861968389645577251408086188258199430417779776802737050665875266354301946n];
     await priceFeed.transmit(tokenIds, 0, 0, 0);
     const dataRequestId = await priceFeed.requestId();
 
-    const prices = [BigInt(1800750000)];
-    const resultValue = new ethers.AbiCoder().encode(['uint256[]'], [prices]);
+    const prices = [BigInt(505000)];
+    const resultValue = toHex(encodeTallyResult(prices.map((price) => ({ status: PriceStatus.Ok, price }))));
     const result = {
       version: '0.0.1',
       drId: dataRequestId,
@@ -192,13 +201,943 @@ describe('PriceFeed Contract', () => {
       sedaPayload: ethers.ZeroHash,
     };
     await core.postResult(result, 0, []);
-    await priceFeed.updateLatestAnswers();
+    await priceFeed.updateLatestAnswers(dataRequestId);
 
     // Accessing index 0 should work
     const price0 = await priceFeed.getPrice(0);
-    expect(price0).to.equal(1800750000);
+    expect(price0).to.equal(505000);
 
     // Accessing index 1 should revert (out of bounds)
     await expect(priceFeed.getPrice(1)).to.be.revertedWithCustomError(priceFeed, 'InvalidTokenIndex');
   });
+
+  /**
+   * Test Case 7: Partial failure
+   * Ensure that a token the oracle could not price keeps its slot and is reported as unavailable.
+   */
+  it('Should keep prices aligned with token IDs when a token fails', async () => {
+    const { priceFeed, core } = await loadFixture(deployPriceFeedFixture);
+
+    const tokenIds = [
+      47060861968389645577251408086188258199430417779776802737050665875266354301946n,
+      47060861968389645577251408086188258199430417779776802737050665875266354301947n,
+      47060861968389645577251408086188258199430417779776802737050665875266354301948n,
+    ];
+    await priceFeed.transmit(tokenIds, 0, 0, 0);
+    const dataRequestId = await priceFeed.requestId();
+
+    const resultValue = toHex(
+      encodeTallyResult([
+        { status: PriceStatus.FetchFailed, price: 0n },
+        { status: PriceStatus.Ok, price: 495000n },
+        { status: PriceStatus.ParseFailed, price: 0n },
+      ]),
+    );
+    const result = {
+      version: '0.0.1',
+      drId: dataRequestId,
+      consensus: true,
+      exitCode: 0,
+      result: resultValue,
+      blockHeight: 0,
+      blockTimestamp: Math.floor(Date.now() / 1000) + 3600,
+      gasUsed: 0,
+      paybackAddress: ethers.ZeroAddress,
+      sedaPayload: ethers.ZeroHash,
+    };
+    await core.postResult(result, 0, []);
+    await priceFeed.updateLatestAnswers(dataRequestId);
+
+    // The priced token keeps its own index
+    expect(await priceFeed.getPrice(1)).to.equal(495000);
+    expect(await priceFeed.getPriceByTokenId(tokenIds[1])).to.equal(495000);
+
+    // Failed tokens are reported as unavailable with their status
+    await expect(priceFeed.getPrice(0))
+      .to.be.revertedWithCustomError(priceFeed, 'PriceUnavailable')
+      .withArgs(PriceStatus.FetchFailed);
+    await expect(priceFeed.getPriceByTokenId(tokenIds[2]))
+      .to.be.revertedWithCustomError(priceFeed, 'PriceUnavailable')
+      .withArgs(PriceStatus.ParseFailed);
+
+    expect(await priceFeed.getAllPrices()).to.deep.equal([0n, 495000n, 0n]);
+    expect(await priceFeed.getAllStatuses()).to.deep.equal([
+      BigInt(PriceStatus.FetchFailed),
+      BigInt(PriceStatus.Ok),
+      BigInt(PriceStatus.ParseFailed),
+    ]);
+  });
+
+  /**
+   * Test Case 8: Order-book data
+   * Ensure that the bid, ask, spread and last trade are stored next to each price.
+   */
+  it('Should store the order-book data of every token', async () => {
+    const { priceFeed, core } = await loadFixture(deployPriceFeedFixture);
+
+    const tokenIds = [
+      47060861968389645577251408086188258199430417779776802737050665875266354301946n,
+      47060861968389645577251408086188258199430417779776802737050665875266354301947n,
+    ];
+    await priceFeed.transmit(tokenIds, 0, 0, 0);
+    const dataRequestId = await priceFeed.requestId();
+
+    const resultValue = toHex(
+      encodeTallyResult([
+        { status: PriceStatus.Ok, price: 505000n, bid: 500000n, ask: 510000n, spread: 10000n, lastTrade: 520000n },
+        { status: PriceStatus.FetchFailed, price: 0n },
+      ]),
+    );
+    const result = {
+      version: '0.0.1',
+      drId: dataRequestId,
+      consensus: true,
+      exitCode: 0,
+      result: resultValue,
+      blockHeight: 0,
+      blockTimestamp: Math.floor(Date.now() / 1000) + 3600,
+      gasUsed: 0,
+      paybackAddress: ethers.ZeroAddress,
+      sedaPayload: ethers.ZeroHash,
+    };
+    await core.postResult(result, 0, []);
+    await priceFeed.updateLatestAnswers(dataRequestId);
+
+    const marketData = await priceFeed.getMarketData(0);
+    expect(marketData.bid).to.equal(500000);
+    expect(marketData.ask).to.equal(510000);
+    expect(marketData.spread).to.equal(10000);
+    expect(marketData.lastTrade).to.equal(520000);
+
+    await expect(priceFeed.getMarketData(1))
+      .to.be.revertedWithCustomError(priceFeed, 'PriceUnavailable')
+      .withArgs(PriceStatus.FetchFailed);
+
+    const allMarketData = await priceFeed.getAllMarketData();
+    expect(allMarketData.length).to.equal(2);
+    expect(allMarketData[1].bid).to.equal(0);
+  });
+
+  /**
+   * Test Case 9: Misaligned result
+   * Ensure that a result with a different number of prices than requested tokens is dropped.
+   */
+  it('Should drop the result if it does not hold one price per token', async () => {
+    const { priceFeed, core } = await loadFixture(deployPriceFeedFixture);
+
+    const tokenIds = [
+      47060861968389645577251408086188258199430417779776802737050665875266354301946n,
+      47060861968389645577251408086188258199430417779776802737050665875266354301947n,
+    ];
+    await priceFeed.transmit(tokenIds, 0, 0, 0);
+    const dataRequestId = await priceFeed.requestId();
+
+    const resultValue = toHex(encodeTallyResult([{ status: PriceStatus.Ok, price: 505000n }]));
+    const result = {
+      version: '0.0.1',
+      drId: dataRequestId,
+      consensus: true,
+      exitCode: 0,
+      result: resultValue,
+      blockHeight: 0,
+      blockTimestamp: Math.floor(Date.now() / 1000) + 3600,
+      gasUsed: 0,
+      paybackAddress: ethers.ZeroAddress,
+      sedaPayload: ethers.ZeroHash,
+    };
+    await core.postResult(result, 0, []);
+
+    expect(await priceFeed.updateLatestAnswers.staticCall(dataRequestId)).to.equal(false);
+    await expect(priceFeed.updateLatestAnswers(dataRequestId))
+      .to.emit(priceFeed, 'RequestDropped')
+      .withArgs(dataRequestId, true, 0);
+    expect(await priceFeed.isPending(dataRequestId)).to.equal(false);
+    expect(await priceFeed.getTokenCount()).to.equal(0);
+  });
+
+  /**
+   * Test Case 10: Rounds and timestamps
+   * Ensure that every new result starts a round that records the SEDA block timestamp and height.
+   */
+  it('Should record a round with the result timestamp for every update', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    const tokenId = 47060861968389645577251408086188258199430417779776802737050665875266354301946n;
+    const now = await time.latest();
+
+    expect(await priceFeed.latestRoundId()).to.equal(0);
+
+    const firstRequestId = await transmitAndPost(fixture, [tokenId], [505000n], now - 60, 100);
+    await expect(priceFeed.updateLatestAnswers(firstRequestId))
+      .to.emit(priceFeed, 'RoundRecorded')
+      .withArgs(1, firstRequestId, now - 60, 100);
+
+    // Applying the same result again does not start a new round
+    expect(await priceFeed.updateLatestAnswers.staticCall(firstRequestId)).to.equal(true);
+    await priceFeed.updateLatestAnswers(firstRequestId);
+    expect(await priceFeed.latestRoundId()).to.equal(1);
+
+    const secondRequestId = await transmitAndPost(fixture, [tokenId], [510000n], now - 30, 110);
+    await priceFeed.updateLatestAnswers(secondRequestId);
+
+    expect(await priceFeed.latestRoundId()).to.equal(2);
+    expect(await priceFeed.latestTimestamp()).to.equal(now - 30);
+    const round = await priceFeed.rounds(2);
+    expect(round.blockHeight).to.equal(110);
+    expect(round.requestId).to.equal(secondRequestId);
+
+    const [roundId, answer, startedAt, updatedAt, answeredInRound] = await priceFeed.latestRoundData();
+    expect(roundId).to.equal(2);
+    expect(answer).to.equal(510000);
+    expect(startedAt).to.equal(now - 30);
+    expect(updatedAt).to.equal(now - 30);
+    expect(answeredInRound).to.equal(2);
+    expect((await priceFeed.getRoundData(1)).answer).to.equal(505000);
+    expect(await priceFeed.latestAnswer()).to.equal(510000);
+  });
+
+  /**
+   * Test Case 11: Price history
+   * Ensure that past prices stay available per token ID, and that a request only updates its own tokens.
+   */
+  it('Should keep the price history of every token', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    const yesToken = 47060861968389645577251408086188258199430417779776802737050665875266354301946n;
+    const noToken = 47060861968389645577251408086188258199430417779776802737050665875266354301947n;
+    const now = await time.latest();
+
+    await priceFeed.updateLatestAnswers(
+      await transmitAndPost(fixture, [yesToken, noToken], [505000n, 495000n], now - 20),
+    );
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [noToken], [490000n], now - 10));
+
+    expect(await priceFeed.getPriceHistoryLength(yesToken)).to.equal(1);
+    expect(await priceFeed.getPriceHistoryLength(noToken)).to.equal(2);
+
+    const history = await priceFeed.getPriceHistory(noToken, 10);
+    expect(history.map((point) => [point.roundId, point.timestamp, point.price])).to.deep.equal([
+      [1n, BigInt(now - 20), 495000n],
+      [2n, BigInt(now - 10), 490000n],
+    ]);
+    expect((await priceFeed.getPriceHistory(noToken, 1))[0].price).to.equal(490000);
+
+    expect((await priceFeed.getRoundDataByTokenId(yesToken, 1)).answer).to.equal(505000);
+    expect((await priceFeed.latestRoundDataByTokenId(noToken)).answer).to.equal(490000);
+    await expect(priceFeed.getRoundDataByTokenId(yesToken, 2))
+      .to.be.revertedWithCustomError(priceFeed, 'RoundNotFound')
+      .withArgs(2);
+
+    // The second request left the other token at its own latest round
+    const [roundId, answer] = await priceFeed.latestRoundDataByTokenId(yesToken);
+    expect(roundId).to.equal(1);
+    expect(answer).to.equal(505000);
+    expect(await priceFeed.getAllPrices()).to.deep.equal([505000n, 490000n]);
+  });
+
+  /**
+   * Test Case 12: Staleness
+   * Ensure that reads with a maximum age revert once the latest price is older than that.
+   */
+  it('Should revert on stale reads', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    const tokenId = 47060861968389645577251408086188258199430417779776802737050665875266354301946n;
+
+    await expect(priceFeed.getPriceNoOlderThan(0, 3600)).to.be.revertedWithCustomError(priceFeed, 'NoRoundData');
+
+    const updatedAt = (await time.latest()) - 600;
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [tokenId], [505000n], updatedAt));
+
+    expect(await priceFeed.getPriceNoOlderThan(0, 3600)).to.equal(505000);
+    expect(await priceFeed.getPriceByTokenIdNoOlderThan(tokenId, 3600)).to.equal(505000);
+
+    await time.increase(3600);
+    await expect(priceFeed.getPriceNoOlderThan(0, 3600))
+      .to.be.revertedWithCustomError(priceFeed, 'StalePrice')
+      .withArgs(updatedAt, 3600);
+    await expect(priceFeed.getPriceByTokenIdNoOlderThan(tokenId, 3600)).to.be.revertedWithCustomError(
+      priceFeed,
+      'StalePrice',
+    );
+
+    // Plain reads leave the staleness check to the caller
+    expect(await priceFeed.getPrice(0)).to.equal(505000);
+  });
+
+  /**
+   * Test Case 13: Concurrent requests
+   * Ensure that several requests can be pending at once and each result only updates its own tokens.
+   */
+  it('Should track concurrent requests and apply each result to its own tokens', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    const marketA = 47060861968389645577251408086188258199430417779776802737050665875266354301946n;
+    const marketB = 47060861968389645577251408086188258199430417779776802737050665875266354301947n;
+    const now = await time.latest();
+
+    await expect(priceFeed.updateLatestAnswers(ethers.ZeroHash))
+      .to.be.revertedWithCustomError(priceFeed, 'UnknownRequest')
+      .withArgs(ethers.ZeroHash);
+    await expect(priceFeed.transmit([], 0, 0, 0)).to.be.revertedWithCustomError(priceFeed, 'NoTokenIds');
+
+    const requestA = await transmitAndPost(fixture, [marketA], [505000n], now - 20);
+    const requestB = await transmitAndPost(fixture, [marketB, marketA], [300000n, 510000n], now - 10);
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([requestA, requestB]);
+    expect(await priceFeed.getRequestTokenIds(requestB)).to.deep.equal([marketB, marketA]);
+
+    // The newer request lands first, the older one must not roll market A back
+    await priceFeed.updateLatestAnswers(requestB);
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([requestA]);
+    await priceFeed.updateLatestAnswers(requestA);
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([]);
+    expect(await priceFeed.isPending(requestA)).to.equal(false);
+
+    expect(await priceFeed.getPriceByTokenId(marketA)).to.equal(510000);
+    expect(await priceFeed.getPriceByTokenId(marketB)).to.equal(300000);
+    expect(await priceFeed.getAllTokenIds()).to.deep.equal([marketB, marketA]);
+
+    // The older result is still part of market A's history
+    const history = await priceFeed.getPriceHistory(marketA, 10);
+    expect(history.map((point) => [point.roundId, point.price])).to.deep.equal([
+      [1n, 510000n],
+      [2n, 505000n],
+    ]);
+  });
+
+  /**
+   * Test Case 14: Operators
+   * Ensure that only the owner and the operators it appoints can transmit requests.
+   */
+  it('Should only let the owner and operators transmit', async () => {
+    const { priceFeed, admin, operator, stranger } = await loadFixture(deployPriceFeedFixture);
+    const tokenId = 47060861968389645577251408086188258199430417779776802737050665875266354301946n;
+
+    expect(await priceFeed.owner()).to.equal(admin.address);
+    await expect(priceFeed.connect(stranger).transmit([tokenId], 0, 0, 0))
+      .to.be.revertedWithCustomError(priceFeed, 'NotOperator')
+      .withArgs(stranger.address);
+
+    // Only the owner manages operators
+    await expect(priceFeed.connect(stranger).setOperator(stranger.address, true))
+      .to.be.revertedWithCustomError(priceFeed, 'NotOwner')
+      .withArgs(stranger.address);
+    await expect(priceFeed.setOperator(operator.address, true))
+      .to.emit(priceFeed, 'OperatorUpdated')
+      .withArgs(operator.address, true);
+
+    await priceFeed.connect(operator).transmit([tokenId], 0, 0, 0);
+    expect(await priceFeed.getPendingRequests()).to.have.length(1);
+
+    await priceFeed.setOperator(operator.address, false);
+    await expect(priceFeed.connect(operator).transmit([tokenId], 0, 0, 0)).to.be.revertedWithCustomError(
+      priceFeed,
+      'NotOperator',
+    );
+
+    // Ownership moves as a whole, the previous owner loses its rights
+    await expect(priceFeed.transferOwnership(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+      priceFeed,
+      'InvalidOwner',
+    );
+    await expect(priceFeed.transferOwnership(stranger.address))
+      .to.emit(priceFeed, 'OwnershipTransferred')
+      .withArgs(admin.address, stranger.address);
+    await expect(priceFeed.transmit([tokenId], 0, 0, 0)).to.be.revertedWithCustomError(priceFeed, 'NotOperator');
+    await priceFeed.connect(stranger).transmit([tokenId], 0, 0, 0);
+  });
+
+  /**
+   * Test Case 15: Request parameters and oracle program
+   * Ensure that the owner can change the parameters of new requests and the oracle program.
+   */
+  it('Should let the owner configure request parameters and the oracle program', async () => {
+    const { priceFeed, stranger } = await loadFixture(deployPriceFeedFixture);
+
+    const defaults = await priceFeed.getRequestParams();
+    expect(defaults.gasPrice).to.equal(2000);
+    expect(defaults.replicationFactor).to.equal(1);
+    expect(defaults.consensusFilter).to.equal('0x00');
+
+    const params = {
+      gasPrice: 4000n,
+      execGasLimit: 60000000000000n,
+      tallyGasLimit: 30000000000000n,
+      replicationFactor: 3n,
+      consensusFilter: '0x00',
+    };
+    await expect(priceFeed.connect(stranger).setRequestParams(params))
+      .to.be.revertedWithCustomError(priceFeed, 'NotOwner')
+      .withArgs(stranger.address);
+    await expect(priceFeed.setRequestParams({ ...params, replicationFactor: 0n })).to.be.revertedWithCustomError(
+      priceFeed,
+      'InvalidRequestParams',
+    );
+    await expect(priceFeed.setRequestParams(params))
+      .to.emit(priceFeed, 'RequestParamsUpdated')
+      .withArgs(4000, 60000000000000n, 30000000000000n, 3, '0x00');
+
+    const updated = await priceFeed.getRequestParams();
+    expect(updated.gasPrice).to.equal(4000);
+    expect(updated.replicationFactor).to.equal(3);
+
+    const upgradedProgramId = ethers.id('oracle-program-v2');
+    await expect(priceFeed.connect(stranger).setOracleProgramId(upgradedProgramId)).to.be.revertedWithCustomError(
+      priceFeed,
+      'NotOwner',
+    );
+    await expect(priceFeed.setOracleProgramId(upgradedProgramId))
+      .to.emit(priceFeed, 'OracleProgramIdUpdated')
+      .withArgs(ethers.ZeroHash, upgradedProgramId);
+    expect(await priceFeed.oracleProgramId()).to.equal(upgradedProgramId);
+  });
+
+  /**
+   * Test Case 16: Fees and refunds
+   * Ensure that transmissions emit their fees and that only the owner can withdraw refunded fees.
+   */
+  it('Should emit the fees of every request and hold refunds for the owner', async () => {
+    const { priceFeed, admin, stranger } = await loadFixture(deployPriceFeedFixture);
+    const fees = [ethers.parseEther('0.003'), ethers.parseEther('0.002'), ethers.parseEther('0.001')] as const;
+
+    // Default parameters: one executor's 50T execution gas plus 20T tally gas
+    const tx = await priceFeed.transmit([1n], ...fees, { value: ethers.parseEther('0.006') });
+    await expect(tx)
+      .to.emit(priceFeed, 'RequestFeesPaid')
+      .withArgs(await priceFeed.requestId(), admin.address, ...fees, 70000000000000n);
+
+    const refund = ethers.parseEther('0.002');
+    await expect(stranger.sendTransaction({ to: priceFeed.getAddress(), value: refund }))
+      .to.emit(priceFeed, 'FeesRefunded')
+      .withArgs(stranger.address, refund);
+
+    await expect(priceFeed.connect(stranger).withdrawRefunds(stranger.address)).to.be.revertedWithCustomError(
+      priceFeed,
+      'NotOwner',
+    );
+    const withdrawal = priceFeed.withdrawRefunds(stranger.address);
+    await expect(withdrawal).to.emit(priceFeed, 'RefundsWithdrawn').withArgs(stranger.address, refund);
+    await expect(withdrawal).to.changeEtherBalances([priceFeed, stranger], [-refund, refund]);
+  });
+
+  /**
+   * Test Case 17: Price events
+   * Ensure that transmissions and applied results emit the token IDs, prices and timestamps.
+   */
+  it('Should emit the tokens of every request and the prices of every result', async () => {
+    const { priceFeed, core, admin } = await loadFixture(deployPriceFeedFixture);
+    const tokenIds = [11n, 22n];
+
+    const transmission = await priceFeed.transmit(tokenIds, 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+    await expect(transmission).to.emit(priceFeed, 'PricesRequested').withArgs(requestId, admin.address, tokenIds);
+
+    await core.postResult(
+      {
+        version: '0.0.1',
+        drId: requestId,
+        consensus: true,
+        exitCode: 0,
+        result: toHex(
+          encodeTallyResult([
+            { status: PriceStatus.Ok, price: 505000n },
+            { status: PriceStatus.FetchFailed, price: 0n },
+          ]),
+        ),
+        blockHeight: 7,
+        blockTimestamp: 1_700_000_000,
+        gasUsed: 0,
+        paybackAddress: ethers.ZeroAddress,
+        sedaPayload: ethers.ZeroHash,
+      },
+      0,
+      [],
+    );
+    await expect(priceFeed.updateLatestAnswers(requestId))
+      .to.emit(priceFeed, 'PricesUpdated')
+      .withArgs(requestId, 1, 1_700_000_000, tokenIds, [505000n, 0n], [PriceStatus.Ok, PriceStatus.FetchFailed]);
+  });
+
+  /**
+   * Test Case 18: TWAP mode
+   * Ensure that TWAP requests validate their window and store the TWAP next to the spot price.
+   */
+  it('Should transmit TWAP requests and store the TWAP next to the spot price', async () => {
+    const { priceFeed, core, admin } = await loadFixture(deployPriceFeedFixture);
+    const tokenIds = [11n, 22n];
+
+    for (const [window, interval] of [
+      [3600, 0],
+      [3600, 90],
+      [60, 300],
+      [31 * 24 * 3600, 60],
+    ]) {
+      await expect(priceFeed.transmitTwap(tokenIds, window, interval, 0, 0, 0))
+        .to.be.revertedWithCustomError(priceFeed, 'InvalidTwapWindow')
+        .withArgs(window, interval);
+    }
+    await expect(priceFeed.transmitTwap([], 3600, 60, 0, 0, 0)).to.be.revertedWithCustomError(priceFeed, 'NoTokenIds');
+
+    const transmission = await priceFeed.transmitTwap(tokenIds, 3600, 60, 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+    await expect(transmission).to.emit(priceFeed, 'PricesRequested').withArgs(requestId, admin.address, tokenIds);
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([requestId]);
+
+    await core.postResult(
+      {
+        version: '0.0.1',
+        drId: requestId,
+        consensus: true,
+        exitCode: 0,
+        result: toHex(
+          encodeTallyResult([
+            { status: PriceStatus.Ok, price: 620000n, twap: 530000n },
+            { status: PriceStatus.Ok, price: 380000n },
+          ]),
+        ),
+        blockHeight: 1,
+        blockTimestamp: 1_700_000_000,
+        gasUsed: 0,
+        paybackAddress: ethers.ZeroAddress,
+        sedaPayload: ethers.ZeroHash,
+      },
+      0,
+      [],
+    );
+    await priceFeed.updateLatestAnswers(requestId);
+
+    const feed = await priceFeed.getFeed(11n);
+    expect(feed.price).to.equal(620000n);
+    expect(feed.marketData.twap).to.equal(530000n);
+    expect((await priceFeed.getFeed(22n)).marketData.twap).to.equal(0n);
+  });
+
+  /**
+   * Test Case 19: Outcome sets
+   * Ensure that outcome sets are validated and only fully priced sets are exposed as probabilities.
+   */
+  it('Should transmit outcome sets and expose the probabilities of fully priced sets', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed, core } = fixture;
+    const tokenIds = [11n, 22n, 33n, 44n, 55n];
+
+    for (const sizes of [
+      [2, 2],
+      [2, 4],
+      [1, 4],
+      [5, 0],
+    ]) {
+      await expect(priceFeed.transmitOutcomeSets(tokenIds, sizes, 50000n, 0, 0, 0)).to.be.revertedWithCustomError(
+        priceFeed,
+        'InvalidOutcomeSets',
+      );
+    }
+    await expect(priceFeed.transmitOutcomeSets(tokenIds, [2, 3], 1_000_001n, 0, 0, 0))
+      .to.be.revertedWithCustomError(priceFeed, 'InvalidTolerance')
+      .withArgs(1_000_001n);
+
+    await priceFeed.transmitOutcomeSets(tokenIds, [2, 3], 50000n, 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+    await core.postResult(
+      {
+        version: '0.0.1',
+        drId: requestId,
+        consensus: true,
+        exitCode: 0,
+        result: toHex(
+          encodeTallyResult([
+            { status: PriceStatus.Ok, price: 495098n },
+            { status: PriceStatus.Ok, price: 504902n },
+            { status: PriceStatus.Ok, price: 700000n },
+            { status: PriceStatus.FetchFailed, price: 0n },
+            { status: PriceStatus.Ok, price: 250000n },
+          ]),
+        ),
+        blockHeight: 1,
+        blockTimestamp: 1_700_000_000,
+        gasUsed: 0,
+        paybackAddress: ethers.ZeroAddress,
+        sedaPayload: ethers.ZeroHash,
+      },
+      0,
+      [],
+    );
+    await priceFeed.updateLatestAnswers(requestId);
+
+    expect(await priceFeed.getProbabilityByTokenId(11n)).to.equal(495098n);
+    expect(await priceFeed.getProbabilityByTokenId(22n)).to.equal(504902n);
+    expect((await priceFeed.getFeed(22n)).checked).to.equal(true);
+
+    // The second set could not be checked without the price of token 44
+    expect(await priceFeed.getPriceByTokenId(33n)).to.equal(700000n);
+    await expect(priceFeed.getProbabilityByTokenId(33n))
+      .to.be.revertedWithCustomError(priceFeed, 'ProbabilityUnchecked')
+      .withArgs(33n);
+
+    // A later plain request replaces the probability with an unchecked price
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [11n], [510000n], 1_700_000_100));
+    await expect(priceFeed.getProbabilityByTokenId(11n)).to.be.revertedWithCustomError(
+      priceFeed,
+      'ProbabilityUnchecked',
+    );
+    expect(await priceFeed.getProbabilityByTokenId(22n)).to.equal(504902n);
+  });
+
+  /**
+   * Test Case 20: Resolved markets
+   * Ensure that the final outcome of a resolved market is stored, never goes stale and is not replaced.
+   */
+  it('Should keep the final outcome of resolved markets', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed, core } = fixture;
+    const tokenIds = [11n, 22n, 33n];
+
+    await priceFeed.updateLatestAnswers(
+      await transmitAndPost(fixture, tokenIds, [980000n, 20000n, 500000n], 1_700_000_000),
+    );
+    expect(await priceFeed.getResolution(11n)).to.deep.equal([false, 0n, 0n]);
+
+    await priceFeed.transmit(tokenIds, 0, 0, 0);
+    const requestId = await priceFeed.requestId();
+    await core.postResult(
+      {
+        version: '0.0.1',
+        drId: requestId,
+        consensus: true,
+        exitCode: 0,
+        result: toHex(
+          encodeTallyResult([
+            { status: PriceStatus.Resolved, price: 1_000_000n },
+            { status: PriceStatus.Resolved, price: 0n },
+            { status: PriceStatus.Closed, price: 0n },
+          ]),
+        ),
+        blockHeight: 1,
+        blockTimestamp: 1_700_000_100,
+        gasUsed: 0,
+        paybackAddress: ethers.ZeroAddress,
+        sedaPayload: ethers.ZeroHash,
+      },
+      0,
+      [],
+    );
+    await expect(priceFeed.updateLatestAnswers(requestId))
+      .to.emit(priceFeed, 'TokenResolved')
+      .withArgs(11n, 2n, 1_000_000n)
+      .and.to.emit(priceFeed, 'TokenResolved')
+      .withArgs(22n, 2n, 0n);
+
+    // The final outcome is served as the price, and never goes stale
+    expect(await priceFeed.getPriceByTokenId(11n)).to.equal(1_000_000n);
+    expect(await priceFeed.getPriceByTokenIdNoOlderThan(22n, 60)).to.equal(0n);
+    expect(await priceFeed.getResolution(11n)).to.deep.equal([true, 1_000_000n, 1_700_000_100n]);
+    await expect(priceFeed.getPriceByTokenId(33n))
+      .to.be.revertedWithCustomError(priceFeed, 'PriceUnavailable')
+      .withArgs(PriceStatus.Closed);
+
+    // Later results only extend the history of a resolved token
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [11n], [500000n], 1_700_000_200));
+    expect(await priceFeed.getPriceByTokenId(11n)).to.equal(1_000_000n);
+    expect(await priceFeed.getPriceHistoryLength(11n)).to.equal(3n);
+    expect((await priceFeed.latestRoundDataByTokenId(11n)).answer).to.equal(1_000_000n);
+  });
+
+  // Transmits a request for one token and posts a result with the given quote
+  /**
+   * Test Case 21: Bounds checks
+   * Ensure that a result with a price or market data field above 1e6 is dropped and trips the circuit breaker.
+   */
+  it('Should reject impossible probabilities and pause updates', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed, admin } = fixture;
+
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [11n, 22n], [400000n, 600000n], 1_700_000_000));
+
+    // One impossible price drops the whole result, the other token keeps its price too
+    const requestId = await transmitAndPost(fixture, [11n, 22n], [450000n, 1_800_750_000n], 1_700_000_100);
+    expect(await priceFeed.updateLatestAnswers.staticCall(requestId)).to.equal(false);
+    await expect(priceFeed.updateLatestAnswers(requestId))
+      .to.emit(priceFeed, 'PriceRejected')
+      .withArgs(requestId, 22n, 1_800_750_000n, 600000n, 1)
+      .and.to.emit(priceFeed, 'CircuitBreakerTripped')
+      .withArgs(requestId, 1n);
+    expect(await priceFeed.paused()).to.equal(true);
+    expect(await priceFeed.trippedRequestId()).to.equal(requestId);
+    expect(await priceFeed.latestRoundId()).to.equal(1n);
+    expect(await priceFeed.getAllPrices()).to.deep.equal([400000n, 600000n]);
+    expect(await priceFeed.isPending(requestId)).to.equal(false);
+
+    // Nothing is applied until the owner resets the breaker
+    const next = await transmitAndPost(fixture, [11n], [420000n], 1_700_000_200);
+    await expect(priceFeed.updateLatestAnswers(next)).to.be.revertedWithCustomError(priceFeed, 'UpdatesPaused');
+    await expect(priceFeed.resetCircuitBreaker()).to.emit(priceFeed, 'CircuitBreakerReset').withArgs(admin.address);
+
+    // The rejected result stays dropped, applying it again changes nothing
+    expect(await priceFeed.updateLatestAnswers.staticCall(requestId)).to.equal(false);
+    await expect(priceFeed.updateLatestAnswers(requestId)).to.not.emit(priceFeed, 'PriceRejected');
+    expect(await priceFeed.paused()).to.equal(false);
+    expect(await priceFeed.getAllPrices()).to.deep.equal([400000n, 600000n]);
+
+    await priceFeed.updateLatestAnswers(next);
+    expect(await priceFeed.getPriceByTokenId(11n)).to.equal(420000n);
+
+    // Order-book fields and TWAPs are probabilities too
+    const bookRequestId = await transmitAndPost(
+      fixture,
+      [11n],
+      [{ status: PriceStatus.Ok, price: 430000n, bid: 420000n, ask: 1_440_000n }],
+      1_700_000_300,
+    );
+    await expect(priceFeed.updateLatestAnswers(bookRequestId))
+      .to.emit(priceFeed, 'PriceRejected')
+      .withArgs(bookRequestId, 11n, 430000n, 420000n, 1);
+    expect(await priceFeed.paused()).to.equal(true);
+    expect(await priceFeed.getPriceByTokenId(11n)).to.equal(420000n);
+  });
+
+  /**
+   * Test Case 22: Maximum deviation
+   * Ensure that a price moving further than the maximum deviation in one update trips the circuit breaker,
+   * while first prices and resolutions are exempt.
+   */
+  it('Should reject prices that move further than the maximum deviation', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+
+    await expect(priceFeed.setMaxDeviation(1_000_001n))
+      .to.be.revertedWithCustomError(priceFeed, 'InvalidMaxDeviation')
+      .withArgs(1_000_001n);
+    await expect(priceFeed.setMaxDeviation(200000n)).to.emit(priceFeed, 'MaxDeviationUpdated').withArgs(0n, 200000n);
+
+    // The first price of a token has nothing to deviate from, a move within the limit is applied
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [11n, 22n], [20000n, 980000n], 1_700_000_000));
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [11n, 22n], [220000n, 780000n], 1_700_000_100));
+    expect(await priceFeed.getAllPrices()).to.deep.equal([220000n, 780000n]);
+
+    // 0.22 -> 0.98 in one round is not
+    const requestId = await transmitAndPost(fixture, [11n, 22n], [980000n, 20000n], 1_700_000_200);
+    await expect(priceFeed.updateLatestAnswers(requestId))
+      .to.emit(priceFeed, 'PriceRejected')
+      .withArgs(requestId, 11n, 980000n, 220000n, 2)
+      .and.to.emit(priceFeed, 'PriceRejected')
+      .withArgs(requestId, 22n, 20000n, 780000n, 2)
+      .and.to.emit(priceFeed, 'CircuitBreakerTripped')
+      .withArgs(requestId, 2n);
+    expect(await priceFeed.getAllPrices()).to.deep.equal([220000n, 780000n]);
+
+    // A resolution may jump to its final outcome from any price
+    await priceFeed.resetCircuitBreaker();
+    const resolution = await transmitAndPost(
+      fixture,
+      [22n],
+      [{ status: PriceStatus.Resolved, price: 0n }],
+      1_700_000_300,
+    );
+    await expect(priceFeed.updateLatestAnswers(resolution)).to.emit(priceFeed, 'TokenResolved').withArgs(22n, 3n, 0n);
+    expect(await priceFeed.paused()).to.equal(false);
+  });
+
+  /**
+   * Test Case 23: Pausing by hand
+   * Ensure that only the owner manages the guard, and that pausing keeps results pending until a reset.
+   */
+  it('Should let only the owner pause, reset and configure the guard', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed, stranger } = fixture;
+
+    await expect(priceFeed.connect(stranger).pause())
+      .to.be.revertedWithCustomError(priceFeed, 'NotOwner')
+      .withArgs(stranger.address);
+    await expect(priceFeed.connect(stranger).resetCircuitBreaker())
+      .to.be.revertedWithCustomError(priceFeed, 'NotOwner')
+      .withArgs(stranger.address);
+    await expect(priceFeed.connect(stranger).setMaxDeviation(1n))
+      .to.be.revertedWithCustomError(priceFeed, 'NotOwner')
+      .withArgs(stranger.address);
+
+    await expect(priceFeed.pause()).to.emit(priceFeed, 'CircuitBreakerTripped').withArgs(ethers.ZeroHash, 0n);
+    expect(await priceFeed.paused()).to.equal(true);
+    expect(await priceFeed.trippedRequestId()).to.equal(ethers.ZeroHash);
+
+    // Requests can still be transmitted, their results wait for the reset
+    const requestId = await transmitAndPost(fixture, [11n], [500000n], 1_700_000_000);
+    await expect(priceFeed.updateLatestAnswers(requestId)).to.be.revertedWithCustomError(priceFeed, 'UpdatesPaused');
+    expect(await priceFeed.isPending(requestId)).to.equal(true);
+
+    await priceFeed.resetCircuitBreaker();
+    await priceFeed.updateLatestAnswers(requestId);
+    expect(await priceFeed.getPriceByTokenId(11n)).to.equal(500000n);
+  });
+
+  /**
+   * Test Case 24: Market fields
+   * Ensure that new requests only fetch the order-book fields the owner selected.
+   */
+  it('Should request only the configured order-book fields', async () => {
+    const { priceFeed, core, stranger } = await loadFixture(deployPriceFeedFixture);
+    const execInputs = async () => Buffer.from(ethers.getBytes(await core.lastExecInputs())).toString();
+
+    // Every field by default
+    expect(await priceFeed.marketFields()).to.equal(0x0f);
+    await priceFeed.transmit([11n, 22n], 0, 0, 0);
+    expect(await execInputs()).to.equal('{"token_ids":["11","22"],"fields":["bid","ask","spread","last_trade"]}');
+
+    await expect(priceFeed.connect(stranger).setMarketFields(1))
+      .to.be.revertedWithCustomError(priceFeed, 'NotOwner')
+      .withArgs(stranger.address);
+    await expect(priceFeed.setMarketFields(0x10)).to.be.revertedWithCustomError(priceFeed, 'InvalidMarketFields');
+
+    await expect(priceFeed.setMarketFields(0b1001)).to.emit(priceFeed, 'MarketFieldsUpdated').withArgs(0x0f, 0b1001);
+    await priceFeed.transmitTwap([11n], 3600, 60, 0, 0, 0);
+    expect(await execInputs()).to.equal(
+      '{"token_ids":["11"],"fields":["bid","last_trade"],"mode":"twap","window":3600,"interval":60}',
+    );
+
+    // A feed that only serves midpoints costs each executor a single CLOB request per token
+    await priceFeed.setMarketFields(0);
+    await priceFeed.transmit([11n], 0, 0, 0);
+    expect(await execInputs()).to.equal('{"token_ids":["11"],"fields":[]}');
+  });
+
+  /**
+   * Test Case 25: Failed and malformed results
+   * Ensure that final results that cannot be applied are dropped from the pending requests.
+   */
+  it('Should drop failed and malformed results from the pending requests', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed, core } = fixture;
+    const post = async (drId: string, exitCode: number, result: string) =>
+      core.postResult(
+        {
+          version: '0.0.1',
+          drId,
+          consensus: true,
+          exitCode,
+          result,
+          blockHeight: 0,
+          blockTimestamp: 1_700_000_000,
+          gasUsed: 0,
+          paybackAddress: ethers.ZeroAddress,
+          sedaPayload: ethers.ZeroHash,
+        },
+        0,
+        [],
+      );
+
+    // Not an ABI encoding at all
+    await priceFeed.transmit([11n], 0, 0, 0);
+    const malformed = await priceFeed.requestId();
+    await post(malformed, 0, '0x1234');
+
+    // A status the contract does not know
+    await priceFeed.transmit([22n], 0, 0, 0);
+    const unknownStatus = await priceFeed.requestId();
+    const encoded = ethers.getBytes(toHex(encodeTallyResult([{ status: PriceStatus.Ok, price: 500000n }])));
+    encoded[7 * 32 + 2 * 32 + 63] = 9;
+    await post(unknownStatus, 0, toHex(encoded));
+
+    // The oracle program failed, e.g. an outcome set that does not sum to 1
+    await priceFeed.transmitOutcomeSets([33n, 44n], [2], 10000n, 0, 0, 0);
+    const failed = await priceFeed.requestId();
+    await post(failed, 3, '0x');
+
+    // A request without a result yet stays pending
+    await priceFeed.transmit([55n], 0, 0, 0);
+    const unresolved = await priceFeed.requestId();
+
+    for (const [requestId, exitCode] of [
+      [malformed, 0],
+      [unknownStatus, 0],
+      [failed, 3],
+    ] as const) {
+      await expect(priceFeed.updateLatestAnswers(requestId))
+        .to.emit(priceFeed, 'RequestDropped')
+        .withArgs(requestId, true, exitCode);
+      expect(await priceFeed.updateLatestAnswers.staticCall(requestId)).to.equal(false);
+    }
+    await expect(priceFeed.updateLatestAnswers(unresolved)).to.be.reverted;
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([unresolved]);
+    expect(await priceFeed.getTokenCount()).to.equal(0);
+
+    // A dropped request is final, the same tokens can be requested again
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [11n], [500000n], 1_700_000_100));
+    expect(await priceFeed.getPriceByTokenId(11n)).to.equal(500000n);
+  });
+
+  /**
+   * Test Case 26: Duplicate token IDs
+   * Ensure that a request cannot list a token ID twice, its prices would overwrite each other in one round.
+   */
+  it('Should reject requests with duplicate token IDs', async () => {
+    const { priceFeed } = await loadFixture(deployPriceFeedFixture);
+
+    await expect(priceFeed.transmit([11n, 11n], 0, 0, 0))
+      .to.be.revertedWithCustomError(priceFeed, 'DuplicateTokenId')
+      .withArgs(11n);
+    await expect(priceFeed.transmitTwap([11n, 22n, 11n], 3600, 60, 0, 0, 0))
+      .to.be.revertedWithCustomError(priceFeed, 'DuplicateTokenId')
+      .withArgs(11n);
+    await expect(priceFeed.transmitOutcomeSets([11n, 22n, 33n, 22n], [2, 2], 50000n, 0, 0, 0))
+      .to.be.revertedWithCustomError(priceFeed, 'DuplicateTokenId')
+      .withArgs(22n);
+    expect(await priceFeed.getPendingRequests()).to.deep.equal([]);
+
+    await priceFeed.transmit([22n, 11n], 0, 0, 0);
+    expect(await priceFeed.getRequestTokenIds(await priceFeed.requestId())).to.deep.equal([22n, 11n]);
+  });
+
+  /**
+   * Test Case 27: Deviation across failed rounds
+   * Ensure that the deviation check compares a price with the token's latest Ok price, a failed round in between
+   * does not lift it.
+   */
+  it('Should check deviation against the latest Ok price after a failed round', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    await priceFeed.setMaxDeviation(200000n);
+
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [11n], [20000n], 1_700_000_000));
+    await priceFeed.updateLatestAnswers(
+      await transmitAndPost(fixture, [11n], [{ status: PriceStatus.FetchFailed, price: 0n }], 1_700_000_100),
+    );
+    const feed = await priceFeed.getFeed(11n);
+    expect(feed.status).to.equal(PriceStatus.FetchFailed);
+    expect([feed.okRoundId, feed.okPrice]).to.deep.equal([1n, 20000n]);
+
+    // 0.02 -> 0.98 is still a jump, the failed round only hides the previous price
+    const requestId = await transmitAndPost(fixture, [11n], [980000n], 1_700_000_200);
+    await expect(priceFeed.updateLatestAnswers(requestId))
+      .to.emit(priceFeed, 'PriceRejected')
+      .withArgs(requestId, 11n, 980000n, 20000n, 2)
+      .and.to.emit(priceFeed, 'CircuitBreakerTripped')
+      .withArgs(requestId, 1n);
+    expect((await priceFeed.getFeed(11n)).status).to.equal(PriceStatus.FetchFailed);
+
+    // A move within the limit of the latest Ok price is applied
+    await priceFeed.resetCircuitBreaker();
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [11n], [210000n], 1_700_000_300));
+    expect(await priceFeed.getPriceByTokenId(11n)).to.equal(210000n);
+    expect((await priceFeed.getFeed(11n)).okRoundId).to.equal(3n);
+  });
+
+  /**
+   * Test Case 28: Deviation of results applied out of order
+   * Ensure that an older result only extends the price history, it is not checked against a later price.
+   */
+  it('Should not check the deviation of a result older than the latest price', async () => {
+    const fixture = await loadFixture(deployPriceFeedFixture);
+    const { priceFeed } = fixture;
+    await priceFeed.setMaxDeviation(200000n);
+    await priceFeed.updateLatestAnswers(await transmitAndPost(fixture, [11n], [200000n], 1_700_000_000));
+
+    // Two concurrent requests, the newer one is applied first. 0.15 is within the limit of the 0.2 before it, but
+    // not of the later 0.38
+    const older = await transmitAndPost(fixture, [11n], [150000n], 1_700_000_100);
+    const newer = await transmitAndPost(fixture, [11n], [380000n], 1_700_000_200);
+    await priceFeed.updateLatestAnswers(newer);
+    await expect(priceFeed.updateLatestAnswers(older)).to.not.emit(priceFeed, 'PriceRejected');
+    expect(await priceFeed.paused()).to.equal(false);
+    expect(await priceFeed.getPriceByTokenId(11n)).to.equal(380000n);
+    expect((await priceFeed.getRoundDataByTokenId(11n, 3n)).answer).to.equal(150000n);
+  });
 });
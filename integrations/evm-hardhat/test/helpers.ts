@@ -0,0 +1,67 @@
+import MockSedaCore from '@seda-protocol/evm/artifacts/contracts/mocks/MockSedaCore.sol/MockSedaCore.json';
+import { ethers } from 'hardhat';
+import { encodeTallyResult, PriceStatus, type TokenPriceInput, toHex } from '../../../packages/client/src';
+import type { SedaDataTypes } from '../typechain-types/@seda-protocol/evm/contracts/interfaces/ISedaCore';
+
+/**
+ * Deploys a PriceFeed against a MockSedaCore, with a zero oracle program ID.
+ * @returns The contracts and the signers the tests act as, the admin deployed the PriceFeed.
+ */
+export async function deployPriceFeedFixture() {
+  const [admin, operator, stranger] = await ethers.getSigners();
+
+  // Deploy without constructor arguments as the mock doesn't have the expected constructor
+  const SedaCore = await ethers.getContractFactoryFromArtifact(MockSedaCore);
+  const core = await SedaCore.deploy();
+
+  const PriceFeed = await ethers.getContractFactory('PriceFeed');
+  const priceFeed = await PriceFeed.deploy(core.getAddress(), ethers.ZeroHash);
+
+  return { priceFeed, core, admin, operator, stranger };
+}
+
+export type PriceFeedFixture = Awaited<ReturnType<typeof deployPriceFeedFixture>>;
+
+/**
+ * Builds a SEDA result for a request: a successful tally with consensus and nothing paid back, unless overridden.
+ * @param drId ID of the request.
+ * @param fields Fields that differ from the defaults, e.g. the result bytes or the block timestamp.
+ * @returns The result as `postResult` takes it.
+ */
+export function sedaResult(drId: string, fields: Partial<SedaDataTypes.ResultStruct> = {}): SedaDataTypes.ResultStruct {
+  return {
+    version: '0.0.1',
+    drId,
+    consensus: true,
+    exitCode: 0,
+    result: '0x',
+    blockHeight: 0,
+    blockTimestamp: 0,
+    gasUsed: 0,
+    paybackAddress: ethers.ZeroAddress,
+    sedaPayload: ethers.ZeroHash,
+    ...fields,
+  };
+}
+
+/**
+ * Posts a result with the given prices for a request, as the SEDA network would.
+ * @param core The MockSedaCore the PriceFeed uses.
+ * @param requestId ID of the request.
+ * @param prices One entry per token of the request, plain prices are Ok.
+ * @param fields Fields of the result that differ from the defaults, see `sedaResult`.
+ */
+export async function postPrices(
+  core: PriceFeedFixture['core'],
+  requestId: string,
+  prices: (bigint | TokenPriceInput)[],
+  fields: Partial<SedaDataTypes.ResultStruct> = {},
+) {
+  const entries = prices.map((price) => (typeof price === 'bigint' ? { status: PriceStatus.Ok, price } : price));
+  const tx = await core.postResult(
+    sedaResult(requestId, { result: toHex(encodeTallyResult(entries)), ...fields }),
+    0,
+    [],
+  );
+  await tx.wait();
+}
@@ -0,0 +1,141 @@
+/**
+ * Minimal Solidity ABI helpers for the values the oracle program produces.
+ * Kept dependency-free so the client works in Bun scripts and Hardhat tasks alike.
+ */
+
+const WORD_SIZE = 32;
+
+/**
+ * Converts ABI data given as bytes or as a (0x-prefixed) hex string to bytes.
+ * @param data The ABI data.
+ * @returns The raw bytes.
+ * @throws Error if the hex string is malformed.
+ */
+export function toBytes(data: Uint8Array | string): Uint8Array {
+  if (typeof data !== 'string') {
+    return data;
+  }
+
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Converts bytes to a 0x-prefixed hex string.
+ * @param bytes The bytes to convert.
+ * @returns The hex string.
+ */
+export function toHex(bytes: Uint8Array): string {
+  return `0x${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Reads the 32-byte word at the given word index as an unsigned integer.
+ * @param data The ABI data.
+ * @param index Word index (byte offset / 32).
+ * @returns The word value.
+ * @throws Error if the data is too short.
+ */
+export function readWord(data: Uint8Array, index: number): bigint {
+  const start = index * WORD_SIZE;
+  if (start + WORD_SIZE > data.length) {
+    throw new Error(`ABI data too short: cannot read word ${index} of ${data.length / WORD_SIZE}`);
+  }
+
+  let value = 0n;
+  for (let i = start; i < start + WORD_SIZE; i++) {
+    value = (value << 8n) | BigInt(data[i]);
+  }
+  return value;
+}
+
+/**
+ * Encodes an unsigned integer as a 32-byte word.
+ * @param value The value to encode.
+ * @returns The big-endian word.
+ * @throws Error if the value does not fit in a uint256.
+ */
+export function encodeWord(value: bigint): Uint8Array {
+  if (value < 0n || value >> 256n !== 0n) {
+    throw new Error(`Value out of uint256 range: ${value}`);
+  }
+
+  const word = new Uint8Array(WORD_SIZE);
+  let remaining = value;
+  for (let i = WORD_SIZE - 1; i >= 0; i--) {
+    word[i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+  return word;
+}
+
+/**
+ * Encodes a `uint256[]` as a single ABI parameter (offset word, length word, elements).
+ * @param values The array elements.
+ * @returns The ABI-encoded array.
+ */
+export function encodeUint256Array(values: bigint[]): Uint8Array {
+  return encodeUint256Arrays([values]);
+}
+
+/**
+ * Decodes a `uint256[]` encoded as a single ABI parameter.
+ * @param data The ABI data as bytes or hex string.
+ * @returns The array elements.
+ * @throws Error if the data is not a well-formed `uint256[]`.
+ */
+export function decodeUint256Array(data: Uint8Array | string): bigint[] {
+  return decodeUint256Arrays(data, 1)[0];
+}
+
+/**
+ * Encodes a tuple of unsigned integer arrays, like Solidity's `abi.encode(uint256[] a, uint8[] b, ...)`.
+ * The head holds one offset word per array, the tail each array's length word and elements.
+ * @param arrays The arrays to encode.
+ * @returns The ABI-encoded tuple.
+ */
+export function encodeUint256Arrays(arrays: bigint[][]): Uint8Array {
+  const words: Uint8Array[] = [];
+  let offset = arrays.length * WORD_SIZE;
+  for (const array of arrays) {
+    words.push(encodeWord(BigInt(offset)));
+    offset += (array.length + 1) * WORD_SIZE;
+  }
+  for (const array of arrays) {
+    words.push(encodeWord(BigInt(array.length)), ...array.map(encodeWord));
+  }
+
+  const encoded = new Uint8Array(words.length * WORD_SIZE);
+  words.forEach((word, index) => encoded.set(word, index * WORD_SIZE));
+  return encoded;
+}
+
+/**
+ * Decodes a tuple of unsigned integer arrays.
+ * @param data The ABI data as bytes or hex string.
+ * @param count Number of arrays in the tuple.
+ * @returns The arrays, in tuple order.
+ * @throws Error if the data is not a well-formed tuple of arrays.
+ */
+export function decodeUint256Arrays(data: Uint8Array | string, count: number): bigint[][] {
+  const bytes = toBytes(data);
+
+  return Array.from({ length: count }, (_, index) => {
+    const offset = readWord(bytes, index);
+    if (offset % BigInt(WORD_SIZE) !== 0n) {
+      throw new Error(`Invalid array offset: ${offset}`);
+    }
+
+    const start = Number(offset) / WORD_SIZE;
+    const length = Number(readWord(bytes, start));
+    return Array.from({ length }, (_, i) => readWord(bytes, start + 1 + i));
+  });
+}
@@ -0,0 +1,217 @@
+/**
+ * In-process stand-in for the Polymarket CLOB API (https://clob.polymarket.com).
+ *
+ * Pass `clob.fetch` as the fetch mock to `testOracleProgramExecution` so the oracle program talks to
+ * this mock instead of the real CLOB. Used by the Bun tests and by the Hardhat `relay` task. Known tokens answer
+ * with their configured midpoint, order book, last trade and price history, unknown tokens with a 404, and
+ * individual tokens can be set up to fail with any HTTP status. The mock also answers the Gamma API lookup of a
+ * market by token ID, which the oracle program uses to detect closed and resolved markets.
+ */
+
+const CLOB_HOST = 'clob.polymarket.com';
+const GAMMA_HOST = 'gamma-api.polymarket.com';
+
+/** A Polymarket market, shared between the CLOB and Gamma mocks */
+export interface MockMarket {
+  conditionId: string;
+  slug: string;
+  question: string;
+  /** Outcome label and CLOB token ID, in the market's outcome order */
+  outcomes: { outcome: string; tokenId: string }[];
+  /** Short label of the market within its event, e.g. a candidate's name */
+  groupItemTitle?: string;
+  /** Whether trading ended, markets are open unless set */
+  closed?: boolean;
+  /** Price per outcome as the Gamma API lists it, e.g. `["1", "0"]` once the first outcome won */
+  outcomePrices?: string[];
+}
+
+/** Price levels of a mock order book, as the raw price strings the CLOB returns */
+export interface MockBook {
+  bids: string[];
+  asks: string[];
+}
+
+/** A price history sample as the CLOB returns it: a Unix timestamp in seconds and a price as a JSON number */
+export interface MockHistoryPoint {
+  t: number;
+  p: number;
+}
+
+export interface ClobMockOptions {
+  /** Midpoint per token ID, as the raw string the CLOB returns in `{ "mid": "..." }` */
+  midpoints?: Record<string, string>;
+  /** Order book per token ID, served by `/book` */
+  books?: Record<string, MockBook>;
+  /** Last trade price per token ID, served by `/last-trade-price` */
+  lastTrades?: Record<string, string>;
+  /** Price history per token ID, served by `/prices-history` whatever the requested range */
+  histories?: Record<string, MockHistoryPoint[]>;
+  /** HTTP status to answer with per token ID (e.g. 500 or 503) */
+  failures?: Record<string, number>;
+  /** Markets served by `/markets/:conditionId`, and by the Gamma API's `/markets?clob_token_ids=` (repeatable) */
+  markets?: MockMarket[];
+  /** Unix time in seconds the price history is dated with (its `Date` header), the current time if not set */
+  now?: number;
+}
+
+export class ClobMock {
+  private readonly midpoints: Map<string, string>;
+  private readonly books: Map<string, MockBook>;
+  private readonly lastTrades: Map<string, string>;
+  private readonly histories: Map<string, MockHistoryPoint[]>;
+  private readonly failures: Map<string, number>;
+  private readonly markets: MockMarket[];
+  private readonly now?: number;
+
+  /** Every URL requested through this mock, in call order */
+  readonly requests: URL[] = [];
+
+  constructor(options: ClobMockOptions = {}) {
+    this.midpoints = new Map(Object.entries(options.midpoints ?? {}));
+    this.books = new Map(Object.entries(options.books ?? {}));
+    this.lastTrades = new Map(Object.entries(options.lastTrades ?? {}));
+    this.histories = new Map(Object.entries(options.histories ?? {}));
+    this.failures = new Map(Object.entries(options.failures ?? {}));
+    this.markets = options.markets ?? [];
+    this.now = options.now;
+  }
+
+  /**
+   * Sets (or replaces) the midpoint returned for a token.
+   */
+  setMidpoint(tokenId: string, mid: string): this {
+    this.midpoints.set(tokenId, mid);
+    return this;
+  }
+
+  /**
+   * Makes every request for a token answer with the given HTTP status.
+   */
+  failWith(tokenId: string, status: number): this {
+    this.failures.set(tokenId, status);
+    return this;
+  }
+
+  /**
+   * Fetch-compatible handler to hand to the SEDA VM.
+   */
+  fetch = async (input: string | URL | Request): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    this.requests.push(url);
+
+    if (url.host === GAMMA_HOST && url.pathname === '/markets') {
+      return this.marketsByToken(url.searchParams.getAll('clob_token_ids'));
+    }
+    if (url.host !== CLOB_HOST) {
+      return jsonResponse({ error: `Unexpected host ${url.host}` }, 502);
+    }
+
+    if (url.pathname.startsWith('/markets/')) {
+      return this.market(url.pathname.slice('/markets/'.length));
+    }
+
+    // The price history takes the token ID as `market`
+    const tokenId = url.searchParams.get(url.pathname === '/prices-history' ? 'market' : 'token_id');
+    if (!tokenId) {
+      return jsonResponse({ error: 'Invalid payload' }, 400);
+    }
+
+    const failure = this.failures.get(tokenId);
+    if (failure !== undefined) {
+      return jsonResponse({ error: 'Internal server error' }, failure);
+    }
+
+    switch (url.pathname) {
+      case '/midpoint':
+        return this.midpoint(tokenId);
+      case '/book':
+        return this.book(tokenId);
+      case '/last-trade-price':
+        return this.lastTrade(tokenId);
+      case '/prices-history':
+        return this.history(tokenId);
+      default:
+        return jsonResponse({ error: 'Not found' }, 404);
+    }
+  };
+
+  private market(conditionId: string): Response {
+    const market = this.markets.find((entry) => entry.conditionId.toLowerCase() === conditionId.toLowerCase());
+    if (!market) {
+      return jsonResponse({ error: 'market not found' }, 404);
+    }
+
+    return jsonResponse({
+      condition_id: market.conditionId,
+      market_slug: market.slug,
+      question: market.question,
+      tokens: market.outcomes.map(({ outcome, tokenId }) => ({ token_id: tokenId, outcome })),
+    });
+  }
+
+  // Like the real Gamma API, list fields are JSON-encoded strings, every market listing one of the tokens is
+  // returned once and unknown tokens are left out
+  private marketsByToken(tokenIds: string[]): Response {
+    const markets = this.markets.filter((market) => market.outcomes.some((entry) => tokenIds.includes(entry.tokenId)));
+
+    return jsonResponse(
+      markets.map((market) => ({
+        conditionId: market.conditionId,
+        slug: market.slug,
+        closed: market.closed ?? false,
+        outcomes: JSON.stringify(market.outcomes.map(({ outcome }) => outcome)),
+        outcomePrices: JSON.stringify(market.outcomePrices ?? market.outcomes.map(() => '0.5')),
+        clobTokenIds: JSON.stringify(market.outcomes.map(({ tokenId }) => tokenId)),
+      })),
+    );
+  }
+
+  private midpoint(tokenId: string): Response {
+    const mid = this.midpoints.get(tokenId);
+    if (mid === undefined) {
+      return jsonResponse({ error: 'No orderbook exists for the requested token id' }, 404);
+    }
+
+    return jsonResponse({ mid });
+  }
+
+  private book(tokenId: string): Response {
+    const book = this.books.get(tokenId);
+    if (!book) {
+      return jsonResponse({ error: 'No orderbook exists for the requested token id' }, 404);
+    }
+
+    // Like the real CLOB, levels are sorted so that the best price comes last
+    const level = (price: string) => ({ price, size: '100' });
+    return jsonResponse({
+      market: '0x0',
+      asset_id: tokenId,
+      bids: [...book.bids].sort((a, b) => Number(a) - Number(b)).map(level),
+      asks: [...book.asks].sort((a, b) => Number(b) - Number(a)).map(level),
+    });
+  }
+
+  private lastTrade(tokenId: string): Response {
+    const price = this.lastTrades.get(tokenId);
+    if (price === undefined) {
+      return jsonResponse({ error: 'No orderbook exists for the requested token id' }, 404);
+    }
+
+    return jsonResponse({ price, side: 'BUY' });
+  }
+
+  private history(tokenId: string): Response {
+    // Like the real CLOB, tokens without trades have an empty history. The oracle program ends the TWAP window
+    // at the date of the response
+    const date = new Date((this.now ?? Math.floor(Date.now() / 1000)) * 1000).toUTCString();
+    return jsonResponse({ history: this.histories.get(tokenId) ?? [] }, 200, { date });
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
@@ -0,0 +1,67 @@
+export {
+  decodeUint256Array,
+  decodeUint256Arrays,
+  encodeUint256Array,
+  encodeUint256Arrays,
+  toBytes,
+  toHex,
+} from './abi';
+export {
+  assertTokenId,
+  assertTwapOptions,
+  DEFAULT_TWAP_INTERVAL,
+  DEFAULT_TWAP_WINDOW,
+  decodeExecInputs,
+  decodeMarketFields,
+  type ExecInputs,
+  encodeExecInputs,
+  encodeMarketFields,
+  encodeTokenIds,
+  isValidTokenId,
+  MARKET_FIELDS,
+  MAX_TWAP_WINDOW,
+  type MarketField,
+  outcomeSetIndices,
+  PRICE_MODES,
+  type PriceMode,
+  parseMarketFields,
+  parseOutcomeSets,
+  parseTokenIds,
+  type TwapOptions,
+} from './inputs';
+export {
+  CLOB_API_URL,
+  DEFAULT_MARKET_CACHE_FILE,
+  type EventInfo,
+  type EventOutcome,
+  GAMMA_API_URL,
+  isConditionId,
+  isEventId,
+  type MarketInfo,
+  type MarketRef,
+  MarketResolver,
+  type MarketResolverOptions,
+  parseMarketRefs,
+  rankByPrice,
+} from './markets';
+export { decodeReveal, encodeReveal, type Quote, type TokenReveal } from './reveal';
+export {
+  assertOutcomeSets,
+  assertTolerance,
+  DEFAULT_OUTCOME_TOLERANCE,
+  decodeTallyResult,
+  describeStatus,
+  encodeTallyInputs,
+  encodeTallyResult,
+  formatPrice,
+  hasPrice,
+  MAX_PRICE_DECIMALS,
+  OUTCOME_SET_VIOLATION_EXIT_CODE,
+  PRICE_DECIMALS,
+  PriceStatus,
+  parsePrice,
+  type TallyInputs,
+  type TokenPrice,
+  type TokenPriceInput,
+  toDecimal,
+} from './tally';
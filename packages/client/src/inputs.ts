@@ -0,0 +1,269 @@
+/**
+ * Execution inputs of the oracle program: a comma-separated list of Polymarket CLOB token IDs, or a JSON object
+ * `{"token_ids":[...],"fields":[...]}` that also selects order-book fields, and with `"mode":"twap"` the window and
+ * interval of a time-weighted average price. Token IDs are decimal representations of uint256 values.
+ */
+
+const TOKEN_ID_PATTERN = /^[1-9][0-9]*$/;
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+/** Order-book fields the oracle program can fetch on top of the midpoint */
+export const MARKET_FIELDS = ['bid', 'ask', 'spread', 'last_trade'] as const;
+
+export type MarketField = (typeof MARKET_FIELDS)[number];
+
+/** Price modes of the oracle program: the spot midpoint only, or also a TWAP of the CLOB price history */
+export const PRICE_MODES = ['spot', 'twap'] as const;
+
+export type PriceMode = (typeof PRICE_MODES)[number];
+
+/** Seconds of price history a TWAP covers unless specified */
+export const DEFAULT_TWAP_WINDOW = 3600;
+
+/** Seconds between the price history samples of a TWAP unless specified, the CLOB samples by the minute */
+export const DEFAULT_TWAP_INTERVAL = 60;
+
+/** Longest TWAP window in seconds, the CLOB serves at most a month of history per request */
+export const MAX_TWAP_WINDOW = 30 * 24 * 3600;
+
+/** Window and sampling interval of a TWAP, in seconds */
+export interface TwapOptions {
+  window: number;
+  interval: number;
+}
+
+/** Decoded execution inputs */
+export interface ExecInputs {
+  tokenIds: string[];
+  fields: MarketField[];
+  /** Set in TWAP mode */
+  twap?: TwapOptions;
+}
+
+/**
+ * Checks whether a string is a valid Polymarket CLOB token ID.
+ * @param tokenId The token ID to check.
+ * @returns True if the token ID is a decimal uint256 without leading zeros.
+ */
+export function isValidTokenId(tokenId: string): boolean {
+  return TOKEN_ID_PATTERN.test(tokenId) && BigInt(tokenId) <= MAX_UINT256;
+}
+
+/**
+ * Throws if a token ID is not a valid Polymarket CLOB token ID.
+ * @param tokenId The token ID to check.
+ * @throws Error if the token ID is invalid.
+ */
+export function assertTokenId(tokenId: string): void {
+  if (!isValidTokenId(tokenId)) {
+    throw new Error(`Invalid Polymarket token ID: "${tokenId}"`);
+  }
+}
+
+/**
+ * Parses a comma-separated token ID list, as accepted by the oracle program and the PriceFeed contract.
+ * Whitespace around each ID is ignored.
+ * @param tokenIds Comma-separated token IDs.
+ * @returns The validated token IDs.
+ * @throws Error if the list is empty or contains an invalid token ID.
+ */
+export function parseTokenIds(tokenIds: string): string[] {
+  const parsed = tokenIds
+    .split(',')
+    .map((tokenId) => tokenId.trim())
+    .filter((tokenId) => tokenId.length > 0);
+
+  if (parsed.length === 0) {
+    throw new Error('At least one token ID is required');
+  }
+
+  parsed.forEach(assertTokenId);
+  return parsed;
+}
+
+/**
+ * Joins token IDs into the comma-separated string the oracle program expects.
+ * @param tokenIds The token IDs to request.
+ * @returns The comma-separated token IDs.
+ * @throws Error if the list is empty or contains an invalid token ID.
+ */
+export function encodeTokenIds(tokenIds: string[]): string {
+  if (tokenIds.length === 0) {
+    throw new Error('At least one token ID is required');
+  }
+
+  tokenIds.forEach(assertTokenId);
+  return tokenIds.join(',');
+}
+
+/**
+ * Parses outcome sets of token IDs: sets are separated by semicolons, the token IDs of a set by commas
+ * (e.g. "<yes>,<no>;<a>,<b>,<c>").
+ * @param outcomeSets Semicolon-separated sets of comma-separated token IDs.
+ * @returns The validated token IDs of every set.
+ * @throws Error if a set has fewer than 2 tokens, a token ID is invalid or a token is in more than one set.
+ */
+export function parseOutcomeSets(outcomeSets: string): string[][] {
+  const sets = outcomeSets
+    .split(';')
+    .filter((set) => set.trim().length > 0)
+    .map((set) => parseTokenIds(set));
+
+  const seen = new Set<string>();
+  for (const set of sets) {
+    if (set.length < 2) {
+      throw new Error(`Outcome sets need at least 2 token IDs, got "${set.join(',')}"`);
+    }
+    for (const tokenId of set) {
+      if (seen.has(tokenId)) {
+        throw new Error(`Token ${tokenId} is in more than one outcome set`);
+      }
+      seen.add(tokenId);
+    }
+  }
+  return sets;
+}
+
+/**
+ * Converts outcome sets of token IDs into the token indices the tally inputs refer to.
+ * @param tokenIds The token IDs of the request, in request order.
+ * @param outcomeSets Sets of token IDs.
+ * @returns The index of every token ID within `tokenIds`.
+ * @throws Error if a token of a set is not requested.
+ */
+export function outcomeSetIndices(tokenIds: string[], outcomeSets: string[][]): number[][] {
+  return outcomeSets.map((set) =>
+    set.map((tokenId) => {
+      const index = tokenIds.indexOf(tokenId);
+      if (index === -1) {
+        throw new Error(`Token ${tokenId} of an outcome set is not requested`);
+      }
+      return index;
+    }),
+  );
+}
+
+/**
+ * Parses a comma-separated list of order-book fields (e.g. "bid,ask,spread").
+ * @param fields Comma-separated field names.
+ * @returns The fields, without duplicates.
+ * @throws Error if a field is unknown.
+ */
+export function parseMarketFields(fields: string): MarketField[] {
+  const parsed = fields
+    .split(',')
+    .map((field) => field.trim())
+    .filter((field) => field.length > 0);
+
+  for (const field of parsed) {
+    if (!isMarketField(field)) {
+      throw new Error(`Unknown market field "${field}", expected one of ${MARKET_FIELDS.join(', ')}`);
+    }
+  }
+  return [...new Set(parsed as MarketField[])];
+}
+
+/**
+ * Encodes order-book fields as the bit set the PriceFeed contract stores in `marketFields`.
+ * @param fields The fields to request.
+ * @returns One bit per field in `MARKET_FIELDS` order: 1 bid, 2 ask, 4 spread, 8 last trade.
+ */
+export function encodeMarketFields(fields: MarketField[]): number {
+  return fields.reduce((bits, field) => bits | (1 << MARKET_FIELDS.indexOf(field)), 0);
+}
+
+/**
+ * Decodes the `marketFields` bit set of the PriceFeed contract.
+ * @param bits The bit set, as returned by the contract.
+ * @returns The selected fields in `MARKET_FIELDS` order.
+ */
+export function decodeMarketFields(bits: number | bigint): MarketField[] {
+  return MARKET_FIELDS.filter((_, index) => (Number(bits) & (1 << index)) !== 0);
+}
+
+/**
+ * Throws if a TWAP window or interval is not accepted by the oracle program.
+ * @param twap The TWAP window and interval in seconds.
+ * @throws Error if the interval is not a positive multiple of 60, or the window is shorter than the interval
+ * or longer than `MAX_TWAP_WINDOW`.
+ */
+export function assertTwapOptions({ window, interval }: TwapOptions): void {
+  if (!Number.isInteger(interval) || interval <= 0 || interval % 60 !== 0) {
+    throw new Error(`TWAP interval must be a positive multiple of 60 seconds, got ${interval}`);
+  }
+  if (!Number.isInteger(window) || window < interval || window > MAX_TWAP_WINDOW) {
+    throw new Error(`TWAP window must be between ${interval} and ${MAX_TWAP_WINDOW} seconds, got ${window}`);
+  }
+}
+
+/**
+ * Encodes token IDs as data request execution inputs.
+ * Without fields and TWAP this is the plain comma-separated list, otherwise the JSON form.
+ * @param tokenIds The token IDs to request.
+ * @param fields Order-book fields to fetch on top of the midpoint.
+ * @param twap Window and interval of a TWAP to fetch on top of the midpoint, spot mode if omitted.
+ * @returns The UTF-8 encoded execution inputs.
+ * @throws Error if a token ID or the TWAP options are invalid.
+ */
+export function encodeExecInputs(tokenIds: string[], fields: MarketField[] = [], twap?: TwapOptions): Uint8Array {
+  const encodedTokenIds = encodeTokenIds(tokenIds);
+  if (fields.length === 0 && !twap) {
+    return new TextEncoder().encode(encodedTokenIds);
+  }
+
+  if (!twap) {
+    return new TextEncoder().encode(JSON.stringify({ token_ids: tokenIds, fields }));
+  }
+
+  assertTwapOptions(twap);
+  return new TextEncoder().encode(
+    JSON.stringify({ token_ids: tokenIds, fields, mode: 'twap', window: twap.window, interval: twap.interval }),
+  );
+}
+
+/**
+ * Decodes data request execution inputs in either form.
+ * @param inputs The UTF-8 encoded execution inputs.
+ * @returns The validated token IDs, requested fields and TWAP options.
+ * @throws Error if the inputs are malformed.
+ */
+export function decodeExecInputs(inputs: Uint8Array): ExecInputs {
+  const text = new TextDecoder().decode(inputs).trim();
+  if (!text.startsWith('{')) {
+    return { tokenIds: parseTokenIds(text), fields: [] };
+  }
+
+  const {
+    token_ids: tokenIds,
+    fields = [],
+    mode = 'spot',
+    window = DEFAULT_TWAP_WINDOW,
+    interval = DEFAULT_TWAP_INTERVAL,
+  } = JSON.parse(text) as {
+    token_ids?: unknown;
+    fields?: unknown;
+    mode?: unknown;
+    window?: unknown;
+    interval?: unknown;
+  };
+  if (!Array.isArray(tokenIds) || !tokenIds.every((tokenId) => typeof tokenId === 'string')) {
+    throw new Error('Execution inputs have no token_ids array');
+  }
+  if (!Array.isArray(fields) || !fields.every(isMarketField)) {
+    throw new Error('Execution inputs have an invalid fields array');
+  }
+  if (!PRICE_MODES.includes(mode as PriceMode)) {
+    throw new Error(`Execution inputs have an unknown mode "${mode}", expected one of ${PRICE_MODES.join(', ')}`);
+  }
+
+  const decoded: ExecInputs = { tokenIds: parseTokenIds(tokenIds.join(',')), fields };
+  if (mode === 'twap') {
+    decoded.twap = { window: Number(window), interval: Number(interval) };
+    assertTwapOptions(decoded.twap);
+  }
+  return decoded;
+}
+
+function isMarketField(field: unknown): field is MarketField {
+  return MARKET_FIELDS.includes(field as MarketField);
+}
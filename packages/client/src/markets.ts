@@ -0,0 +1,368 @@
+/**
+ * Resolves Polymarket markets (by slug or condition ID) and an outcome to CLOB token IDs.
+ * Slugs are looked up through the Gamma API, condition IDs through the CLOB API.
+ * Resolved markets are kept in a local JSON cache file, since token IDs never change for a market.
+ * Events (by ID or slug) resolve to every outcome they list, they are not cached as markets are added to them.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { assertTokenId } from './inputs';
+
+export const GAMMA_API_URL = 'https://gamma-api.polymarket.com';
+export const CLOB_API_URL = 'https://clob.polymarket.com';
+
+/** Default location of the market cache, relative to the working directory */
+export const DEFAULT_MARKET_CACHE_FILE = '.polymarket-cache.json';
+
+const CONDITION_ID_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const EVENT_ID_PATTERN = /^\d+$/;
+
+/** A market (slug or condition ID) and the outcome to price */
+export interface MarketRef {
+  market: string;
+  outcome: string;
+}
+
+/** A market with the CLOB token ID of each of its outcomes */
+export interface MarketInfo {
+  conditionId: string;
+  slug?: string;
+  question?: string;
+  /** Token ID per outcome label, in the market's outcome order */
+  tokens: Record<string, string>;
+}
+
+/** One outcome of an event and the CLOB token ID whose price is its probability */
+export interface EventOutcome {
+  label: string;
+  tokenId: string;
+  conditionId: string;
+}
+
+/** An event with the outcomes of its open markets, in the event's order */
+export interface EventInfo {
+  id: string;
+  slug: string;
+  title?: string;
+  /** True if exactly one outcome can win, so the prices of the outcomes form a probability distribution */
+  exclusive: boolean;
+  outcomes: EventOutcome[];
+}
+
+export interface MarketResolverOptions {
+  /** Path of the JSON cache file, or `false` to disable caching */
+  cacheFile?: string | false;
+  /** Fetch implementation, mostly useful for tests */
+  fetch?: (input: string) => Promise<Response>;
+  gammaUrl?: string;
+  clobUrl?: string;
+}
+
+/**
+ * Checks whether a market reference is a condition ID (as opposed to a slug).
+ * @param market The market reference.
+ * @returns True for 0x-prefixed 32-byte hex strings.
+ */
+export function isConditionId(market: string): boolean {
+  return CONDITION_ID_PATTERN.test(market);
+}
+
+/**
+ * Checks whether an event reference is an event ID (as opposed to a slug).
+ * @param event The event reference.
+ * @returns True for decimal numbers.
+ */
+export function isEventId(event: string): boolean {
+  return EVENT_ID_PATTERN.test(event);
+}
+
+/**
+ * Orders items by price, highest first. Items without a price go last, ties keep their order.
+ * @param items The items to rank.
+ * @param price Price of an item, undefined if it has none.
+ * @returns The ranked items, the input is left untouched.
+ */
+export function rankByPrice<T>(items: T[], price: (item: T) => bigint | undefined): T[] {
+  const ranked = items.map((item, index) => ({ item, index, price: price(item) }));
+  ranked.sort((a, b) => {
+    if (a.price === undefined || b.price === undefined) {
+      return a.price === b.price ? a.index - b.index : a.price === undefined ? 1 : -1;
+    }
+    return a.price === b.price ? a.index - b.index : a.price > b.price ? -1 : 1;
+  });
+  return ranked.map(({ item }) => item);
+}
+
+/**
+ * Parses a comma-separated list of `<slug-or-condition-id>:<outcome>` references.
+ * The outcome defaults to "Yes" when omitted.
+ * @param spec The market references, e.g. "will-it-rain-tomorrow:No,0xabc...:Yes".
+ * @returns The parsed market references.
+ * @throws Error if the list is empty or a reference has no market.
+ */
+export function parseMarketRefs(spec: string): MarketRef[] {
+  const refs = spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.lastIndexOf(':');
+      const market = (separator === -1 ? entry : entry.slice(0, separator)).trim();
+      const outcome = (separator === -1 ? 'Yes' : entry.slice(separator + 1)).trim();
+
+      if (!market || !outcome) {
+        throw new Error(`Invalid market reference "${entry}", expected <slug-or-condition-id>:<outcome>`);
+      }
+      return { market, outcome };
+    });
+
+  if (refs.length === 0) {
+    throw new Error('At least one market is required');
+  }
+  return refs;
+}
+
+export class MarketResolver {
+  private readonly cacheFile: string | false;
+  private readonly fetch: (input: string) => Promise<Response>;
+  private readonly gammaUrl: string;
+  private readonly clobUrl: string;
+  private cache: Record<string, MarketInfo> | undefined;
+
+  constructor(options: MarketResolverOptions = {}) {
+    this.cacheFile = options.cacheFile ?? DEFAULT_MARKET_CACHE_FILE;
+    this.fetch = options.fetch ?? ((input) => fetch(input));
+    this.gammaUrl = options.gammaUrl ?? GAMMA_API_URL;
+    this.clobUrl = options.clobUrl ?? CLOB_API_URL;
+  }
+
+  /**
+   * Resolves market references to token IDs, in the order given.
+   * @param refs The market references.
+   * @returns One token ID per reference.
+   * @throws Error if a market or outcome cannot be found.
+   */
+  async resolveTokenIds(refs: MarketRef[]): Promise<string[]> {
+    const tokenIds: string[] = [];
+    for (const ref of refs) {
+      tokenIds.push(await this.resolveTokenId(ref));
+    }
+    return tokenIds;
+  }
+
+  /**
+   * Resolves a single market reference to a token ID.
+   * @param ref The market reference.
+   * @returns The CLOB token ID of the outcome.
+   * @throws Error if the market or outcome cannot be found.
+   */
+  async resolveTokenId(ref: MarketRef): Promise<string> {
+    const market = await this.getMarket(ref.market);
+    const outcome = Object.keys(market.tokens).find((label) => label.toLowerCase() === ref.outcome.toLowerCase());
+
+    if (!outcome) {
+      throw new Error(
+        `Outcome "${ref.outcome}" not found in market "${ref.market}", available: ${Object.keys(market.tokens).join(', ')}`,
+      );
+    }
+    return market.tokens[outcome];
+  }
+
+  /**
+   * Fetches a market by slug or condition ID, using the cache when possible.
+   * @param market The slug or condition ID.
+   * @returns The market with its outcome token IDs.
+   * @throws Error if the market cannot be found.
+   */
+  async getMarket(market: string): Promise<MarketInfo> {
+    const key = market.toLowerCase();
+    const cache = this.readCache();
+    if (cache[key]) {
+      return cache[key];
+    }
+
+    const info = isConditionId(market) ? await this.fetchByConditionId(market) : await this.fetchBySlug(market);
+    Object.values(info.tokens).forEach(assertTokenId);
+
+    cache[key] = info;
+    cache[info.conditionId.toLowerCase()] = info;
+    if (info.slug) {
+      cache[info.slug.toLowerCase()] = info;
+    }
+    this.writeCache(cache);
+
+    return info;
+  }
+
+  /**
+   * Fetches an event by ID or slug with the outcomes of its open markets. In an event of several markets (e.g. one
+   * per candidate) each market is an outcome, labelled with its short title and priced by its Yes token. An event
+   * of a single market lists the outcomes of that market. Closed markets are left out, they no longer trade.
+   * @param event The event ID or slug.
+   * @returns The event with its outcome labels and token IDs.
+   * @throws Error if the event cannot be found or has no open market.
+   */
+  async getEvent(event: string): Promise<EventInfo> {
+    const info = isEventId(event) ? await this.fetchEventById(event) : await this.fetchEventBySlug(event);
+    const markets = info.markets.filter((market) => !market.closed);
+    if (markets.length === 0) {
+      throw new Error(`Polymarket event "${event}" has no open market`);
+    }
+
+    const outcomes = markets.flatMap((market): EventOutcome[] => {
+      const labels = parseJsonList(market.outcomes);
+      const tokenIds = parseJsonList(market.clobTokenIds);
+      if (labels.length !== tokenIds.length) {
+        throw new Error(
+          `Polymarket market "${market.slug}" has ${labels.length} outcomes but ${tokenIds.length} token IDs`,
+        );
+      }
+      if (markets.length === 1) {
+        return labels.map((label, index) => ({ label, tokenId: tokenIds[index], conditionId: market.conditionId }));
+      }
+
+      const yes = labels.findIndex((label) => label.toLowerCase() === 'yes');
+      if (yes === -1) {
+        throw new Error(`Polymarket market "${market.slug}" of event "${event}" has no Yes outcome`);
+      }
+      const label = market.groupItemTitle || market.question || market.slug;
+      return [{ label, tokenId: tokenIds[yes], conditionId: market.conditionId }];
+    });
+    outcomes.forEach(({ tokenId }) => assertTokenId(tokenId));
+
+    return {
+      id: String(info.id),
+      slug: info.slug,
+      title: info.title,
+      // Markets of a negative-risk event share their collateral, only one of them can resolve to Yes
+      exclusive: markets.length === 1 || info.negRisk === true,
+      outcomes,
+    };
+  }
+
+  private async fetchEventBySlug(slug: string): Promise<GammaEvent> {
+    const response = await this.fetch(`${this.gammaUrl}/events?slug=${encodeURIComponent(slug)}`);
+    if (!response.ok) {
+      throw new Error(`Gamma API request for event "${slug}" failed with status ${response.status}`);
+    }
+
+    const events = (await response.json()) as GammaEvent[];
+    const event = events.find((entry) => entry.slug === slug);
+    if (!event) {
+      throw new Error(`Polymarket event "${slug}" not found`);
+    }
+    return event;
+  }
+
+  private async fetchEventById(id: string): Promise<GammaEvent> {
+    const response = await this.fetch(`${this.gammaUrl}/events/${id}`);
+    if (response.status === 404) {
+      throw new Error(`Polymarket event "${id}" not found`);
+    }
+    if (!response.ok) {
+      throw new Error(`Gamma API request for event "${id}" failed with status ${response.status}`);
+    }
+    return (await response.json()) as GammaEvent;
+  }
+
+  private async fetchBySlug(slug: string): Promise<MarketInfo> {
+    const response = await this.fetch(`${this.gammaUrl}/markets?slug=${encodeURIComponent(slug)}`);
+    if (!response.ok) {
+      throw new Error(`Gamma API request for market "${slug}" failed with status ${response.status}`);
+    }
+
+    const markets = (await response.json()) as GammaMarket[];
+    const market = markets.find((entry) => entry.slug === slug);
+    if (!market) {
+      throw new Error(`Polymarket market "${slug}" not found`);
+    }
+
+    const outcomes = parseJsonList(market.outcomes);
+    const tokenIds = parseJsonList(market.clobTokenIds);
+    if (outcomes.length !== tokenIds.length) {
+      throw new Error(`Polymarket market "${slug}" has ${outcomes.length} outcomes but ${tokenIds.length} token IDs`);
+    }
+
+    return {
+      conditionId: market.conditionId,
+      slug: market.slug,
+      question: market.question,
+      tokens: Object.fromEntries(outcomes.map((outcome, index) => [outcome, tokenIds[index]])),
+    };
+  }
+
+  private async fetchByConditionId(conditionId: string): Promise<MarketInfo> {
+    const response = await this.fetch(`${this.clobUrl}/markets/${conditionId}`);
+    if (response.status === 404) {
+      throw new Error(`Polymarket market "${conditionId}" not found`);
+    }
+    if (!response.ok) {
+      throw new Error(`CLOB API request for market "${conditionId}" failed with status ${response.status}`);
+    }
+
+    const market = (await response.json()) as ClobMarket;
+    return {
+      conditionId: market.condition_id,
+      slug: market.market_slug,
+      question: market.question,
+      tokens: Object.fromEntries(market.tokens.map((token) => [token.outcome, token.token_id])),
+    };
+  }
+
+  private readCache(): Record<string, MarketInfo> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    let cache: Record<string, MarketInfo> = {};
+    if (this.cacheFile && existsSync(this.cacheFile)) {
+      try {
+        cache = JSON.parse(readFileSync(this.cacheFile, 'utf8'));
+      } catch (error) {
+        throw new Error(`Could not parse market cache ${this.cacheFile}: ${error}`);
+      }
+    }
+
+    this.cache = cache;
+    return cache;
+  }
+
+  private writeCache(cache: Record<string, MarketInfo>): void {
+    if (this.cacheFile) {
+      writeFileSync(this.cacheFile, JSON.stringify(cache, null, 2));
+    }
+  }
+}
+
+/** Market as returned by the Gamma API (list fields are JSON-encoded strings) */
+interface GammaMarket {
+  conditionId: string;
+  slug: string;
+  question?: string;
+  outcomes: string | string[];
+  clobTokenIds: string | string[];
+  /** Short label of the market within its event, e.g. a candidate's name */
+  groupItemTitle?: string;
+  closed?: boolean;
+}
+
+/** Event as returned by the Gamma API, with its markets */
+interface GammaEvent {
+  id: string | number;
+  slug: string;
+  title?: string;
+  negRisk?: boolean;
+  markets: GammaMarket[];
+}
+
+/** Market as returned by the CLOB API */
+interface ClobMarket {
+  condition_id: string;
+  market_slug?: string;
+  question?: string;
+  tokens: { token_id: string; outcome: string }[];
+}
+
+function parseJsonList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : JSON.parse(value);
+}
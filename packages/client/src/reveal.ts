@@ -0,0 +1,84 @@
+/**
+ * Execution reveal of the oracle program: a JSON array with one entry per requested token,
+ * e.g. `[{"status":"ok","mid":"0.505","bid":"0.5","ask":"0.51"},{"status":"resolved","outcome":"1"}]`.
+ * Prices are the decimal strings returned by the CLOB, which the tally converts to fixed point exactly.
+ */
+
+/** Prices an executor observed for a token, optional fields are omitted when not requested or unavailable */
+export interface Quote {
+  mid: string;
+  bid?: string;
+  ask?: string;
+  spread?: string;
+  last_trade?: string;
+  twap?: string;
+}
+
+/**
+ * What an executor observed for a single token. Tokens of resolved markets reveal their final outcome (1 if the
+ * outcome won, 0 otherwise), tokens of markets that closed without a final outcome yet are reported as closed.
+ */
+export type TokenReveal =
+  | ({ status: 'ok' } & Quote)
+  | { status: 'resolved'; outcome: string }
+  | { status: 'closed' }
+  | { status: 'fetch_failed' }
+  | { status: 'parse_failed' };
+
+const UNPRICED_STATUSES = ['closed', 'fetch_failed', 'parse_failed'];
+const OPTIONAL_QUOTE_FIELDS = ['bid', 'ask', 'spread', 'last_trade', 'twap'] as const;
+
+/** Plain non-negative decimal as accepted by the tally, at most 18 digits on either side of the point */
+const DECIMAL_PATTERN = /^(?=\.?\d)\d{0,18}(\.\d{0,18})?$/;
+
+/**
+ * Encodes token observations the way the execution phase reveals them.
+ * @param tokens One entry per token, in request order.
+ * @returns The UTF-8 encoded JSON reveal.
+ */
+export function encodeReveal(tokens: TokenReveal[]): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(tokens));
+}
+
+/**
+ * Decodes an execution reveal.
+ * @param reveal The UTF-8 encoded JSON reveal.
+ * @returns One entry per token, in request order.
+ * @throws Error if the reveal is not a JSON array of token entries.
+ */
+export function decodeReveal(reveal: Uint8Array): TokenReveal[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(reveal));
+  } catch (error) {
+    throw new Error(`Reveal is not valid JSON: ${error}`);
+  }
+
+  if (!Array.isArray(parsed) || !parsed.every(isTokenReveal)) {
+    throw new Error('Reveal is not an array of token entries');
+  }
+
+  return parsed;
+}
+
+function isTokenReveal(value: unknown): value is TokenReveal {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const entry = value as Record<string, unknown>;
+  if (entry.status === 'ok') {
+    return (
+      isDecimal(entry.mid) &&
+      OPTIONAL_QUOTE_FIELDS.every((field) => entry[field] === undefined || isDecimal(entry[field]))
+    );
+  }
+  if (entry.status === 'resolved') {
+    return isDecimal(entry.outcome);
+  }
+  return typeof entry.status === 'string' && UNPRICED_STATUSES.includes(entry.status);
+}
+
+function isDecimal(value: unknown): value is string {
+  return typeof value === 'string' && DECIMAL_PATTERN.test(value);
+}
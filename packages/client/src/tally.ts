@@ -0,0 +1,256 @@
+/**
+ * Tally result of the oracle program: `abi.encode(uint256[] prices, uint8[] statuses, uint256[] bids,
+ * uint256[] asks, uint256[] spreads, uint256[] lastTrades, uint256[] twaps)` with one entry per requested token.
+ * Prices are scaled to a fixed point with `PRICE_DECIMALS` decimals (0.505 -> 505000), or the decimals selected in
+ * the tally inputs, and are 0 for tokens whose status is not `PriceStatus.Ok`, except for `PriceStatus.Resolved`
+ * tokens whose price is their final outcome (1 or 0). Order-book fields and the TWAP are also 0 when they were not
+ * requested.
+ */
+
+import { decodeUint256Arrays, encodeUint256Arrays } from './abi';
+
+/** Number of decimals of the fixed-point prices in the tally result, unless the tally inputs select others */
+export const PRICE_DECIMALS = 6;
+
+/** Most decimals the tally phase accepts in its inputs */
+export const MAX_PRICE_DECIMALS = 18;
+
+/** Largest distance from 1 the prices of an outcome set may sum to, unless the tally inputs select another */
+export const DEFAULT_OUTCOME_TOLERANCE = '0.05';
+
+/** Exit code of a tally whose outcome sets do not sum to 1 within the tolerance, the result holds the message */
+export const OUTCOME_SET_VIOLATION_EXIT_CODE = 2;
+
+/** Tally inputs of a request, omitted options use the oracle program defaults */
+export interface TallyInputs {
+  /** Number of decimals of the fixed-point prices, `PRICE_DECIMALS` by default */
+  decimals?: number;
+  /**
+   * Groups of token indices (in request order) priced as the outcomes of one market, e.g. `[[0, 1]]` for the Yes
+   * and No token of a binary market. The tally fails with `OUTCOME_SET_VIOLATION_EXIT_CODE` unless each set sums
+   * to 1 within the tolerance.
+   */
+  outcomeSets?: number[][];
+  /** Decimal tolerance of the outcome set check, `DEFAULT_OUTCOME_TOLERANCE` by default */
+  tolerance?: string;
+  /** Rescale the prices of every checked outcome set so that they sum to exactly 1 */
+  normalize?: boolean;
+}
+
+/** Per-token status of the tally result, mirrors `PriceFeed.PriceStatus` */
+export enum PriceStatus {
+  Ok = 0,
+  FetchFailed = 1,
+  ParseFailed = 2,
+  /** The market resolved, the price is the final outcome of the token */
+  Resolved = 3,
+  /** The market closed without a final outcome yet */
+  Closed = 4,
+}
+
+/** Number of arrays in the tally result */
+const TALLY_FIELD_COUNT = 7;
+
+/** Price, status and order-book data of a single token */
+export interface TokenPrice {
+  status: PriceStatus;
+  /** Midpoint */
+  price: bigint;
+  /** Best bid, 0 if not requested or the book has no bids */
+  bid: bigint;
+  /** Best ask, 0 if not requested or the book has no asks */
+  ask: bigint;
+  /** Best ask minus best bid, 0 if not requested or either side is empty */
+  spread: bigint;
+  /** Price of the last trade, 0 if not requested or unavailable */
+  lastTrade: bigint;
+  /** Time-weighted average of the price history, 0 unless requested in TWAP mode and available */
+  twap: bigint;
+}
+
+/** A token price as accepted by `encodeTallyResult`, order-book fields and the TWAP default to 0 */
+export type TokenPriceInput = Pick<TokenPrice, 'status' | 'price'> & Partial<TokenPrice>;
+
+/**
+ * Decodes a tally result into per-token prices.
+ * @param result The tally result as bytes or hex string (as returned by SEDA Core).
+ * @returns One entry per token, in request order.
+ * @throws Error if the result is malformed or the arrays differ in length.
+ */
+export function decodeTallyResult(result: Uint8Array | string): TokenPrice[] {
+  const [prices, statuses, bids, asks, spreads, lastTrades, twaps] = decodeUint256Arrays(result, TALLY_FIELD_COUNT);
+  for (const array of [statuses, bids, asks, spreads, lastTrades, twaps]) {
+    if (array.length !== prices.length) {
+      throw new Error(`Tally result has ${prices.length} prices but an array of ${array.length} entries`);
+    }
+  }
+
+  return prices.map((price, index) => {
+    const status = Number(statuses[index]);
+    if (!(status in PriceStatus)) {
+      throw new Error(`Unknown price status ${status} for token ${index}`);
+    }
+    return {
+      status,
+      price,
+      bid: bids[index],
+      ask: asks[index],
+      spread: spreads[index],
+      lastTrade: lastTrades[index],
+      twap: twaps[index],
+    };
+  });
+}
+
+/**
+ * Encodes per-token prices the way the tally phase reports them.
+ * @param prices One entry per token, in request order.
+ * @returns The ABI-encoded tally result.
+ */
+export function encodeTallyResult(prices: TokenPriceInput[]): Uint8Array {
+  return encodeUint256Arrays([
+    prices.map(({ price }) => price),
+    prices.map(({ status }) => BigInt(status)),
+    prices.map(({ bid }) => bid ?? 0n),
+    prices.map(({ ask }) => ask ?? 0n),
+    prices.map(({ spread }) => spread ?? 0n),
+    prices.map(({ lastTrade }) => lastTrade ?? 0n),
+    prices.map(({ twap }) => twap ?? 0n),
+  ]);
+}
+
+/**
+ * Encodes the tally inputs of a request as the JSON object the tally phase reads
+ * (e.g. `{"decimals":8,"outcome_sets":[[0,1]],"normalize":true}`).
+ * @param inputs The tally options.
+ * @returns The UTF-8 encoded JSON, or empty bytes when all options are left at their defaults.
+ * @throws Error if the number of decimals is not an integer between 0 and `MAX_PRICE_DECIMALS`, an outcome set has
+ * fewer than 2 tokens or shares a token with another set, or the tolerance is not a decimal between 0 and 1.
+ */
+export function encodeTallyInputs({ decimals, outcomeSets = [], tolerance, normalize }: TallyInputs = {}): Uint8Array {
+  if (decimals !== undefined && (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_PRICE_DECIMALS)) {
+    throw new Error(`Decimals must be an integer between 0 and ${MAX_PRICE_DECIMALS}, got ${decimals}`);
+  }
+  assertOutcomeSets(outcomeSets);
+  if (tolerance !== undefined) {
+    assertTolerance(tolerance);
+  }
+
+  const inputs = {
+    ...(decimals !== undefined && { decimals }),
+    ...(outcomeSets.length > 0 && { outcome_sets: outcomeSets }),
+    ...(tolerance !== undefined && { tolerance: tolerance.trim() }),
+    ...(normalize && { normalize }),
+  };
+  if (Object.keys(inputs).length === 0) {
+    return new Uint8Array();
+  }
+  return new TextEncoder().encode(JSON.stringify(inputs));
+}
+
+/**
+ * Throws if outcome sets are not accepted by the tally phase.
+ * @param outcomeSets Groups of token indices.
+ * @throws Error if a set has fewer than 2 tokens, an index is not a non-negative integer or a token is in more than
+ * one set.
+ */
+export function assertOutcomeSets(outcomeSets: number[][]): void {
+  const seen = new Set<number>();
+  for (const set of outcomeSets) {
+    if (set.length < 2) {
+      throw new Error(`Outcome sets need at least 2 tokens, got [${set.join(', ')}]`);
+    }
+    for (const index of set) {
+      if (!Number.isInteger(index) || index < 0) {
+        throw new Error(`Invalid token index ${index} in an outcome set`);
+      }
+      if (seen.has(index)) {
+        throw new Error(`Token ${index} is in more than one outcome set`);
+      }
+      seen.add(index);
+    }
+  }
+}
+
+/**
+ * Throws if an outcome set tolerance is not accepted by the tally phase.
+ * @param tolerance The tolerance as a decimal string.
+ * @throws Error if the tolerance is not a decimal between 0 and 1 with at most `MAX_PRICE_DECIMALS` fraction digits.
+ */
+export function assertTolerance(tolerance: string): void {
+  const value = tolerance.trim();
+  if (!/^\d+(\.\d{1,18})?$/.test(value) || parsePrice(value, MAX_PRICE_DECIMALS) > 10n ** BigInt(MAX_PRICE_DECIMALS)) {
+    throw new Error(`Tolerance must be a decimal between 0 and 1, got "${tolerance}"`);
+  }
+}
+
+/**
+ * Describes a price status for display ("ok", "fetch failed", "parse failed", "resolved", "market closed").
+ * @param status The price status.
+ * @returns A human-readable description.
+ */
+export function describeStatus(status: PriceStatus | bigint | number): string {
+  switch (Number(status)) {
+    case PriceStatus.Ok:
+      return 'ok';
+    case PriceStatus.FetchFailed:
+      return 'fetch failed';
+    case PriceStatus.ParseFailed:
+      return 'parse failed';
+    case PriceStatus.Resolved:
+      return 'resolved';
+    case PriceStatus.Closed:
+      return 'market closed';
+    default:
+      return `unknown status ${status}`;
+  }
+}
+
+/**
+ * Checks whether a status comes with a price: a midpoint, or the final outcome of a resolved market.
+ * @param status The price status.
+ * @returns True for `PriceStatus.Ok` and `PriceStatus.Resolved`.
+ */
+export function hasPrice(status: PriceStatus | bigint | number): boolean {
+  return Number(status) === PriceStatus.Ok || Number(status) === PriceStatus.Resolved;
+}
+
+/**
+ * Formats a fixed-point price as a decimal string (505000n -> "0.505").
+ * @param value The scaled price.
+ * @param decimals Number of decimals of the fixed point.
+ * @returns The decimal representation without trailing zeros.
+ */
+export function formatPrice(value: bigint, decimals = PRICE_DECIMALS): string {
+  const scale = 10n ** BigInt(decimals);
+  const whole = value / scale;
+  const fraction = (value % scale).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+/**
+ * Parses a decimal string into a fixed-point price ("0.505" -> 505000n).
+ * @param value The decimal price.
+ * @param decimals Number of decimals of the fixed point.
+ * @returns The scaled price.
+ * @throws Error if the value is not a non-negative decimal with at most `decimals` fraction digits.
+ */
+export function parsePrice(value: string, decimals = PRICE_DECIMALS): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value.trim());
+  if (!match || (match[2] ?? '').length > decimals) {
+    throw new Error(`Invalid price "${value}" for ${decimals} decimals`);
+  }
+
+  const [, whole, fraction = ''] = match;
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+}
+
+/**
+ * Converts a fixed-point price to a JavaScript number (505000n -> 0.505).
+ * @param value The scaled price.
+ * @param decimals Number of decimals of the fixed point.
+ * @returns The price as a float, for display purposes.
+ */
+export function toDecimal(value: bigint, decimals = PRICE_DECIMALS): number {
+  return Number(formatPrice(value, decimals));
+}
@@ -0,0 +1,305 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { PostDataRequestInput } from '@seda-protocol/dev-tools';
+import {
+  assertTolerance,
+  assertTwapOptions,
+  DEFAULT_MARKET_CACHE_FILE,
+  DEFAULT_OUTCOME_TOLERANCE,
+  DEFAULT_TWAP_INTERVAL,
+  DEFAULT_TWAP_WINDOW,
+  MARKET_FIELDS,
+  MAX_PRICE_DECIMALS,
+  type MarketField,
+  type MarketRef,
+  PRICE_MODES,
+  type PriceMode,
+  parseMarketFields,
+  parseMarketRefs,
+  parseOutcomeSets,
+  parseTokenIds,
+  type TwapOptions,
+} from '../packages/client/src';
+
+/** Default time to wait for a result, in seconds */
+export const DEFAULT_TIMEOUT_SECONDS = 300;
+
+/** Default time between result queries, in seconds */
+export const DEFAULT_POLL_INTERVAL_SECONDS = 10;
+
+export const USAGE = `Usage: bun run post-dr -- [options]
+
+Token selection (at least one required, optional with --await where it only labels the prices):
+  --token-ids <ids>            Comma-separated Polymarket token IDs (repeatable)
+  --token-file <path>          File with token IDs separated by commas or newlines (# starts a comment)
+  --markets <refs>             Comma-separated <slug-or-condition-id>:<outcome> references (repeatable),
+                               resolved to token IDs through the Polymarket APIs (outcome defaults to Yes)
+  --market-cache <path>        Cache file for resolved markets (default: ${DEFAULT_MARKET_CACHE_FILE})
+  --outcome-sets <sets>        Token IDs priced as the outcomes of one market, sets separated by semicolons
+                               (e.g. <yes>,<no>;<a>,<b>,<c>, repeatable), the tally fails unless each set sums to 1
+  --event <id-or-slug>         Every outcome of a Polymarket event, priced with their labels and ranked,
+                               with --normalize or --tolerance they are checked as one outcome set
+
+Request options:
+  --fields <fields>            Comma-separated order-book fields to fetch next to the midpoint (repeatable):
+                               ${MARKET_FIELDS.join(', ')}
+  --mode <mode>                "spot" for the midpoint only, or "twap" to also average the CLOB price history
+                               (default: spot)
+  --window <seconds>           Price history the TWAP covers, with --mode twap (default: ${DEFAULT_TWAP_WINDOW})
+  --interval <seconds>         Time between the history samples, a multiple of 60 (default: ${DEFAULT_TWAP_INTERVAL})
+  --decimals <n>               Decimals of the fixed-point prices in the result, 0-${MAX_PRICE_DECIMALS} (default: 6)
+  --tolerance <decimal>        Largest distance from 1 an outcome set or event may sum to (default: ${DEFAULT_OUTCOME_TOLERANCE})
+  --normalize                  Rescale the prices of every outcome set (or event) to sum to exactly 1
+  --replication-factor <n>     Number of executors that run the request (default: SDK default)
+  --exec-gas-limit <gas>       Gas limit for the execution phase
+  --tally-gas-limit <gas>      Gas limit for the tally phase
+  --gas-price <price>          SEDA tokens paid per unit of gas
+  --consensus <method>         Consensus filter: "none" or "mode" (default: none)
+  --consensus-json-path <p>    JSON path the "mode" filter compares (default: $)
+  --memo <text>                Public memo attached to the request (default: current time)
+
+Result:
+  --await <dr-id>              Wait for the result of an already posted request instead of posting one
+  --dr-height <height>         Block height the awaited request was posted at (required with --await)
+  --timeout <seconds>          Time to wait for the result (default: ${DEFAULT_TIMEOUT_SECONDS})
+  --poll-interval <seconds>    Time between result queries (default: ${DEFAULT_POLL_INTERVAL_SECONDS})
+
+Output:
+  --json                       Print the result as JSON on stdout, progress goes to stderr
+  -h, --help                   Show this message
+
+Exit codes: 0 prices, 1 error, 2 no consensus, 3 oracle program error, 4 timeout, 5 outcome set violated`;
+
+type ConsensusOptions = NonNullable<PostDataRequestInput['consensusOptions']>;
+
+export interface PostDrOptions {
+  tokenIds: string[];
+  markets: MarketRef[];
+  marketCacheFile: string;
+  fields: MarketField[];
+  /** Token IDs of every outcome set, they are also part of `tokenIds` */
+  outcomeSets: string[][];
+  /** Event ID or slug whose outcomes are priced, instead of token IDs */
+  event?: string;
+  tolerance?: string;
+  normalize: boolean;
+  /** Window and interval of the TWAP, spot mode if undefined */
+  twap?: TwapOptions;
+  decimals?: number;
+  replicationFactor?: number;
+  execGasLimit?: number;
+  tallyGasLimit?: number;
+  gasPrice?: bigint;
+  consensusOptions: ConsensusOptions;
+  memo: string;
+  /** Existing request to wait for, nothing is posted if set */
+  awaitDrId?: string;
+  drHeight?: bigint;
+  timeoutSeconds: number;
+  pollIntervalSeconds: number;
+  json: boolean;
+  help: boolean;
+}
+
+/**
+ * Parses the post-dr command-line arguments.
+ * @param argv Arguments without the runtime and script path.
+ * @returns The parsed options.
+ * @throws Error if an option is unknown or has an invalid value.
+ */
+export function parsePostDrArgs(argv: string[]): PostDrOptions {
+  const { values } = parseArgs({
+    args: argv,
+    strict: true,
+    options: {
+      'token-ids': { type: 'string', multiple: true },
+      'token-file': { type: 'string' },
+      markets: { type: 'string', multiple: true },
+      'market-cache': { type: 'string', default: DEFAULT_MARKET_CACHE_FILE },
+      'outcome-sets': { type: 'string', multiple: true },
+      event: { type: 'string' },
+      fields: { type: 'string', multiple: true },
+      mode: { type: 'string', default: 'spot' },
+      window: { type: 'string' },
+      interval: { type: 'string' },
+      decimals: { type: 'string' },
+      tolerance: { type: 'string' },
+      normalize: { type: 'boolean', default: false },
+      'replication-factor': { type: 'string' },
+      'exec-gas-limit': { type: 'string' },
+      'tally-gas-limit': { type: 'string' },
+      'gas-price': { type: 'string' },
+      consensus: { type: 'string', default: 'none' },
+      'consensus-json-path': { type: 'string', default: '$' },
+      memo: { type: 'string' },
+      await: { type: 'string' },
+      'dr-height': { type: 'string' },
+      timeout: { type: 'string' },
+      'poll-interval': { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const options: PostDrOptions = {
+    tokenIds: [],
+    markets: [],
+    marketCacheFile: values['market-cache'] ?? DEFAULT_MARKET_CACHE_FILE,
+    fields: [],
+    outcomeSets: [],
+    normalize: values.normalize ?? false,
+    consensusOptions: parseConsensus(values.consensus ?? 'none', values['consensus-json-path'] ?? '$'),
+    memo: values.memo ?? new Date().toISOString(),
+    timeoutSeconds: DEFAULT_TIMEOUT_SECONDS,
+    pollIntervalSeconds: DEFAULT_POLL_INTERVAL_SECONDS,
+    json: values.json ?? false,
+    help: values.help ?? false,
+  };
+
+  if (options.help) {
+    return options;
+  }
+
+  const tokenIds = (values['token-ids'] ?? []).flatMap((list) => parseTokenIds(list));
+  if (values['token-file']) {
+    tokenIds.push(...readTokenIdsFile(values['token-file']));
+  }
+  options.outcomeSets = parseOutcomeSets((values['outcome-sets'] ?? []).join(';'));
+  tokenIds.push(...options.outcomeSets.flat());
+  options.tokenIds = [...new Set(tokenIds)];
+  options.markets = (values.markets ?? []).flatMap((spec) => parseMarketRefs(spec));
+  if (values.event !== undefined) {
+    if (options.tokenIds.length > 0 || options.markets.length > 0) {
+      throw new Error('--event already lists every token, it cannot be combined with other token selections');
+    }
+    options.event = values.event.trim();
+    if (!options.event) {
+      throw new Error('--event must be an event ID or slug');
+    }
+  }
+
+  if (values.await !== undefined) {
+    options.awaitDrId = parseDrId(values.await);
+    if (values['dr-height'] === undefined) {
+      throw new Error('--await needs the block height the request was posted at, use --dr-height');
+    }
+    options.drHeight = parsePositiveBigInt('dr-height', values['dr-height']);
+  } else if (values['dr-height'] !== undefined) {
+    throw new Error('--dr-height can only be used with --await');
+  }
+  if (values.timeout !== undefined) {
+    options.timeoutSeconds = parsePositiveInteger('timeout', values.timeout);
+  }
+  if (values['poll-interval'] !== undefined) {
+    options.pollIntervalSeconds = parsePositiveInteger('poll-interval', values['poll-interval']);
+  }
+
+  if (options.tokenIds.length === 0 && options.markets.length === 0 && !options.event && !options.awaitDrId) {
+    throw new Error('No token IDs given, use --token-ids, --token-file, --outcome-sets, --markets or --event');
+  }
+
+  options.fields = parseMarketFields((values.fields ?? []).join(','));
+  options.twap = parseMode(values.mode ?? 'spot', values.window, values.interval);
+
+  if (values.decimals !== undefined) {
+    options.decimals = parseDecimals(values.decimals);
+  }
+  if ((values.tolerance !== undefined || options.normalize) && options.outcomeSets.length === 0 && !options.event) {
+    throw new Error('--tolerance and --normalize can only be used with --outcome-sets or --event');
+  }
+  if (values.tolerance !== undefined) {
+    assertTolerance(values.tolerance);
+    options.tolerance = values.tolerance.trim();
+  }
+  if (values['replication-factor'] !== undefined) {
+    options.replicationFactor = parsePositiveInteger('replication-factor', values['replication-factor']);
+  }
+  if (values['exec-gas-limit'] !== undefined) {
+    options.execGasLimit = parsePositiveInteger('exec-gas-limit', values['exec-gas-limit']);
+  }
+  if (values['tally-gas-limit'] !== undefined) {
+    options.tallyGasLimit = parsePositiveInteger('tally-gas-limit', values['tally-gas-limit']);
+  }
+  if (values['gas-price'] !== undefined) {
+    options.gasPrice = parsePositiveBigInt('gas-price', values['gas-price']);
+  }
+
+  return options;
+}
+
+/**
+ * Reads token IDs from a file. IDs may be separated by commas, spaces or newlines,
+ * and everything after a `#` on a line is ignored.
+ * @param path Path to the token file.
+ * @returns The validated token IDs.
+ */
+export function readTokenIdsFile(path: string): string[] {
+  const content = readFileSync(path, 'utf8')
+    .split('\n')
+    .map((line) => line.replace(/#.*$/, ''))
+    .join(',')
+    .replace(/\s+/g, ',');
+
+  return parseTokenIds(content);
+}
+
+function parseConsensus(method: string, jsonPath: string): ConsensusOptions {
+  switch (method) {
+    case 'none':
+      return { method: 'none' };
+    case 'mode':
+      return { method: 'mode', jsonPath };
+    default:
+      throw new Error(`Unknown consensus method "${method}", expected "none" or "mode"`);
+  }
+}
+
+function parseMode(mode: string, window?: string, interval?: string): TwapOptions | undefined {
+  if (!PRICE_MODES.includes(mode as PriceMode)) {
+    throw new Error(`Unknown mode "${mode}", expected ${PRICE_MODES.map((name) => `"${name}"`).join(' or ')}`);
+  }
+  if (mode === 'spot') {
+    if (window !== undefined || interval !== undefined) {
+      throw new Error('--window and --interval can only be used with --mode twap');
+    }
+    return undefined;
+  }
+
+  const twap = {
+    window: window !== undefined ? parsePositiveInteger('window', window) : DEFAULT_TWAP_WINDOW,
+    interval: interval !== undefined ? parsePositiveInteger('interval', interval) : DEFAULT_TWAP_INTERVAL,
+  };
+  assertTwapOptions(twap);
+  return twap;
+}
+
+function parseDrId(value: string): string {
+  const drId = value.startsWith('0x') ? value.slice(2) : value;
+  if (!/^[0-9a-fA-F]{64}$/.test(drId)) {
+    throw new Error(`--await must be a data request ID (64 hex characters), got "${value}"`);
+  }
+  return drId.toLowerCase();
+}
+
+function parseDecimals(value: string): number {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || parsed > MAX_PRICE_DECIMALS) {
+    throw new Error(`--decimals must be an integer between 0 and ${MAX_PRICE_DECIMALS}, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parsePositiveInteger(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(parsed) || parsed === 0) {
+    throw new Error(`--${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parsePositiveBigInt(name: string, value: string): bigint {
+  if (!/^\d+$/.test(value) || BigInt(value) === 0n) {
+    throw new Error(`--${name} must be a positive integer, got "${value}"`);
+  }
+  return BigInt(value);
+}
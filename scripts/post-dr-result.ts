@@ -0,0 +1,204 @@
+import {
+  OUTCOME_SET_VIOLATION_EXIT_CODE,
+  PRICE_DECIMALS,
+  decodeTallyResult,
+  describeStatus,
+  formatPrice,
+  hasPrice,
+  parsePrice,
+  rankByPrice,
+  toBytes,
+} from '../packages/client/src';
+
+/** Exit codes of post-dr, so callers can tell why a request did not produce prices */
+export const EXIT_CODES = {
+  /** The request resolved with prices */
+  success: 0,
+  /** Invalid arguments, a failed transaction or any other error */
+  error: 1,
+  /** The executors did not reach consensus */
+  noConsensus: 2,
+  /** The oracle program exited with a non-zero code */
+  programError: 3,
+  /** No result within the timeout */
+  timeout: 4,
+  /** The prices of an outcome set did not sum to 1 within the tolerance */
+  outcomeSetViolation: 5,
+} as const;
+
+/** The parts of a SEDA data request result post-dr reads */
+export interface DataResult {
+  drId: string;
+  consensus: boolean;
+  exitCode: number;
+  /** Tally result as a (0x-prefixed) hex string */
+  result: string;
+}
+
+/** Decimal prices of a token, order-book fields and the TWAP are `-` when the oracle did not fetch them */
+export interface LabelledPrice {
+  tokenId: string;
+  status: string;
+  mid: string;
+  bid: string;
+  ask: string;
+  spread: string;
+  lastTrade: string;
+  twap: string;
+}
+
+/** A price labelled with the event outcome of its token and its rank among the outcomes */
+export interface RankedPrice extends LabelledPrice {
+  rank: number;
+  outcome: string;
+}
+
+/** What a data request result means for post-dr */
+export type ResultOutcome =
+  | { kind: 'prices'; prices: LabelledPrice[] }
+  | { kind: 'no_consensus' }
+  | { kind: 'program_error'; exitCode: number; message: string }
+  | { kind: 'outcome_set_violation'; message: string };
+
+export class ResultTimeoutError extends Error {
+  constructor(
+    readonly drId: string,
+    readonly timeoutSeconds: number,
+  ) {
+    super(`No result for data request ${drId} after ${timeoutSeconds}s`);
+    this.name = 'ResultTimeoutError';
+  }
+}
+
+export interface AwaitResultOptions {
+  timeoutSeconds: number;
+  pollIntervalSeconds: number;
+  /** Current time in milliseconds, `Date.now` by default */
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  /** Called when a query failed and is retried */
+  onRetry?: (error: unknown) => void;
+}
+
+/**
+ * Interprets a data request result: decodes the tally into decimal prices labelled with their token IDs,
+ * or reports why there are none.
+ * @param result The data request result.
+ * @param tokenIds Token IDs of the request in request order, tokens are labelled by index if empty.
+ * @param decimals Decimals of the fixed-point prices, as sent in the tally inputs.
+ * @returns The prices, or the reason the request did not produce any.
+ * @throws Error if the tally result is malformed or has a different number of prices than token IDs.
+ */
+export function interpretResult(result: DataResult, tokenIds: string[], decimals = PRICE_DECIMALS): ResultOutcome {
+  if (!result.consensus) {
+    return { kind: 'no_consensus' };
+  }
+  if (result.exitCode !== 0) {
+    // The oracle program reports errors as the UTF-8 message in the result
+    const message = new TextDecoder().decode(toBytes(result.result));
+    if (result.exitCode === OUTCOME_SET_VIOLATION_EXIT_CODE) {
+      return { kind: 'outcome_set_violation', message };
+    }
+    return { kind: 'program_error', exitCode: result.exitCode, message };
+  }
+
+  const prices = decodeTallyResult(result.result);
+  if (tokenIds.length > 0 && tokenIds.length !== prices.length) {
+    throw new Error(`Result has ${prices.length} prices but ${tokenIds.length} token IDs were given`);
+  }
+
+  const optional = (value: bigint) => (value === 0n ? '-' : formatPrice(value, decimals));
+  return {
+    kind: 'prices',
+    prices: prices.map((price, index) => {
+      const tokenId = tokenIds[index] ?? `#${index}`;
+      const status = describeStatus(price.status);
+      if (!hasPrice(price.status)) {
+        return { tokenId, status, mid: '-', bid: '-', ask: '-', spread: '-', lastTrade: '-', twap: '-' };
+      }
+      return {
+        tokenId,
+        status,
+        mid: formatPrice(price.price, decimals),
+        bid: optional(price.bid),
+        ask: optional(price.ask),
+        spread: optional(price.spread),
+        lastTrade: optional(price.lastTrade),
+        twap: optional(price.twap),
+      };
+    }),
+  };
+}
+
+/**
+ * Labels the prices of an event's outcomes and ranks them, most likely outcome first. Outcomes without a price
+ * are ranked last.
+ * @param prices The prices in request order, as returned by `interpretResult`.
+ * @param labels The outcome label of each price, in request order.
+ * @param decimals Decimals of the prices.
+ * @returns The labelled prices, ranked.
+ * @throws Error if there is not one label per price.
+ */
+export function rankOutcomes(prices: LabelledPrice[], labels: string[], decimals = PRICE_DECIMALS): RankedPrice[] {
+  if (labels.length !== prices.length) {
+    throw new Error(`Result has ${prices.length} prices but the event has ${labels.length} outcomes`);
+  }
+
+  const labelled = prices.map((price, index) => ({ outcome: labels[index], price }));
+  const ranked = rankByPrice(labelled, ({ price }) =>
+    price.mid === '-' ? undefined : parsePrice(price.mid, decimals),
+  );
+  return ranked.map(({ outcome, price }, index) => ({ rank: index + 1, outcome, ...price }));
+}
+
+/**
+ * Maps the outcome of a request to the exit code of post-dr.
+ */
+export function exitCodeFor(outcome: ResultOutcome): number {
+  switch (outcome.kind) {
+    case 'prices':
+      return EXIT_CODES.success;
+    case 'no_consensus':
+      return EXIT_CODES.noConsensus;
+    case 'program_error':
+      return EXIT_CODES.programError;
+    case 'outcome_set_violation':
+      return EXIT_CODES.outcomeSetViolation;
+  }
+}
+
+/**
+ * Waits for the result of a data request. Failed queries, e.g. because the RPC is unreachable, are retried every
+ * poll interval until the timeout.
+ * @param drId ID of the data request, for the timeout error.
+ * @param query Fetches the result, or resolves to undefined if there is none yet. Receives the seconds left.
+ * @param options Timeout and poll interval.
+ * @returns The result.
+ * @throws ResultTimeoutError if there is no result within the timeout.
+ */
+export async function awaitResult<T>(
+  drId: string,
+  query: (remainingSeconds: number) => Promise<T | undefined>,
+  options: AwaitResultOptions,
+): Promise<T> {
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const deadline = now() + options.timeoutSeconds * 1000;
+
+  while (now() < deadline) {
+    try {
+      const result = await query(Math.ceil((deadline - now()) / 1000));
+      if (result !== undefined) {
+        return result;
+      }
+    } catch (error) {
+      if (now() >= deadline) {
+        break;
+      }
+      options.onRetry?.(error);
+    }
+    await sleep(Math.min(options.pollIntervalSeconds * 1000, Math.max(deadline - now(), 0)));
+  }
+
+  throw new ResultTimeoutError(drId, options.timeoutSeconds);
+}
@@ -1,6 +1,149 @@
-import { PostDataRequestInput, Signer, buildSigningConfig, postAndAwaitDataRequest } from '@seda-protocol/dev-tools';
+import {
+    PostDataRequestInput,
+    Signer,
+    awaitDataResult,
+    buildQueryConfig,
+    buildSigningConfig,
+    postDataRequest,
+} from '@seda-protocol/dev-tools';
+import { MarketResolver, encodeExecInputs, encodeTallyInputs, outcomeSetIndices } from '../packages/client/src';
+import { USAGE, parsePostDrArgs, type PostDrOptions } from './post-dr-args';
+import { EXIT_CODES, ResultTimeoutError, awaitResult, exitCodeFor, interpretResult, rankOutcomes } from './post-dr-result';
 
-async function main() {
+async function main(): Promise<number> {
+    const options = parsePostDrArgs(process.argv.slice(2));
+
+    if (options.help) {
+        console.log(USAGE);
+        return EXIT_CODES.success;
+    }
+
+    // With --json, stdout is reserved for the result so it can be piped into other tooling
+    const log = options.json ? console.error : console.log;
+
+    const { tokenIds, labels, outcomeSets } = await resolveTokenIds(options, log);
+
+    let drId: string;
+    let drBlockHeight: bigint;
+    if (options.awaitDrId !== undefined && options.drHeight !== undefined) {
+        drId = options.awaitDrId;
+        drBlockHeight = options.drHeight;
+        log(`Waiting for the result of data request ${drId}..`);
+    } else {
+        ({ drId, drBlockHeight } = await postRequest(options, tokenIds, outcomeSets, log));
+        log(`Posted data request ${drId} at block height ${drBlockHeight}, waiting for a result..`);
+    }
+
+    const explorerLink = process.env.SEDA_EXPLORER_URL ? process.env.SEDA_EXPLORER_URL + `/data-requests/${drId}/${drBlockHeight}` : "Configure env.SEDA_EXPLORER_URL to generate a link to your DR";
+    log(`Explorer: ${explorerLink}`);
+
+    // Takes the RPC from the .env file (SEDA_RPC_ENDPOINT)
+    const queryConfig = buildQueryConfig({});
+
+    let result;
+    try {
+        result = await awaitResult(
+            drId,
+            (remainingSeconds) =>
+                awaitDataResult(
+                    queryConfig,
+                    { id: drId, height: drBlockHeight },
+                    { timeoutSeconds: remainingSeconds, pollingIntervalSeconds: options.pollIntervalSeconds },
+                ),
+            {
+                timeoutSeconds: options.timeoutSeconds,
+                pollIntervalSeconds: options.pollIntervalSeconds,
+                onRetry: (error) => log(`Querying the result failed, retrying: ${error instanceof Error ? error.message : error}`),
+            },
+        );
+    } catch (error) {
+        if (!(error instanceof ResultTimeoutError)) {
+            throw error;
+        }
+        console.error(`${error.message}, resume with: bun run post-dr -- --await ${drId} --dr-height ${drBlockHeight}`);
+        return EXIT_CODES.timeout;
+    }
+
+    const outcome = interpretResult(result, tokenIds, options.decimals);
+    const output = {
+        drId,
+        drBlockHeight: drBlockHeight.toString(),
+        consensus: result.consensus,
+        exitCode: result.exitCode,
+        result: result.result,
+        gasUsed: result.gasUsed.toString(),
+        blockHeight: result.blockHeight.toString(),
+        blockTimestamp: result.blockTimestamp ? result.blockTimestamp.toISOString() : '',
+        explorerLink,
+        ...(outcome.kind === 'prices' && {
+            prices: labels ? rankOutcomes(outcome.prices, labels, options.decimals) : outcome.prices,
+        }),
+        ...((outcome.kind === 'program_error' || outcome.kind === 'outcome_set_violation') && { error: outcome.message }),
+    };
+
+    if (options.json) {
+        console.log(JSON.stringify(output, null, 2));
+    } else {
+        const { prices, ...summary } = output;
+        console.table(summary);
+        if (prices) {
+            console.table(prices);
+        }
+    }
+
+    switch (outcome.kind) {
+        case 'no_consensus':
+            console.error('The executors did not reach consensus');
+            break;
+        case 'program_error':
+            console.error(`The oracle program failed with exit code ${outcome.exitCode}: ${outcome.message}`);
+            break;
+        case 'outcome_set_violation':
+            console.error(`The prices do not add up: ${outcome.message}`);
+            break;
+    }
+    return exitCodeFor(outcome);
+}
+
+// Resolve --markets references to token IDs, after the ones given directly, or the outcomes of --event
+async function resolveTokenIds(
+    options: PostDrOptions,
+    log: (message: string) => void,
+): Promise<{ tokenIds: string[]; labels?: string[]; outcomeSets: string[][] }> {
+    if (options.event !== undefined) {
+        const resolver = new MarketResolver({ cacheFile: false });
+        const event = await resolver.getEvent(options.event);
+        log(`Resolved event ${event.slug} (${event.title ?? event.id}) to ${event.outcomes.length} outcome(s)`);
+
+        // The outcomes of the event are checked as one set when a tolerance or normalization is asked for
+        const checked = options.normalize || options.tolerance !== undefined;
+        if (checked && !event.exclusive) {
+            throw new Error(`The outcomes of event "${options.event}" are not exclusive, they cannot be normalized`);
+        }
+        const tokenIds = event.outcomes.map(({ tokenId }) => tokenId);
+        return { tokenIds, labels: event.outcomes.map(({ label }) => label), outcomeSets: checked ? [tokenIds] : [] };
+    }
+
+    const tokenIds = [...options.tokenIds];
+    if (options.markets.length > 0) {
+        const resolver = new MarketResolver({ cacheFile: options.marketCacheFile });
+        for (const ref of options.markets) {
+            const tokenId = await resolver.resolveTokenId(ref);
+            log(`Resolved ${ref.market} (${ref.outcome}) to token ${tokenId}`);
+            if (!tokenIds.includes(tokenId)) {
+                tokenIds.push(tokenId);
+            }
+        }
+    }
+    return { tokenIds, outcomeSets: options.outcomeSets };
+}
+
+async function postRequest(
+    options: PostDrOptions,
+    tokenIds: string[],
+    outcomeSets: string[][],
+    log: (message: string) => void,
+): Promise<{ drId: string; drBlockHeight: bigint }> {
     if (!process.env.ORACLE_PROGRAM_ID) {
         throw new Error('Please set the ORACLE_PROGRAM_ID in your env file');
     }
@@ -9,26 +152,44 @@ async function main() {
     const signingConfig = buildSigningConfig({});
     const signer = await Signer.fromPartial(signingConfig);
 
-    console.log('Posting and waiting for a result, this may take a little while..');
+    const extras = [
+        ...options.fields,
+        ...(options.twap ? [`a ${options.twap.window}s TWAP sampled every ${options.twap.interval}s`] : []),
+    ];
+    const fields = extras.length > 0 ? ` with ${extras.join(', ')}` : '';
+    log(`Requesting midpoints${fields} for ${tokenIds.length} token(s):`);
+    tokenIds.forEach((tokenId) => log(`  ${tokenId}`));
+    if (outcomeSets.length > 0) {
+        const check = options.normalize ? 'checked and normalized' : 'checked';
+        log(`${outcomeSets.length} outcome set(s) are ${check} to sum to 1`);
+    }
 
     const dataRequestInput: PostDataRequestInput = {
-        consensusOptions: {
-            method: 'none'
-        },
+        consensusOptions: options.consensusOptions,
         execProgramId: process.env.ORACLE_PROGRAM_ID,
-        execInputs: Buffer.from("47060861968389645577251408086188258199430417779776802737050665875266354301946,12905796939799815677187294753823746821359945387637800747970148392857538825639"),
-        tallyInputs: Buffer.from([]),
-        memo: Buffer.from(new Date().toISOString()),
+        execInputs: Buffer.from(encodeExecInputs(tokenIds, options.fields, options.twap)),
+        tallyInputs: Buffer.from(
+            encodeTallyInputs({
+                decimals: options.decimals,
+                outcomeSets: outcomeSetIndices(tokenIds, outcomeSets),
+                tolerance: options.tolerance,
+                normalize: options.normalize,
+            }),
+        ),
+        memo: Buffer.from(options.memo),
+        ...(options.replicationFactor !== undefined && { replicationFactor: options.replicationFactor }),
+        ...(options.execGasLimit !== undefined && { execGasLimit: options.execGasLimit }),
+        ...(options.tallyGasLimit !== undefined && { tallyGasLimit: options.tallyGasLimit }),
+        ...(options.gasPrice !== undefined && { gasPrice: options.gasPrice }),
     };
 
-    const result = await postAndAwaitDataRequest(signer, dataRequestInput, {});
-    const explorerLink = process.env.SEDA_EXPLORER_URL ? process.env.SEDA_EXPLORER_URL + `/data-requests/${result.drId}/${result.drBlockHeight}` : "Configure env.SEDA_EXPLORER_URL to generate a link to your DR";
-
-    console.table({
-        ...result,
-        blockTimestamp: result.blockTimestamp ? result.blockTimestamp.toISOString() : '',
-        explorerLink
-    });
+    const { dr } = await postDataRequest(signer, dataRequestInput, {});
+    return { drId: dr.id, drBlockHeight: dr.height };
 }
 
-main();
\ No newline at end of file
+main()
+    .then((exitCode) => process.exit(exitCode))
+    .catch((error) => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(EXIT_CODES.error);
+    });
@@ -0,0 +1,40 @@
+// ============================================================================
+// ABI ENCODING - MINIMAL SOLIDITY ABI ENCODER FOR THE TALLY RESULT
+// ============================================================================
+
+const WORD_SIZE: usize = 32;
+
+/**
+ * Encodes an unsigned integer as a 32-byte big-endian word.
+ */
+fn encode_word(value: u128) -> [u8; WORD_SIZE] {
+    let mut word = [0u8; WORD_SIZE];
+    word[16..].copy_from_slice(&value.to_be_bytes());
+    word
+}
+
+/**
+ * ABI-encodes a tuple of unsigned integer arrays, the equivalent of Solidity's
+ * `abi.encode(uint256[] a, uint8[] b, ...)`.
+ *
+ * Layout:
+ * 1. Head: one offset word per array, pointing to where its data starts
+ * 2. Tail: for each array, a length word followed by one word per element
+ */
+pub fn encode_uint_arrays(arrays: &[Vec<u128>]) -> Vec<u8> {
+    let head_size = arrays.len() * WORD_SIZE;
+    let mut head = Vec::with_capacity(head_size);
+    let mut tail = Vec::new();
+
+    for array in arrays {
+        head.extend_from_slice(&encode_word((head_size + tail.len()) as u128));
+
+        tail.extend_from_slice(&encode_word(array.len() as u128));
+        for value in array {
+            tail.extend_from_slice(&encode_word(*value));
+        }
+    }
+
+    head.extend_from_slice(&tail);
+    head
+}
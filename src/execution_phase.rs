@@ -1,7 +1,16 @@
 use anyhow::Result;
 use seda_sdk_rs::{elog, http_fetch, log, Process};
+use serde::de::DeserializeOwned;
 use serde::{Deserialize, Serialize};
 
+use crate::fixed_point::Decimal;
+use crate::inputs::{DrInputs, MarketField, PriceMode};
+use crate::reveal::{Quote, TokenReveal};
+use crate::twap::time_weighted_average;
+
+const CLOB_API_URL: &str = "https://clob.polymarket.com";
+const GAMMA_API_URL: &str = "https://gamma-api.polymarket.com";
+
 // ============================================================================
 // DATA STRUCTURES
 // ============================================================================
@@ -11,62 +20,394 @@ struct PolymarketMidpointResponse {
     mid: String,
 }
 
+#[derive(Serialize, Deserialize)]
+struct PolymarketOrderSummary {
+    price: String,
+}
+
+#[derive(Serialize, Deserialize)]
+struct PolymarketBookResponse {
+    bids: Vec<PolymarketOrderSummary>,
+    asks: Vec<PolymarketOrderSummary>,
+}
+
+#[derive(Serialize, Deserialize)]
+struct PolymarketLastTradeResponse {
+    price: String,
+}
+
+/// A price history sample, `p` is a JSON number. Without serde_json's `arbitrary_precision` feature it is held as
+/// an f64, whose shortest representation gives back the written decimal for prices of up to 15 significant digits
+#[derive(Serialize, Deserialize)]
+struct PolymarketHistoryPoint {
+    t: u64,
+    p: serde_json::Number,
+}
+
+#[derive(Serialize, Deserialize)]
+struct PolymarketPriceHistoryResponse {
+    history: Vec<PolymarketHistoryPoint>,
+}
+
+/// A market as listed by the Gamma API, list fields are JSON-encoded strings (e.g. `"[\"1\", \"0\"]"`)
+#[derive(Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+struct GammaMarket {
+    #[serde(default)]
+    closed: bool,
+    #[serde(default)]
+    clob_token_ids: Option<String>,
+    #[serde(default)]
+    outcome_prices: Option<String>,
+}
+
+/// Ranges of the `/prices-history` endpoint in seconds, the smallest one that covers the window is requested
+const HISTORY_RANGES: [(&str, u64); 5] = [
+    ("1h", 3600),
+    ("6h", 6 * 3600),
+    ("1d", 24 * 3600),
+    ("1w", 7 * 24 * 3600),
+    ("1m", 30 * 24 * 3600),
+];
+
+/// Why a CLOB request did not produce a usable response
+enum FetchError {
+    Fetch,
+    Parse,
+}
+
+/// Whether the market of a token still trades, and the final price of the token once it resolved
+enum MarketState {
+    Open,
+    Closed,
+    Resolved(Decimal),
+}
+
 // ============================================================================
 // EXECUTION PHASE - FETCHES LIVE DATA FROM POLYMARKET
 // ============================================================================
 
 /**
  * Executes the data request phase within the SEDA network.
- * This phase fetches midpoint prices for Polymarket tokens based on comma-separated token ID inputs.
+ * This phase fetches midpoint prices for Polymarket tokens, plus the order-book fields selected in the inputs
+ * and, in TWAP mode, the time-weighted average of each token's price history.
+ * Tokens of closed markets are reported as closed, or with their final outcome once the market resolved.
+ * A token whose midpoint cannot be fetched or parsed is reported with a failure status instead of
+ * being dropped, so the revealed array always has one entry per requested token.
  */
 pub fn execution_phase() -> Result<()> {
     // Retrieve the input parameters for the data request (DR).
-    // Expected to be comma-separated token IDs (e.g., "47060861968389645577251408086188258199430417779776802737050665875266354301946").
+    // Expected to be comma-separated token IDs (e.g., "47060861968389645577251408086188258199430417779776802737050665875266354301946"),
+    // or a JSON object with `token_ids` and `fields` to also fetch order-book data,
+    // and `mode`, `window` and `interval` to also fetch the TWAP.
 
     let dr_inputs_raw = String::from_utf8(Process::get_inputs())?;
 
-    let dr_inputs_trimmed = dr_inputs_raw.trim();
+    let dr_inputs = match DrInputs::parse(&dr_inputs_raw) {
+        Ok(inputs) => inputs,
+        Err(err) => {
+            elog!("Failed to parse data request inputs: {err}");
+            Process::error("Invalid data request inputs".as_bytes());
+            return Ok(());
+        }
+    };
+
+    let markets = fetch_markets(&dr_inputs.token_ids);
+    let reveals: Vec<TokenReveal> = dr_inputs
+        .token_ids
+        .iter()
+        .map(|token_id| fetch_token(token_id.trim(), &markets, &dr_inputs))
+        .collect();
 
-    let token_ids: Vec<&str> = dr_inputs_trimmed.split(',').collect();
+    let reveals_bytes = serde_json::to_vec(&reveals)?;
+    Process::success(&reveals_bytes);
+    Ok(())
+}
 
-    let mut mids: Vec<f64> = Vec::new();
+/**
+ * Fetches the midpoint of a single token, the requested order-book fields and the TWAP in TWAP mode.
+ * Order-book data and the TWAP are best effort: if they are unavailable the token keeps its midpoint.
+ * The market is checked first, a closed market has no order book left and its midpoint means nothing.
+ */
+fn fetch_token(token_id: &str, markets: &[GammaMarket], inputs: &DrInputs) -> TokenReveal {
+    match market_state(token_id, markets) {
+        MarketState::Open => {}
+        MarketState::Closed => return TokenReveal::Closed,
+        MarketState::Resolved(outcome) => return TokenReveal::Resolved { outcome },
+    }
 
-    for token_id in token_ids {
-        log!("Fetching Polymarket midpoint data for token: {}", token_id);
+    let mid = match fetch_midpoint(token_id) {
+        Ok(mid) => mid,
+        Err(FetchError::Fetch) => return TokenReveal::FetchFailed,
+        Err(FetchError::Parse) => return TokenReveal::ParseFailed,
+    };
 
-        // Step 1: Get midpoint information
-        let midpoint_response = http_fetch(
-            format!("https://clob.polymarket.com/midpoint?token_id={}", token_id),
-            None,
-        );
+    let mut quote = Quote {
+        mid,
+        ..Quote::default()
+    };
 
-        // Check if the midpoint request was successful
-        if !midpoint_response.is_ok() {
-            elog!(
-                "Midpoint HTTP Response was rejected: {} - {}",
-                midpoint_response.status,
-                String::from_utf8(midpoint_response.bytes)?
-            );
-            Process::error("Error while fetching midpoint information".as_bytes());
-            continue;
+    if inputs.wants_book() {
+        if let Some((bid, ask)) = fetch_best_bid_ask(token_id) {
+            quote.bid = bid.filter(|_| inputs.wants(MarketField::Bid));
+            quote.ask = ask.filter(|_| inputs.wants(MarketField::Ask));
+            if inputs.wants(MarketField::Spread) {
+                quote.spread = bid.zip(ask).and_then(|(bid, ask)| ask.checked_sub(bid));
+            }
         }
+    }
+
+    if inputs.wants(MarketField::LastTrade) {
+        quote.last_trade = fetch_last_trade(token_id);
+    }
+
+    if inputs.mode == PriceMode::Twap {
+        quote.twap = fetch_twap(token_id, inputs.window, inputs.interval);
+    }
+
+    TokenReveal::Ok(Box::new(quote))
+}
 
-        // Parse midpoint information
-        let midpoint_data =
-            serde_json::from_slice::<PolymarketMidpointResponse>(&midpoint_response.bytes)?;
+/**
+ * Looks up the markets of all requested tokens on the Gamma API in a single request.
+ * The lookup is best effort: if it fails, every token is priced as if its market was open.
+ */
+fn fetch_markets(token_ids: &[String]) -> Vec<GammaMarket> {
+    let query: Vec<String> = token_ids
+        .iter()
+        .map(|token_id| format!("clob_token_ids={}", token_id.trim()))
+        .collect();
 
-        // Parse the mid price from string to f64
-        let mid_price = midpoint_data.mid.parse::<f64>().map_err(|e| {
-            elog!("Failed to parse mid price '{}': {}", midpoint_data.mid, e);
-            anyhow::anyhow!("Failed to parse mid price")
-        })?;
+    // Every market lists at least one of the tokens, so the page never has to hold more markets than tokens
+    fetch_json(format!(
+        "{GAMMA_API_URL}/markets?{}&limit={}",
+        query.join("&"),
+        token_ids.len()
+    ))
+    .unwrap_or_default()
+}
 
-        log!("Fetched MID Price: ${}", mid_price);
+/**
+ * Tells whether the market of a token is closed, from the markets the Gamma API listed. Once a market resolved,
+ * its outcome prices are exactly 1 for the winning outcome and 0 for the others, until then a closed market has
+ * no final outcome. A token whose market is not listed is priced as if the market was open.
+ */
+fn market_state(token_id: &str, markets: &[GammaMarket]) -> MarketState {
+    let Some((market, index)) = markets.iter().find_map(|market| {
+        let index = json_list(&market.clob_token_ids)
+            .iter()
+            .position(|id| id == token_id)?;
+        Some((market, index))
+    }) else {
+        log!("No market found for token {token_id}, pricing it as open");
+        return MarketState::Open;
+    };
 
-        mids.push(mid_price);
+    if !market.closed {
+        return MarketState::Open;
     }
 
-    let mids_bytes = serde_json::to_vec(&mids)?;
-    Process::success(&mids_bytes);
-    Ok(())
+    // A split payout (e.g. 0.5 each) or the prices of the last trades are not a final outcome
+    let (zero, one) = (Decimal::default(), Decimal::from_fixed(1, 0));
+    let prices: Vec<Option<Decimal>> = json_list(&market.outcome_prices)
+        .iter()
+        .map(|price| Decimal::parse(price.trim()))
+        .collect();
+    let settled = prices
+        .iter()
+        .all(|price| *price == Some(zero) || *price == Some(one))
+        && prices.iter().filter(|price| **price == Some(one)).count() == 1;
+
+    match prices.get(index) {
+        Some(Some(outcome)) if settled => {
+            log!("Market of token {token_id} resolved, final price {outcome}");
+            MarketState::Resolved(*outcome)
+        }
+        _ => {
+            log!("Market of token {token_id} is closed without a final outcome");
+            MarketState::Closed
+        }
+    }
+}
+
+/**
+ * Fetches the midpoint of a single token from the Polymarket CLOB.
+ */
+fn fetch_midpoint(token_id: &str) -> Result<Decimal, FetchError> {
+    log!("Fetching Polymarket midpoint data for token: {}", token_id);
+
+    let midpoint_data: PolymarketMidpointResponse =
+        fetch_json(format!("{CLOB_API_URL}/midpoint?token_id={token_id}"))?;
+
+    let mid = parse_price(&midpoint_data.mid).ok_or(FetchError::Parse)?;
+    log!("Fetched MID Price: ${}", mid);
+    Ok(mid)
+}
+
+/**
+ * Fetches the best bid and best ask of a token's order book.
+ * Either side is `None` if it has no orders.
+ */
+fn fetch_best_bid_ask(token_id: &str) -> Option<(Option<Decimal>, Option<Decimal>)> {
+    let book: PolymarketBookResponse =
+        fetch_json(format!("{CLOB_API_URL}/book?token_id={token_id}")).ok()?;
+
+    // Don't rely on the order of the levels, take the highest bid and the lowest ask
+    let bids = book
+        .bids
+        .iter()
+        .filter_map(|level| parse_price(&level.price));
+    let asks = book
+        .asks
+        .iter()
+        .filter_map(|level| parse_price(&level.price));
+    let best_bid = bids.max();
+    let best_ask = asks.min();
+
+    log!("Fetched book: bid {best_bid:?}, ask {best_ask:?}");
+    Some((best_bid, best_ask))
+}
+
+/**
+ * Fetches the price of the last trade of a token.
+ */
+fn fetch_last_trade(token_id: &str) -> Option<Decimal> {
+    let last_trade: PolymarketLastTradeResponse = fetch_json(format!(
+        "{CLOB_API_URL}/last-trade-price?token_id={token_id}"
+    ))
+    .ok()?;
+
+    let price = parse_price(&last_trade.price);
+    log!("Fetched last trade price: {price:?}");
+    price
+}
+
+/**
+ * Fetches the price history of a token over the window and averages it by time.
+ * The history is sampled every `interval` seconds (the CLOB's fidelity is in minutes).
+ */
+fn fetch_twap(token_id: &str, window: u64, interval: u64) -> Option<Decimal> {
+    let (range, _) = HISTORY_RANGES
+        .iter()
+        .find(|(_, seconds)| *seconds >= window)?;
+    let fidelity = interval / 60;
+
+    let (history, answered_at): (PolymarketPriceHistoryResponse, _) = fetch_dated_json(format!(
+        "{CLOB_API_URL}/prices-history?market={token_id}&interval={range}&fidelity={fidelity}"
+    ))
+    .ok()?;
+
+    // The window ends when the CLOB answered, there is no other clock during the execution
+    let Some(now) = answered_at else {
+        elog!("The price history of {token_id} has no valid Date header");
+        return None;
+    };
+
+    // Samples whose price is not a plain decimal are left out of the average
+    let samples: Vec<(u64, Decimal)> = history
+        .history
+        .iter()
+        .filter_map(|point| Some((point.t, parse_price(&point.p.to_string())?)))
+        .collect();
+
+    let twap = time_weighted_average(&samples, now, window);
+    log!(
+        "Fetched TWAP over {window}s from {} samples: {twap:?}",
+        samples.len()
+    );
+    twap
+}
+
+/**
+ * Performs a GET request against the CLOB or the Gamma API and parses the JSON response.
+ */
+fn fetch_json<T: DeserializeOwned>(url: String) -> Result<T, FetchError> {
+    fetch_dated_json(url).map(|(value, _)| value)
+}
+
+/**
+ * Like `fetch_json`, also returns when the server answered: the Unix timestamp of its `Date` header, if valid.
+ */
+fn fetch_dated_json<T: DeserializeOwned>(url: String) -> Result<(T, Option<u64>), FetchError> {
+    let response = http_fetch(url.clone(), None);
+
+    // Check if the request was successful
+    if !response.is_ok() {
+        elog!(
+            "HTTP Response was rejected for {url}: {} - {}",
+            response.status,
+            String::from_utf8_lossy(&response.bytes)
+        );
+        return Err(FetchError::Fetch);
+    }
+
+    let value = serde_json::from_slice::<T>(&response.bytes).map_err(|err| {
+        elog!("Failed to parse response of {url}: {err}");
+        FetchError::Parse
+    })?;
+
+    let date = response
+        .headers
+        .iter()
+        .find(|(name, _)| name.eq_ignore_ascii_case("date"))
+        .and_then(|(_, value)| parse_http_date(value));
+    Ok((value, date))
+}
+
+/**
+ * Parses an HTTP date in the format servers send (`Sun, 06 Nov 1994 08:49:37 GMT`) into a Unix timestamp.
+ */
+fn parse_http_date(value: &str) -> Option<u64> {
+    const MONTHS: [&str; 12] = [
+        "Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+    ];
+
+    let mut parts = value.split_whitespace().skip(1);
+    let day: u64 = parts.next()?.parse().ok()?;
+    let month_name = parts.next()?;
+    let month = MONTHS.iter().position(|name| *name == month_name)? as u64 + 1;
+    let year: u64 = parts.next()?.parse().ok()?;
+    let mut time = parts
+        .next()?
+        .split(':')
+        .map(|part| part.parse::<u64>().ok());
+    let (hour, minute, second) = (time.next()??, time.next()??, time.next()??);
+    if parts.next()? != "GMT"
+        || year < 1970
+        || !(1..=31).contains(&day)
+        || hour > 23
+        || minute > 59
+        || second > 60
+    {
+        return None;
+    }
+
+    // Days since 1970-01-01 of the proleptic Gregorian calendar, with years starting in March
+    let year = if month <= 2 { year - 1 } else { year };
+    let (era, year_of_era) = (year / 400, year % 400);
+    let day_of_year = (153 * ((month + 9) % 12) + 2) / 5 + day - 1;
+    let day_of_era = year_of_era * 365 + year_of_era / 4 - year_of_era / 100 + day_of_year;
+    let days = era * 146_097 + day_of_era - 719_468;
+    Some(days * 86_400 + hour * 3_600 + minute * 60 + second)
+}
+
+/**
+ * Decodes a JSON-encoded list field of the Gamma API, missing and malformed lists are empty.
+ */
+fn json_list(value: &Option<String>) -> Vec<String> {
+    value
+        .as_deref()
+        .and_then(|list| serde_json::from_str(list).ok())
+        .unwrap_or_default()
+}
+
+/**
+ * Parses a price string exactly, rejecting anything but a plain non-negative decimal (NaN, inf, exponents).
+ */
+fn parse_price(value: &str) -> Option<Decimal> {
+    let price = Decimal::parse(value.trim());
+    if price.is_none() {
+        elog!("Failed to parse price '{}'", value);
+    }
+    price
 }
@@ -0,0 +1,143 @@
+use std::cmp::Ordering;
+use std::fmt;
+
+use serde::{de, Deserialize, Deserializer, Serialize, Serializer};
+
+/// Most digits accepted on either side of the decimal point, which keeps every value (and every
+/// conversion to at most `MAX_DECIMALS` decimals) within a `u128`
+const MAX_DIGITS: usize = 18;
+
+/// Most decimals a tally result can be scaled to
+pub const MAX_DECIMALS: u32 = 18;
+
+/**
+ * An exact non-negative decimal number, stored as `units / 10^scale`.
+ * CLOB prices are decimal strings (e.g. `"0.505"`), keeping them in this form instead of an `f64`
+ * means every executor ends up with the same integer for the same price string.
+ */
+#[derive(Debug, Clone, Copy, Default)]
+pub struct Decimal {
+    units: u128,
+    scale: u32,
+}
+
+impl Decimal {
+    /**
+     * Parses a plain decimal string such as `"1"`, `"0.005"` or `".5"`.
+     * Signs, exponents and anything other than digits and a single `.` are rejected.
+     */
+    pub fn parse(value: &str) -> Option<Self> {
+        let (integer, fraction) = value.split_once('.').unwrap_or((value, ""));
+
+        if integer.is_empty() && fraction.is_empty()
+            || integer.len() > MAX_DIGITS
+            || fraction.len() > MAX_DIGITS
+        {
+            return None;
+        }
+
+        let mut units: u128 = 0;
+        for byte in integer.bytes().chain(fraction.bytes()) {
+            if !byte.is_ascii_digit() {
+                return None;
+            }
+            units = units * 10 + u128::from(byte - b'0');
+        }
+
+        Some(Self {
+            units,
+            scale: fraction.len() as u32,
+        })
+    }
+
+    /**
+     * Converts the number to a fixed-point integer with the given number of decimals,
+     * rounding half up when digits are dropped (e.g. 0.0005 with 3 decimals -> 1).
+     */
+    pub fn to_fixed(self, decimals: u32) -> u128 {
+        match self.scale.cmp(&decimals) {
+            Ordering::Equal => self.units,
+            Ordering::Less => self.units * 10u128.pow(decimals - self.scale),
+            Ordering::Greater => {
+                let divisor = 10u128.pow(self.scale - decimals);
+                (self.units + divisor / 2) / divisor
+            }
+        }
+    }
+
+    /**
+     * Builds a number from a fixed-point integer with the given number of decimals,
+     * dropping trailing fraction zeros (e.g. 505000 with 6 decimals -> 0.505).
+     */
+    pub fn from_fixed(mut units: u128, mut decimals: u32) -> Self {
+        while decimals > 0 && units.is_multiple_of(10) {
+            units /= 10;
+            decimals -= 1;
+        }
+        Self {
+            units,
+            scale: decimals,
+        }
+    }
+
+    /**
+     * Exact difference of two numbers, or `None` if it would be negative.
+     */
+    pub fn checked_sub(self, other: Self) -> Option<Self> {
+        let scale = self.scale.max(other.scale);
+        let units = self.to_fixed(scale).checked_sub(other.to_fixed(scale))?;
+        Some(Self { units, scale })
+    }
+}
+
+impl PartialEq for Decimal {
+    fn eq(&self, other: &Self) -> bool {
+        self.cmp(other) == Ordering::Equal
+    }
+}
+
+impl Eq for Decimal {}
+
+impl PartialOrd for Decimal {
+    fn partial_cmp(&self, other: &Self) -> Option<Ordering> {
+        Some(self.cmp(other))
+    }
+}
+
+impl Ord for Decimal {
+    fn cmp(&self, other: &Self) -> Ordering {
+        let scale = self.scale.max(other.scale);
+        self.to_fixed(scale).cmp(&other.to_fixed(scale))
+    }
+}
+
+impl fmt::Display for Decimal {
+    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {
+        if self.scale == 0 {
+            return write!(f, "{}", self.units);
+        }
+
+        let divisor = 10u128.pow(self.scale);
+        write!(
+            f,
+            "{}.{:0width$}",
+            self.units / divisor,
+            self.units % divisor,
+            width = self.scale as usize
+        )
+    }
+}
+
+/// Revealed as a JSON string, a JSON number would go through an `f64` again
+impl Serialize for Decimal {
+    fn serialize<S: Serializer>(&self, serializer: S) -> Result<S::Ok, S::Error> {
+        serializer.collect_str(self)
+    }
+}
+
+impl<'de> Deserialize<'de> for Decimal {
+    fn deserialize<D: Deserializer<'de>>(deserializer: D) -> Result<Self, D::Error> {
+        let value = String::deserialize(deserializer)?;
+        Self::parse(&value).ok_or_else(|| de::Error::custom(format!("invalid decimal '{value}'")))
+    }
+}
@@ -0,0 +1,189 @@
+use serde::Deserialize;
+
+use crate::fixed_point::{Decimal, MAX_DECIMALS};
+
+/**
+ * Optional order-book data an executor can fetch on top of the midpoint.
+ */
+#[derive(Deserialize, Debug, Clone, Copy, PartialEq, Eq)]
+#[serde(rename_all = "snake_case")]
+pub enum MarketField {
+    Bid,
+    Ask,
+    Spread,
+    LastTrade,
+}
+
+/**
+ * How the price of a token is observed. Spot only reads the current midpoint, TWAP also averages the
+ * CLOB price history over a window, which is much harder to push around right before a request.
+ */
+#[derive(Deserialize, Debug, Clone, Copy, PartialEq, Eq, Default)]
+#[serde(rename_all = "snake_case")]
+pub enum PriceMode {
+    #[default]
+    Spot,
+    Twap,
+}
+
+/**
+ * Data request inputs. Either a comma-separated list of token IDs (midpoints only), or a JSON object
+ * selecting extra fields, e.g. `{"token_ids":["4706..."],"fields":["bid","ask","spread","last_trade"]}`,
+ * and optionally the TWAP mode, e.g. `{"token_ids":["4706..."],"mode":"twap","window":3600,"interval":60}`.
+ */
+#[derive(Deserialize, Debug)]
+pub struct DrInputs {
+    pub token_ids: Vec<String>,
+    #[serde(default)]
+    pub fields: Vec<MarketField>,
+    #[serde(default)]
+    pub mode: PriceMode,
+    /// Seconds of price history the TWAP covers
+    #[serde(default = "DrInputs::default_window")]
+    pub window: u64,
+    /// Seconds between the price history samples the TWAP is computed from
+    #[serde(default = "DrInputs::default_interval")]
+    pub interval: u64,
+}
+
+impl DrInputs {
+    pub const DEFAULT_WINDOW: u64 = 3600;
+    pub const DEFAULT_INTERVAL: u64 = 60;
+
+    /// The CLOB keeps at most a month of history per request and samples it by the minute
+    pub const MAX_WINDOW: u64 = 30 * 24 * 3600;
+
+    fn default_window() -> u64 {
+        Self::DEFAULT_WINDOW
+    }
+
+    fn default_interval() -> u64 {
+        Self::DEFAULT_INTERVAL
+    }
+
+    pub fn parse(raw: &str) -> Result<Self, String> {
+        let trimmed = raw.trim();
+
+        if !trimmed.starts_with('{') {
+            return Ok(Self {
+                token_ids: trimmed.split(',').map(str::to_string).collect(),
+                fields: Vec::new(),
+                mode: PriceMode::Spot,
+                window: Self::DEFAULT_WINDOW,
+                interval: Self::DEFAULT_INTERVAL,
+            });
+        }
+
+        let inputs: Self = serde_json::from_str(trimmed).map_err(|err| err.to_string())?;
+        if inputs.mode == PriceMode::Twap {
+            if inputs.interval == 0 || !inputs.interval.is_multiple_of(60) {
+                return Err(format!(
+                    "interval must be a positive multiple of 60 seconds, got {}",
+                    inputs.interval
+                ));
+            }
+            if inputs.window < inputs.interval || inputs.window > Self::MAX_WINDOW {
+                return Err(format!(
+                    "window must be between the interval ({}) and {} seconds, got {}",
+                    inputs.interval,
+                    Self::MAX_WINDOW,
+                    inputs.window
+                ));
+            }
+        }
+        Ok(inputs)
+    }
+
+    pub fn wants(&self, field: MarketField) -> bool {
+        self.fields.contains(&field)
+    }
+
+    /// Bid, ask and spread all come from a single `/book` request
+    pub fn wants_book(&self) -> bool {
+        self.wants(MarketField::Bid)
+            || self.wants(MarketField::Ask)
+            || self.wants(MarketField::Spread)
+    }
+}
+
+/**
+ * Tally inputs, a JSON object such as `{"decimals":8}`.
+ * Empty inputs, or the single `0x00` byte requests send by default, select the defaults.
+ * Outcome sets group the requested tokens by index, e.g. `{"outcome_sets":[[0,1]],"tolerance":"0.02"}` for the
+ * Yes and No token of a binary market, whose prices have to sum to 1 within the tolerance.
+ */
+#[derive(Deserialize, Debug, PartialEq, Eq)]
+#[serde(deny_unknown_fields)]
+pub struct TallyInputs {
+    /// Number of decimals of the fixed-point prices in the tally result
+    #[serde(default = "TallyInputs::default_decimals")]
+    pub decimals: u32,
+    /// Indices of tokens whose prices are the probabilities of mutually exclusive outcomes
+    #[serde(default)]
+    pub outcome_sets: Vec<Vec<usize>>,
+    /// Largest distance from 1 the sum of an outcome set may have
+    #[serde(default = "TallyInputs::default_tolerance")]
+    pub tolerance: Decimal,
+    /// Rescale the prices of every checked outcome set so that they sum to exactly 1
+    #[serde(default)]
+    pub normalize: bool,
+}
+
+impl Default for TallyInputs {
+    fn default() -> Self {
+        Self {
+            decimals: Self::DEFAULT_DECIMALS,
+            outcome_sets: Vec::new(),
+            tolerance: Self::default_tolerance(),
+            normalize: false,
+        }
+    }
+}
+
+impl TallyInputs {
+    pub const DEFAULT_DECIMALS: u32 = 6;
+
+    fn default_decimals() -> u32 {
+        Self::DEFAULT_DECIMALS
+    }
+
+    /// 0.05, midpoints of a liquid binary market rarely drift further from summing to 1
+    fn default_tolerance() -> Decimal {
+        Decimal::from_fixed(5, 2)
+    }
+
+    pub fn parse(raw: &[u8]) -> Result<Self, String> {
+        if raw.is_empty() || raw == [0] {
+            return Ok(Self::default());
+        }
+
+        let inputs: Self = serde_json::from_slice(raw).map_err(|err| err.to_string())?;
+        if inputs.decimals > MAX_DECIMALS {
+            return Err(format!(
+                "decimals must be at most {MAX_DECIMALS}, got {}",
+                inputs.decimals
+            ));
+        }
+
+        let mut seen: Vec<usize> = Vec::new();
+        for set in &inputs.outcome_sets {
+            if set.len() < 2 {
+                return Err(format!("outcome sets need at least 2 tokens, got {set:?}"));
+            }
+            for index in set {
+                if seen.contains(index) {
+                    return Err(format!("token {index} is in more than one outcome set"));
+                }
+                seen.push(*index);
+            }
+        }
+        // Keeps normalization within a `u128`, a wider tolerance would not check anything anyway
+        if inputs.tolerance > Decimal::from_fixed(1, 0) {
+            return Err(format!(
+                "tolerance must be at most 1, got {}",
+                inputs.tolerance
+            ));
+        }
+        Ok(inputs)
+    }
+}
@@ -2,8 +2,13 @@ use execution_phase::execution_phase;
 use seda_sdk_rs::oracle_program;
 use tally_phase::tally_phase;
 
+mod abi;
 mod execution_phase;
+mod fixed_point;
+mod inputs;
+mod reveal;
 mod tally_phase;
+mod twap;
 
 #[oracle_program]
 impl PriceFeed {
@@ -0,0 +1,56 @@
+use serde::{Deserialize, Serialize};
+
+use crate::fixed_point::Decimal;
+
+/**
+ * What an executor observed for a single token, revealed as one entry of a JSON array
+ * (e.g. `[{"status":"ok","mid":"0.505","bid":"0.5","ask":"0.51"},{"status":"resolved","outcome":"1"}]`).
+ * Every requested token gets an entry, so the array stays index-aligned with the inputs.
+ */
+#[derive(Serialize, Deserialize, Debug, Clone, PartialEq)]
+#[serde(tag = "status", rename_all = "snake_case")]
+pub enum TokenReveal {
+    Ok(Box<Quote>),
+    /// The market resolved, the outcome is the final price of the token: 1 if it won, 0 otherwise
+    Resolved {
+        outcome: Decimal,
+    },
+    /// The market closed and has no final outcome yet, so there is nothing to price
+    Closed,
+    FetchFailed,
+    ParseFailed,
+}
+
+/**
+ * Prices observed for a token. Only the midpoint is always present, the order-book fields and
+ * the TWAP are left out when they were not requested or could not be fetched. Prices are revealed
+ * as the decimal strings the CLOB returned, so the tally can convert them exactly.
+ */
+#[derive(Serialize, Deserialize, Debug, Clone, PartialEq, Default)]
+pub struct Quote {
+    pub mid: Decimal,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub bid: Option<Decimal>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub ask: Option<Decimal>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub spread: Option<Decimal>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub last_trade: Option<Decimal>,
+    #[serde(default, skip_serializing_if = "Option::is_none")]
+    pub twap: Option<Decimal>,
+}
+
+/**
+ * Per-token status of the tally result. The discriminants are part of the ABI output
+ * and must match `PriceFeed.PriceStatus`.
+ */
+#[derive(Debug, Clone, Copy, PartialEq, Eq, Default)]
+pub enum PriceStatus {
+    #[default]
+    Ok = 0,
+    FetchFailed = 1,
+    ParseFailed = 2,
+    Resolved = 3,
+    Closed = 4,
+}
@@ -1,8 +1,43 @@
 use anyhow::Result;
 use seda_sdk_rs::{elog, get_reveals, log, Process};
 
+use crate::abi::encode_uint_arrays;
+use crate::fixed_point::Decimal;
+use crate::inputs::TallyInputs;
+use crate::reveal::{PriceStatus, Quote, TokenReveal};
+
+/// Exit code of a tally whose outcome set prices do not sum to 1 within the tolerance
+pub const EXIT_CODE_OUTCOME_SET_VIOLATED: u8 = 2;
+
+/**
+ * Aggregated fixed-point prices of a single token. Prices are 0 unless the status is `Ok` or `Resolved` (whose
+ * midpoint is the final outcome, 1 or 0), order-book fields and the TWAP are also 0 when they were not requested
+ * or most executors lacked them.
+ */
+#[derive(Debug, Default)]
+struct TokenAggregate {
+    status: PriceStatus,
+    mid: u128,
+    bid: u128,
+    ask: u128,
+    spread: u128,
+    last_trade: u128,
+    twap: u128,
+}
+
 pub fn tally_phase() -> Result<()> {
+    // Tally inputs select the number of decimals of the result (6 unless specified) and the outcome sets to check
+    let tally_inputs = match TallyInputs::parse(&Process::get_inputs()) {
+        Ok(inputs) => inputs,
+        Err(err) => {
+            elog!("Failed to parse tally inputs: {err}");
+            Process::error("Invalid tally inputs".as_bytes());
+            return Ok(());
+        }
+    };
+
     // Retrieve consensus reveals from the tally phase.
+    // `get_reveals` only returns the reveals that are in consensus.
     let reveals = get_reveals()?;
 
     if reveals.is_empty() {
@@ -11,46 +46,92 @@ pub fn tally_phase() -> Result<()> {
         return Ok(());
     }
 
-    // Take the first reveal as the result since we're expecting just the mid price from the API
-    let first_reveal = &reveals[0];
-    let prices = match serde_json::from_slice::<Vec<f64>>(&first_reveal.body.reveal) {
-        Ok(prices) => prices,
-        Err(err) => {
-            elog!("Failed to parse revealed prices: {err}");
-            Process::error("Failed to parse revealed prices".as_bytes());
-            return Ok(());
+    // Parse every reveal, skipping executors that reported something other than a token array
+    let mut reveal_sets: Vec<Vec<TokenReveal>> = Vec::new();
+    for (index, reveal) in reveals.iter().enumerate() {
+        match serde_json::from_slice::<Vec<TokenReveal>>(&reveal.body.reveal) {
+            Ok(tokens) => reveal_sets.push(tokens),
+            Err(err) => elog!("Ignoring reveal {index}, failed to parse revealed prices: {err}"),
         }
+    }
+
+    if reveal_sets.is_empty() {
+        Process::error("Failed to parse revealed prices".as_bytes());
+        return Ok(());
+    }
+
+    // Executors must agree on the number of tokens, reveals with another length are rejected
+    let Some(token_count) = majority_length(&reveal_sets) else {
+        elog!("Reveals disagree on the number of prices without a majority");
+        Process::error("Revealed price arrays have mismatched lengths".as_bytes());
+        return Ok(());
     };
+    reveal_sets.retain(|tokens| {
+        let matches = tokens.len() == token_count;
+        if !matches {
+            elog!(
+                "Ignoring reveal with {} prices, expected {token_count}",
+                tokens.len()
+            );
+        }
+        matches
+    });
 
-    log!("Final prices: {prices:?}");
+    log!("Used {} of {} reveals", reveal_sets.len(), reveals.len());
 
-    // Convert f64 prices to scaled integers (multiply by 1,000,000 to preserve 6 decimal places)
-    // For example: 0.105 -> 105000, 0.895 -> 895000
-    let scaled_prices: Vec<u64> = prices
+    if let Some(index) = tally_inputs
+        .outcome_sets
         .iter()
-        .map(|&price| (price * 1_000_000.0) as u64)
-        .collect();
+        .flatten()
+        .find(|index| **index >= token_count)
+    {
+        elog!("Outcome sets refer to token {index}, but only {token_count} were priced");
+        Process::error("Invalid tally inputs".as_bytes());
+        return Ok(());
+    }
 
-    log!("Scaled prices for EVM: {scaled_prices:?}");
+    // Aggregate every token separately, keeping the output index-aligned with the inputs
+    let mut aggregated: Vec<TokenAggregate> = (0..token_count)
+        .map(|token_index| {
+            let tokens: Vec<&TokenReveal> = reveal_sets
+                .iter()
+                .map(|tokens| &tokens[token_index])
+                .collect();
+            aggregate_token(&tokens, tally_inputs.decimals)
+        })
+        .collect();
 
-    // Create ABI-encoded data for uint256[] that Solidity can decode
-    let mut abi_encoded = Vec::new();
+    // Outcome sets have to price their outcomes as probabilities that sum to 1
+    if let Err(message) = check_outcome_sets(&mut aggregated, &tally_inputs) {
+        elog!("{message}");
+        Process::exit_with_result(EXIT_CODE_OUTCOME_SET_VIOLATED, message.as_bytes());
+        return Ok(());
+    }
 
-    // ABI encoding for dynamic array uint256[]:
-    // 1. Offset to array data (32 bytes) = 0x20
-    abi_encoded.extend_from_slice(&[0u8; 31]);
-    abi_encoded.push(0x20);
+    // Prices are already integers with `decimals` decimal places
+    // For example with 6 decimals: 0.105 -> 105000, 0.895 -> 895000
+    let column = |field: fn(&TokenAggregate) -> u128| -> Vec<u128> {
+        aggregated.iter().map(field).collect()
+    };
+    let scaled_prices = column(|token| token.mid);
+    let statuses = column(|token| token.status as u128);
 
-    // 2. Array length (32 bytes)
-    let array_length = scaled_prices.len() as u64;
-    abi_encoded.extend_from_slice(&[0u8; 24]);
-    abi_encoded.extend_from_slice(&array_length.to_be_bytes());
+    log!(
+        "Scaled prices for EVM ({} decimals): {scaled_prices:?}",
+        tally_inputs.decimals
+    );
 
-    // 3. Array elements (each 32 bytes)
-    for price in scaled_prices {
-        abi_encoded.extend_from_slice(&[0u8; 24]);
-        abi_encoded.extend_from_slice(&price.to_be_bytes());
-    }
+    // Create ABI-encoded data that Solidity can decode with
+    // abi.decode(result, (uint256[], uint8[], uint256[], uint256[], uint256[], uint256[], uint256[]))
+    let abi_encoded = encode_uint_arrays(&[
+        scaled_prices,
+        statuses,
+        column(|token| token.bid),
+        column(|token| token.ask),
+        column(|token| token.spread),
+        column(|token| token.last_trade),
+        column(|token| token.twap),
+    ]);
 
     log!("ABI-encoded data length: {} bytes", abi_encoded.len());
 
@@ -59,3 +140,197 @@ pub fn tally_phase() -> Result<()> {
 
     Ok(())
 }
+
+/**
+ * Aggregates one token across reveals. The token is priced at the median of the successful
+ * reveals if more than half of the executors got a price, and at the median final outcome if more
+ * than half of them saw its market resolved. Otherwise it is reported as closed if more than half
+ * of them saw its market closed, or with the most common failure status (and a price of 0).
+ */
+fn aggregate_token(tokens: &[&TokenReveal], decimals: u32) -> TokenAggregate {
+    let mut quotes: Vec<&Quote> = Vec::new();
+    let mut outcomes: Vec<u128> = Vec::new();
+    let mut closed = 0;
+    let mut fetch_failures = 0;
+    let mut parse_failures = 0;
+
+    for token in tokens {
+        match token {
+            TokenReveal::Ok(quote) => quotes.push(quote),
+            TokenReveal::Resolved { outcome } => outcomes.push(outcome.to_fixed(decimals)),
+            TokenReveal::Closed => closed += 1,
+            TokenReveal::FetchFailed => fetch_failures += 1,
+            TokenReveal::ParseFailed => parse_failures += 1,
+        }
+    }
+
+    if outcomes.len() * 2 > tokens.len() {
+        return TokenAggregate {
+            status: PriceStatus::Resolved,
+            mid: median(&mut outcomes),
+            ..TokenAggregate::default()
+        };
+    }
+    if closed * 2 > tokens.len() {
+        return TokenAggregate {
+            status: PriceStatus::Closed,
+            ..TokenAggregate::default()
+        };
+    }
+
+    if quotes.len() * 2 <= tokens.len() {
+        let status = if parse_failures > fetch_failures {
+            PriceStatus::ParseFailed
+        } else {
+            PriceStatus::FetchFailed
+        };
+        return TokenAggregate {
+            status,
+            ..TokenAggregate::default()
+        };
+    }
+
+    TokenAggregate {
+        status: PriceStatus::Ok,
+        mid: median(
+            &mut quotes
+                .iter()
+                .map(|quote| quote.mid.to_fixed(decimals))
+                .collect::<Vec<_>>(),
+        ),
+        bid: field_median(&quotes, decimals, |quote| quote.bid),
+        ask: field_median(&quotes, decimals, |quote| quote.ask),
+        spread: field_median(&quotes, decimals, |quote| quote.spread),
+        last_trade: field_median(&quotes, decimals, |quote| quote.last_trade),
+        twap: field_median(&quotes, decimals, |quote| quote.twap),
+    }
+}
+
+/**
+ * Checks that the midpoints of every outcome set sum to 1 within the tolerance and normalizes them if
+ * requested. Sets with a token that could not be priced are skipped, there is no sum to compare.
+ * Returns a message naming every violated set.
+ */
+fn check_outcome_sets(
+    aggregated: &mut [TokenAggregate],
+    inputs: &TallyInputs,
+) -> Result<(), String> {
+    let one = 10u128.pow(inputs.decimals);
+    let tolerance = inputs.tolerance.to_fixed(inputs.decimals);
+    let mut violations: Vec<String> = Vec::new();
+
+    for (set_index, set) in inputs.outcome_sets.iter().enumerate() {
+        if set
+            .iter()
+            .any(|index| aggregated[*index].status != PriceStatus::Ok)
+        {
+            log!("Skipping outcome set {set_index}, not all of its tokens were priced");
+            continue;
+        }
+
+        let sum = set
+            .iter()
+            .try_fold(0u128, |sum, index| sum.checked_add(aggregated[*index].mid));
+        match sum {
+            Some(sum) if sum.abs_diff(one) <= tolerance => {
+                if inputs.normalize && sum != 0 {
+                    normalize(aggregated, set, sum, one);
+                }
+            }
+            Some(sum) => violations.push(format!(
+                "outcome set {set_index} sums to {}",
+                Decimal::from_fixed(sum, inputs.decimals)
+            )),
+            None => violations.push(format!("outcome set {set_index} overflows")),
+        }
+    }
+
+    if violations.is_empty() {
+        Ok(())
+    } else {
+        Err(format!(
+            "Outcome sets are more than {} away from 1: {}",
+            inputs.tolerance,
+            violations.join(", ")
+        ))
+    }
+}
+
+/**
+ * Rescales the midpoints of an outcome set so that they sum to exactly `one`. Every price is rounded down
+ * and the units that leaves go to the largest remainders (ties to the earlier token), so every tally node
+ * gets the same integers. The sum is within the tolerance of `one`, which keeps the products within a `u128`.
+ */
+fn normalize(aggregated: &mut [TokenAggregate], set: &[usize], sum: u128, one: u128) {
+    let mut remainders: Vec<(u128, usize)> = Vec::with_capacity(set.len());
+    let mut assigned = 0;
+    for (position, index) in set.iter().enumerate() {
+        let scaled = aggregated[*index].mid * one;
+        aggregated[*index].mid = scaled / sum;
+        assigned += scaled / sum;
+        remainders.push((scaled % sum, position));
+    }
+
+    remainders.sort_by(|a, b| b.0.cmp(&a.0).then(a.1.cmp(&b.1)));
+    for (_, position) in remainders.iter().take((one - assigned) as usize) {
+        aggregated[set[*position]].mid += 1;
+    }
+}
+
+/**
+ * Median of an optional field, or 0 unless more than half of the quotes have it.
+ */
+fn field_median(quotes: &[&Quote], decimals: u32, field: fn(&Quote) -> Option<Decimal>) -> u128 {
+    let mut values: Vec<u128> = quotes
+        .iter()
+        .filter_map(|quote| field(quote))
+        .map(|value| value.to_fixed(decimals))
+        .collect();
+
+    if values.len() * 2 > quotes.len() {
+        median(&mut values)
+    } else {
+        0
+    }
+}
+
+/**
+ * Returns the array length reported by the most reveals,
+ * or `None` if several lengths are tied for the majority.
+ */
+fn majority_length(reveal_sets: &[Vec<TokenReveal>]) -> Option<usize> {
+    let mut counts: Vec<(usize, usize)> = Vec::new();
+    for tokens in reveal_sets {
+        match counts
+            .iter_mut()
+            .find(|(length, _)| *length == tokens.len())
+        {
+            Some((_, count)) => *count += 1,
+            None => counts.push((tokens.len(), 1)),
+        }
+    }
+
+    let max_count = counts.iter().map(|(_, count)| *count).max()?;
+    let mut leaders = counts.iter().filter(|(_, count)| *count == max_count);
+    let (length, _) = leaders.next()?;
+
+    match leaders.next() {
+        Some(_) => None,
+        None => Some(*length),
+    }
+}
+
+/**
+ * Median of a non-empty list of fixed-point values. For even counts the two middle values
+ * are averaged, rounding half up so every tally node gets the same integer.
+ */
+fn median(values: &mut [u128]) -> u128 {
+    values.sort_unstable();
+
+    let middle = values.len() / 2;
+    if values.len().is_multiple_of(2) {
+        (values[middle - 1] + values[middle]).div_ceil(2)
+    } else {
+        values[middle]
+    }
+}
@@ -0,0 +1,41 @@
+use crate::fixed_point::{Decimal, MAX_DECIMALS};
+
+/**
+ * Time-weighted average of a price history, such as the one the CLOB returns for a token.
+ * The window ends at `end`, the time of the execution, and every sample holds its price until the next
+ * one, the latest until the end. Samples are weighted by the seconds they hold within the window, so a
+ * price that was only quoted for a moment barely moves the average. The sample before the window starts
+ * carries its price into it, so a history that stopped updating averages to its last price.
+ *
+ * Returns `None` if no sample is older than `end` or the weighted sum would overflow.
+ */
+pub fn time_weighted_average(samples: &[(u64, Decimal)], end: u64, window: u64) -> Option<Decimal> {
+    let mut samples = samples.to_vec();
+    samples.sort_by_key(|(timestamp, _)| *timestamp);
+
+    let start = end.saturating_sub(window);
+
+    let mut weighted_sum: u128 = 0;
+    let mut total_weight: u128 = 0;
+    for (index, (timestamp, price)) in samples.iter().enumerate() {
+        let held_until = samples.get(index + 1).map_or(end, |(next, _)| *next);
+        let weight = held_until.min(end).saturating_sub((*timestamp).max(start));
+        if weight == 0 {
+            continue;
+        }
+
+        let weighted = price
+            .to_fixed(MAX_DECIMALS)
+            .checked_mul(u128::from(weight))?;
+        weighted_sum = weighted_sum.checked_add(weighted)?;
+        total_weight += u128::from(weight);
+    }
+
+    if total_weight == 0 {
+        return None;
+    }
+
+    // Round half up, like every other conversion, so executors with the same history agree
+    let average = weighted_sum.checked_add(total_weight / 2)? / total_weight;
+    Some(Decimal::from_fixed(average, MAX_DECIMALS))
+}
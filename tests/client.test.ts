@@ -0,0 +1,245 @@
+import { describe, it, expect } from "bun:test";
+import {
+  decodeExecInputs,
+  decodeMarketFields,
+  decodeReveal,
+  decodeTallyResult,
+  describeStatus,
+  encodeExecInputs,
+  encodeMarketFields,
+  encodeReveal,
+  encodeTallyInputs,
+  encodeTallyResult,
+  encodeTokenIds,
+  encodeUint256Arrays,
+  formatPrice,
+  hasPrice,
+  isValidTokenId,
+  outcomeSetIndices,
+  parseMarketFields,
+  parseOutcomeSets,
+  parsePrice,
+  parseTokenIds,
+  PriceStatus,
+  toDecimal,
+  toHex,
+  type TokenReveal,
+} from "../packages/client/src";
+
+const YES_TOKEN = "47060861968389645577251408086188258199430417779776802737050665875266354301946";
+const NO_TOKEN = "12905796939799815677187294753823746821359945387637800747970148392857538825639";
+
+describe("token IDs", () => {
+  it("should accept decimal uint256 token IDs", () => {
+    expect(isValidTokenId(YES_TOKEN)).toBe(true);
+    expect(isValidTokenId(((1n << 256n) - 1n).toString())).toBe(true);
+  });
+
+  it("should reject malformed token IDs", () => {
+    expect(isValidTokenId("")).toBe(false);
+    expect(isValidTokenId("0x1234")).toBe(false);
+    expect(isValidTokenId("0123")).toBe(false);
+    expect(isValidTokenId("eth-usdc")).toBe(false);
+    expect(isValidTokenId((1n << 256n).toString())).toBe(false);
+  });
+
+  it("should parse comma-separated lists with whitespace", () => {
+    expect(parseTokenIds(` ${YES_TOKEN} ,\n${NO_TOKEN},`)).toEqual([YES_TOKEN, NO_TOKEN]);
+    expect(() => parseTokenIds(" , ")).toThrow("At least one token ID is required");
+    expect(() => parseTokenIds(`${YES_TOKEN},abc`)).toThrow('Invalid Polymarket token ID: "abc"');
+  });
+
+  it("should round-trip execution inputs", () => {
+    expect(encodeTokenIds([YES_TOKEN, NO_TOKEN])).toBe(`${YES_TOKEN},${NO_TOKEN}`);
+    expect(decodeExecInputs(encodeExecInputs([YES_TOKEN, NO_TOKEN]))).toEqual({
+      tokenIds: [YES_TOKEN, NO_TOKEN],
+      fields: [],
+    });
+    expect(() => encodeExecInputs([])).toThrow();
+  });
+
+  it("should switch to JSON inputs when order-book fields are requested", () => {
+    const encoded = encodeExecInputs([YES_TOKEN], ["bid", "last_trade"]);
+
+    expect(Buffer.from(encoded).toString()).toBe(`{"token_ids":["${YES_TOKEN}"],"fields":["bid","last_trade"]}`);
+    expect(decodeExecInputs(encoded)).toEqual({ tokenIds: [YES_TOKEN], fields: ["bid", "last_trade"] });
+    expect(() => decodeExecInputs(Buffer.from('{"token_ids":["1"],"fields":["volume"]}'))).toThrow();
+  });
+
+  it("should select the TWAP mode with its window and interval", () => {
+    const encoded = encodeExecInputs([YES_TOKEN], [], { window: 7200, interval: 300 });
+
+    expect(Buffer.from(encoded).toString()).toBe(
+      `{"token_ids":["${YES_TOKEN}"],"fields":[],"mode":"twap","window":7200,"interval":300}`
+    );
+    expect(decodeExecInputs(encoded)).toEqual({
+      tokenIds: [YES_TOKEN],
+      fields: [],
+      twap: { window: 7200, interval: 300 },
+    });
+    expect(decodeExecInputs(Buffer.from(`{"token_ids":["${YES_TOKEN}"],"mode":"twap"}`)).twap).toEqual({
+      window: 3600,
+      interval: 60,
+    });
+    expect(decodeExecInputs(Buffer.from(`{"token_ids":["${YES_TOKEN}"],"mode":"spot"}`)).twap).toBeUndefined();
+
+    expect(() => encodeExecInputs([YES_TOKEN], [], { window: 3600, interval: 90 })).toThrow("multiple of 60");
+    expect(() => encodeExecInputs([YES_TOKEN], [], { window: 60, interval: 300 })).toThrow("TWAP window");
+    expect(() => encodeExecInputs([YES_TOKEN], [], { window: 31 * 24 * 3600, interval: 60 })).toThrow("TWAP window");
+    expect(() => decodeExecInputs(Buffer.from('{"token_ids":["1"],"mode":"vwap"}'))).toThrow('unknown mode "vwap"');
+  });
+
+  it("should parse market field lists", () => {
+    expect(parseMarketFields("bid, ask,spread,bid")).toEqual(["bid", "ask", "spread"]);
+    expect(() => parseMarketFields("bid,depth")).toThrow('Unknown market field "depth"');
+  });
+
+  it("should encode market fields as the bit set of the PriceFeed contract", () => {
+    expect(encodeMarketFields(["bid", "ask", "spread", "last_trade"])).toBe(0x0f);
+    expect(encodeMarketFields(["last_trade", "bid"])).toBe(9);
+    expect(encodeMarketFields([])).toBe(0);
+    expect(decodeMarketFields(9n)).toEqual(["bid", "last_trade"]);
+    expect(decodeMarketFields(0)).toEqual([]);
+  });
+});
+
+describe("reveals", () => {
+  it("should round-trip token entries", () => {
+    const tokens: TokenReveal[] = [
+      { status: "ok", mid: "0.505" },
+      { status: "ok", mid: "0.495", bid: "0.49", ask: "0.5", spread: "0.01", last_trade: "0.5" },
+      { status: "ok", mid: "0.5", twap: "0.4975" },
+      { status: "ok", mid: "1" },
+      { status: "resolved", outcome: "1" },
+      { status: "resolved", outcome: "0" },
+      { status: "closed" },
+      { status: "fetch_failed" },
+      { status: "parse_failed" },
+    ];
+
+    expect(decodeReveal(encodeReveal(tokens))).toEqual(tokens);
+  });
+
+  it("should reject reveals that are not token arrays", () => {
+    expect(() => decodeReveal(Buffer.from("Error while fetching midpoint information"))).toThrow();
+    expect(() => decodeReveal(Buffer.from("[0.5]"))).toThrow("Reveal is not an array of token entries");
+    expect(() => decodeReveal(Buffer.from('[{"status":"unknown"}]'))).toThrow();
+    expect(() => decodeReveal(Buffer.from('[{"status":"ok","mid":"0.5","bid":null}]'))).toThrow();
+    expect(() => decodeReveal(Buffer.from('[{"status":"resolved"}]'))).toThrow();
+    expect(() => decodeReveal(Buffer.from('[{"status":"resolved","outcome":1}]'))).toThrow();
+  });
+
+  it("should only accept prices as plain decimal strings", () => {
+    // Numbers would lose the exact decimal the CLOB returned
+    expect(() => decodeReveal(Buffer.from('[{"status":"ok","mid":0.5}]'))).toThrow();
+    for (const mid of ["", ".", "-0.5", "1e-3", "NaN", "0.5 "]) {
+      expect(() => decodeReveal(encodeReveal([{ status: "ok", mid }]))).toThrow();
+    }
+    for (const mid of ["0.005", "0.999", "1", ".5", "0.50"]) {
+      expect(decodeReveal(encodeReveal([{ status: "ok", mid }]))).toEqual([{ status: "ok", mid }]);
+    }
+  });
+});
+
+describe("tally results", () => {
+  it("should encode the result like abi.encode(uint256[], uint8[], uint256[], uint256[], uint256[], uint256[], uint256[])", () => {
+    const encoded = encodeTallyResult([
+      { status: PriceStatus.Ok, price: 105000n, bid: 100000n, ask: 110000n, twap: 102000n },
+    ]);
+    const word = (value: number) => value.toString(16).padStart(64, "0");
+
+    expect(toHex(encoded)).toBe(
+      "0x" +
+        [0xe0, 0x120, 0x160, 0x1a0, 0x1e0, 0x220, 0x260].map(word).join("") +
+        [1, 105000].map(word).join("") +
+        [1, 0].map(word).join("") +
+        [1, 100000].map(word).join("") +
+        [1, 110000].map(word).join("") +
+        [1, 0].map(word).join("") +
+        [1, 0].map(word).join("") +
+        [1, 102000].map(word).join("")
+    );
+  });
+
+  it("should decode the tally result from hex or bytes", () => {
+    const prices = [
+      {
+        status: PriceStatus.Ok,
+        price: 505000n,
+        bid: 500000n,
+        ask: 510000n,
+        spread: 10000n,
+        lastTrade: 505000n,
+        twap: 498000n,
+      },
+      { status: PriceStatus.ParseFailed, price: 0n, bid: 0n, ask: 0n, spread: 0n, lastTrade: 0n, twap: 0n },
+    ];
+    const encoded = encodeTallyResult(prices);
+
+    expect(decodeTallyResult(encoded)).toEqual(prices);
+    expect(decodeTallyResult(toHex(encoded))).toEqual(prices);
+  });
+
+  it("should reject malformed results", () => {
+    expect(() => decodeTallyResult(encodeTallyResult([{ status: PriceStatus.Ok, price: 1n }]).slice(0, 96))).toThrow(
+      "ABI data too short"
+    );
+    expect(() => decodeTallyResult(encodeUint256Arrays([[1n, 2n], [0n], [], [], [], [], []]))).toThrow(
+      "Tally result has 2 prices but an array of 1 entries"
+    );
+    expect(() => decodeTallyResult(encodeUint256Arrays([[1n], [7n], [0n], [0n], [0n], [0n], [0n]]))).toThrow(
+      "Unknown price status 7"
+    );
+  });
+
+  it("should describe price statuses", () => {
+    expect(describeStatus(PriceStatus.Ok)).toBe("ok");
+    expect(describeStatus(1n)).toBe("fetch failed");
+    expect(describeStatus(2)).toBe("parse failed");
+    expect(describeStatus(PriceStatus.Resolved)).toBe("resolved");
+    expect(describeStatus(4n)).toBe("market closed");
+    // Resolved tokens are priced at their final outcome, closed ones are not priced
+    expect([0, 1, 2, 3, 4].map(hasPrice)).toEqual([true, false, false, true, false]);
+  });
+
+  it("should convert the 1e6 fixed point to decimals", () => {
+    expect(formatPrice(505000n)).toBe("0.505");
+    expect(formatPrice(1000000n)).toBe("1");
+    expect(formatPrice(5000n)).toBe("0.005");
+    expect(toDecimal(999000n)).toBe(0.999);
+    expect(parsePrice("0.505")).toBe(505000n);
+    expect(parsePrice("1")).toBe(1000000n);
+    expect(() => parsePrice("0.0000001")).toThrow();
+  });
+
+  it("should encode tally inputs", () => {
+    expect(encodeTallyInputs()).toEqual(new Uint8Array());
+    expect(encodeTallyInputs({})).toEqual(new Uint8Array());
+    expect(Buffer.from(encodeTallyInputs({ decimals: 8 })).toString()).toBe('{"decimals":8}');
+    expect(Buffer.from(encodeTallyInputs({ decimals: 0 })).toString()).toBe('{"decimals":0}');
+    expect(() => encodeTallyInputs({ decimals: 19 })).toThrow("between 0 and 18");
+    expect(() => encodeTallyInputs({ decimals: 2.5 })).toThrow();
+  });
+
+  it("should encode outcome sets with their tolerance", () => {
+    expect(Buffer.from(encodeTallyInputs({ outcomeSets: [[0, 1]] })).toString()).toBe('{"outcome_sets":[[0,1]]}');
+    const inputs = encodeTallyInputs({ decimals: 8, outcomeSets: [[1, 0], [2, 3, 4]], tolerance: "0.02", normalize: true });
+    expect(Buffer.from(inputs).toString()).toBe(
+      '{"decimals":8,"outcome_sets":[[1,0],[2,3,4]],"tolerance":"0.02","normalize":true}'
+    );
+    expect(() => encodeTallyInputs({ outcomeSets: [[0]] })).toThrow("at least 2 tokens");
+    expect(() => encodeTallyInputs({ outcomeSets: [[0, 1], [1, 2]] })).toThrow("more than one outcome set");
+    expect(() => encodeTallyInputs({ outcomeSets: [[0, 1]], tolerance: "1.5" })).toThrow("between 0 and 1");
+    expect(() => encodeTallyInputs({ outcomeSets: [[0, 1]], tolerance: "-0.1" })).toThrow("between 0 and 1");
+  });
+
+  it("should group token IDs into outcome sets", () => {
+    const sets = parseOutcomeSets(`${YES_TOKEN}, ${NO_TOKEN};1,2,3`);
+    expect(sets).toEqual([[YES_TOKEN, NO_TOKEN], ["1", "2", "3"]]);
+    expect(outcomeSetIndices(["3", YES_TOKEN, "1", NO_TOKEN, "2"], sets)).toEqual([[1, 3], [2, 4, 0]]);
+
+    expect(() => parseOutcomeSets(YES_TOKEN)).toThrow("at least 2 token IDs");
+    expect(() => parseOutcomeSets(`${YES_TOKEN},${NO_TOKEN};${NO_TOKEN},1`)).toThrow("more than one outcome set");
+    expect(() => outcomeSetIndices([YES_TOKEN], sets)).toThrow(`Token ${NO_TOKEN} of an outcome set is not requested`);
+  });
+});
@@ -1,56 +1,755 @@
-import { afterEach, describe, it, expect, mock } from "bun:test";
+import { describe, it, expect } from "bun:test";
 import { file } from "bun";
 import { testOracleProgramExecution, testOracleProgramTally } from "@seda-protocol/dev-tools"
-import { BigNumber } from 'bignumber.js'
+import {
+  decodeReveal,
+  decodeTallyResult,
+  encodeExecInputs,
+  encodeReveal,
+  encodeTallyInputs,
+  OUTCOME_SET_VIOLATION_EXIT_CODE,
+  PriceStatus,
+  type TokenPrice,
+  type TokenReveal,
+} from "../packages/client/src";
+import { ClobMock } from "../packages/client/src/clob-mock";
 
 const WASM_PATH = "target/wasm32-wasip1/release-wasm/oracle-program.wasm";
 
-const fetchMock = mock();
+const YES_TOKEN = "47060861968389645577251408086188258199430417779776802737050665875266354301946";
+const NO_TOKEN = "12905796939799815677187294753823746821359945387637800747970148392857538825639";
+const UNKNOWN_TOKEN = "99999999999999999999999999999999999999999999999999999999999999999999999999999";
 
-afterEach(() => {
-  fetchMock.mockRestore();
-});
+const FETCH_FAILED: TokenReveal = { status: "fetch_failed" };
+const PARSE_FAILED: TokenReveal = { status: "parse_failed" };
+
+async function loadOracleProgram(): Promise<Buffer> {
+  return Buffer.from(await file(WASM_PATH).arrayBuffer());
+}
+
+function ok(mid: string): TokenReveal {
+  return { status: "ok", mid };
+}
+
+function price(value: bigint, status = PriceStatus.Ok, book: Partial<TokenPrice> = {}): TokenPrice {
+  return { status, price: value, bid: 0n, ask: 0n, spread: 0n, lastTrade: 0n, twap: 0n, ...book };
+}
+
+// Builds the reveal of a single executor for `testOracleProgramTally`
+function executorReveal(tokens: TokenReveal[], inConsensus = true) {
+  return {
+    exitCode: 0,
+    gasUsed: 0,
+    inConsensus,
+    result: Buffer.from(encodeReveal(tokens)),
+  };
+}
 
 describe("data request execution", () => {
-  it("should aggregate the results from the different APIs", async () => {
-    fetchMock.mockImplementation((url) => {
-      if (url.host === "api.binance.com") {
-        return new Response(JSON.stringify({ price: "2452.30000" }));
-      }
+  it("should fetch the midpoint of every requested token", async () => {
+    const clob = new ClobMock({ midpoints: { [YES_TOKEN]: "0.505", [NO_TOKEN]: "0.495" } });
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN, NO_TOKEN])),
+      clob.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([ok("0.505"), ok("0.495")]);
+    // The markets of all tokens are looked up on the Gamma API at once, before any midpoint is fetched
+    expect(clob.requests.map((url) => url.pathname)).toEqual(["/markets", "/midpoint", "/midpoint"]);
+    expect(clob.requests[0].searchParams.getAll("clob_token_ids")).toEqual([YES_TOKEN, NO_TOKEN]);
+    const midpoints = clob.requests.filter((url) => url.pathname === "/midpoint");
+    expect(midpoints.map((url) => url.searchParams.get("token_id"))).toEqual([YES_TOKEN, NO_TOKEN]);
+  });
+
+  it("should ignore surrounding whitespace in the inputs", async () => {
+    const clob = new ClobMock({ midpoints: { [YES_TOKEN]: "0.12" } });
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(`  ${YES_TOKEN}\n`),
+      clob.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([ok("0.12")]);
+  });
+
+  it("should report a token without an order book as fetch failed and keep the others", async () => {
+    const clob = new ClobMock({ midpoints: { [YES_TOKEN]: "0.505", [NO_TOKEN]: "0.495" } });
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN, UNKNOWN_TOKEN, NO_TOKEN])),
+      clob.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([ok("0.505"), FETCH_FAILED, ok("0.495")]);
+  });
+
+  it("should report a CLOB server error as fetch failed", async () => {
+    const clob = new ClobMock({ midpoints: { [YES_TOKEN]: "0.505" } }).failWith(YES_TOKEN, 503);
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(YES_TOKEN),
+      clob.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([FETCH_FAILED]);
+  });
+
+  it("should report a midpoint that is not a number as parse failed", async () => {
+    const clob = new ClobMock({ midpoints: { [YES_TOKEN]: "not-a-price", [NO_TOKEN]: "NaN" } });
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN, NO_TOKEN])),
+      clob.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([PARSE_FAILED, PARSE_FAILED]);
+  });
+
+  it("should reveal midpoints as the exact decimal strings of the CLOB", async () => {
+    const clob = new ClobMock({ midpoints: { [YES_TOKEN]: "0.50", [NO_TOKEN]: "1" } });
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN, NO_TOKEN])),
+      clob.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([ok("0.50"), ok("1")]);
+  });
+
+  it("should report negative and exponent midpoints as parse failed", async () => {
+    const clob = new ClobMock({ midpoints: { [YES_TOKEN]: "-0.5", [NO_TOKEN]: "5e-1" } });
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN, NO_TOKEN])),
+      clob.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([PARSE_FAILED, PARSE_FAILED]);
+  });
+});
+
+describe("order-book fields", () => {
+  const clob = () =>
+    new ClobMock({
+      midpoints: { [YES_TOKEN]: "0.505", [NO_TOKEN]: "0.495" },
+      books: {
+        [YES_TOKEN]: { bids: ["0.48", "0.5"], asks: ["0.53", "0.51"] },
+        [NO_TOKEN]: { bids: ["0.49"], asks: [] },
+      },
+      lastTrades: { [YES_TOKEN]: "0.52" },
+    });
+
+  it("should only fetch the midpoint for comma-separated inputs", async () => {
+    const mock = clob();
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN])),
+      mock.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([ok("0.505")]);
+    expect(mock.requests.map((url) => url.pathname)).toEqual(["/markets", "/midpoint"]);
+  });
+
+  it("should fetch the best bid, best ask, spread and last trade when requested", async () => {
+    const mock = clob();
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN, NO_TOKEN], ["bid", "ask", "spread", "last_trade"])),
+      mock.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    const [yes, no] = decodeReveal(vmResult.result);
+    // The spread is subtracted exactly, without float noise like 0.010000000000000009
+    expect(yes).toEqual({ status: "ok", mid: "0.505", bid: "0.5", ask: "0.51", spread: "0.01", last_trade: "0.52" });
+    // An empty ask side leaves the ask and spread out, a missing last trade keeps the token priced
+    expect(no).toEqual({ status: "ok", mid: "0.495", bid: "0.49" });
+  });
+
+  it("should only fetch the book for the fields that need it", async () => {
+    const mock = clob();
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN], ["last_trade"])),
+      mock.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([{ status: "ok", mid: "0.505", last_trade: "0.52" }]);
+    expect(mock.requests.map((url) => url.pathname)).toEqual(["/markets", "/midpoint", "/last-trade-price"]);
+  });
+
+  it("should fail on malformed JSON inputs", async () => {
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from('{"token_ids":["1"],"fields":["volume"]}'),
+      clob().fetch
+    );
+
+    expect(vmResult.exitCode).toBe(1);
+    expect(Buffer.from(vmResult.result).toString()).toBe("Invalid data request inputs");
+  });
+
+  it("should tally the median of every order-book field", async () => {
+    const quote = (mid: string, bid: string, ask: string, spread: string, lastTrade: string): TokenReveal => ({
+      status: "ok",
+      mid,
+      bid,
+      ask,
+      spread,
+      last_trade: lastTrade,
+    });
+
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([quote("0.505", "0.5", "0.51", "0.01", "0.52")]),
+      executorReveal([quote("0.5", "0.49", "0.51", "0.02", "0.5")]),
+      executorReveal([quote("0.51", "0.5", "0.52", "0.02", "0.51")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([
+      price(505000n, PriceStatus.Ok, { bid: 500000n, ask: 510000n, spread: 20000n, lastTrade: 510000n }),
+    ]);
+  });
+
+  it("should report 0 for a field most executors did not reveal", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([{ status: "ok", mid: "0.5", bid: "0.49" }]),
+      executorReveal([{ status: "ok", mid: "0.5", bid: "0.48", ask: "0.51" }]),
+      executorReveal([{ status: "ok", mid: "0.5", bid: "0.49" }]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(500000n, PriceStatus.Ok, { bid: 490000n })]);
+  });
+});
+
+describe("TWAP mode", () => {
+  // One sample a minute, the CLOB returns prices as JSON numbers and answers a minute after the last sample
+  const clob = (now = 1700000240) =>
+    new ClobMock({
+      midpoints: { [YES_TOKEN]: "0.62", [NO_TOKEN]: "0.38" },
+      histories: {
+        [YES_TOKEN]: [
+          { t: 1700000000, p: 0.5 },
+          { t: 1700000060, p: 0.5 },
+          { t: 1700000120, p: 0.5 },
+          { t: 1700000180, p: 0.62 },
+        ],
+      },
+      now,
+    });
+
+  it("should reveal the TWAP alongside the spot midpoint", async () => {
+    const mock = clob();
+
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN], [], { window: 240, interval: 60 })),
+      mock.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    // A last-minute jump to 0.62 only moves the average by a quarter of it
+    expect(decodeReveal(vmResult.result)).toEqual([{ status: "ok", mid: "0.62", twap: "0.53" }]);
+    const history = mock.requests.find((url) => url.pathname === "/prices-history");
+    expect(history?.searchParams.get("market")).toBe(YES_TOKEN);
+    expect(history?.searchParams.get("interval")).toBe("1h");
+    expect(history?.searchParams.get("fidelity")).toBe("1");
+  });
+
+  it("should weight samples by the part of the window they cover", async () => {
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN], [], { window: 120, interval: 60 })),
+      clob().fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([{ status: "ok", mid: "0.62", twap: "0.56" }]);
+  });
+
+  it("should end the window when the CLOB answers", async () => {
+    // Two minutes after the last sample, the last price holds for three of the four minutes
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN], [], { window: 240, interval: 60 })),
+      clob(1700000360).fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([{ status: "ok", mid: "0.62", twap: "0.59" }]);
+
+    // A history that stopped updating long ago averages to its last price
+    const staleResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN], [], { window: 240, interval: 60 })),
+      clob(1700086400).fetch
+    );
+    expect(decodeReveal(staleResult.result)).toEqual([{ status: "ok", mid: "0.62", twap: "0.62" }]);
+  });
+
+  it("should request the smallest history range covering the window", async () => {
+    const mock = clob();
+
+    await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN], [], { window: 2 * 24 * 3600, interval: 900 })),
+      mock.fetch
+    );
+
+    const history = mock.requests.find((url) => url.pathname === "/prices-history");
+    expect(history?.searchParams.get("interval")).toBe("1w");
+    expect(history?.searchParams.get("fidelity")).toBe("15");
+  });
+
+  it("should keep the midpoint when a token has no price history", async () => {
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN, NO_TOKEN], [], { window: 3600, interval: 60 })),
+      clob().fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    // A window longer than the history averages as much of it as there is
+    expect(decodeReveal(vmResult.result)).toEqual([
+      { status: "ok", mid: "0.62", twap: "0.53" },
+      { status: "ok", mid: "0.38" },
+    ]);
+  });
+
+  it("should not fetch the price history in spot mode", async () => {
+    const mock = clob();
 
-      return new Response('Unknown request');
+    await testOracleProgramExecution(await loadOracleProgram(), Buffer.from(encodeExecInputs([YES_TOKEN])), mock.fetch);
+
+    expect(mock.requests.map((url) => url.pathname)).toEqual(["/markets", "/midpoint"]);
+  });
+
+  it("should fail on an invalid window", async () => {
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(`{"token_ids":["${YES_TOKEN}"],"mode":"twap","window":30,"interval":60}`),
+      clob().fetch
+    );
+
+    expect(vmResult.exitCode).toBe(1);
+    expect(Buffer.from(vmResult.result).toString()).toBe("Invalid data request inputs");
+  });
+
+  it("should tally the median TWAP next to the median midpoint", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([{ status: "ok", mid: "0.62", twap: "0.53" }]),
+      executorReveal([{ status: "ok", mid: "0.6", twap: "0.531" }]),
+      executorReveal([{ status: "ok", mid: "0.61" }]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(610000n, PriceStatus.Ok, { twap: 530500n })]);
+  });
+});
+
+describe("data request tally", () => {
+  it("should ABI-encode the revealed prices scaled by 1e6 with their statuses", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.505"), ok("0.495"), ok("0.0125")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(505000n), price(495000n), price(12500n)]);
+  });
+
+  it("should encode a single token as one-element arrays", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.88")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(Buffer.from(vmResult.result).length).toBe(32 * 21);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(880000n)]);
+  });
+
+  it("should keep failed tokens in place with their status", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.505"), FETCH_FAILED, PARSE_FAILED, ok("0.495")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([
+      price(505000n),
+      price(0n, PriceStatus.FetchFailed),
+      price(0n, PriceStatus.ParseFailed),
+      price(495000n),
+    ]);
+  });
+
+  it("should fail when the reveal is not a JSON token array", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      { ...executorReveal([]), result: Buffer.from("Error while fetching midpoint information") },
+    ]);
+
+    expect(vmResult.exitCode).toBe(1);
+    expect(Buffer.from(vmResult.result).toString()).toBe("Failed to parse revealed prices");
+  });
+
+  it("should convert awkward decimals to fixed point exactly", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.005"), ok("0.999"), ok("1"), ok("0.57"), ok("2452.3")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([
+      price(5000n),
+      price(999000n),
+      price(1000000n),
+      price(570000n),
+      price(2452300000n),
+    ]);
+  });
+
+  it("should use 6 decimals for empty and 0x00 tally inputs", async () => {
+    for (const tallyInputs of [Buffer.from([]), Buffer.from([0])]) {
+      const vmResult = await testOracleProgramTally(await loadOracleProgram(), tallyInputs, [
+        executorReveal([ok("0.005")]),
+      ]);
+
+      expect(vmResult.exitCode).toBe(0);
+      expect(decodeTallyResult(vmResult.result)).toEqual([price(5000n)]);
+    }
+  });
+
+  it("should scale to the decimals selected in the tally inputs", async () => {
+    const reveals = [executorReveal([ok("0.005"), ok("0.999"), ok("1")])];
+
+    const eight = await testOracleProgramTally(
+      await loadOracleProgram(),
+      Buffer.from(encodeTallyInputs({ decimals: 8 })),
+      reveals
+    );
+    expect(eight.exitCode).toBe(0);
+    expect(decodeTallyResult(eight.result)).toEqual([price(500000n), price(99900000n), price(100000000n)]);
+
+    // Dropped digits round half up: 0.005 -> 0.01, 0.999 -> 1.00
+    const two = await testOracleProgramTally(
+      await loadOracleProgram(),
+      Buffer.from(encodeTallyInputs({ decimals: 2 })),
+      reveals
+    );
+    expect(two.exitCode).toBe(0);
+    expect(decodeTallyResult(two.result)).toEqual([price(1n), price(100n), price(100n)]);
+  });
+
+  it("should fail on invalid tally inputs", async () => {
+    for (const tallyInputs of [
+      '{"decimals":19}',
+      '{"decimals":-1}',
+      '{"precision":8}',
+      "8",
+      '{"outcome_sets":[[0]]}',
+      '{"outcome_sets":[[0,1],[1,2]]}',
+      '{"tolerance":"1.5"}',
+    ]) {
+      const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from(tallyInputs), [
+        executorReveal([ok("0.5")]),
+      ]);
+
+      expect(vmResult.exitCode).toBe(1);
+      expect(Buffer.from(vmResult.result).toString()).toBe("Invalid tally inputs");
+    }
+  });
+
+  it("should fail without any reveals", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), []);
+
+    expect(vmResult.exitCode).toBe(1);
+    expect(Buffer.from(vmResult.result).toString()).toBe("No consensus among revealed results");
+  });
+});
+
+describe("multi-executor tally", () => {
+  it("should take the per-token median across all reveals", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.5"), ok("0.4")]),
+      executorReveal([ok("0.51"), ok("0.41")]),
+      executorReveal([ok("0.52"), ok("0.4")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(510000n), price(400000n)]);
+    expect(vmResult.stdout).toContain("Used 3 of 3 reveals");
+  });
+
+  it("should not let a single outlier move the price", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.3"), ok("0.7")]),
+      executorReveal([ok("0.99"), ok("0.01")]),
+      executorReveal([ok("0.3"), ok("0.7")]),
+      executorReveal([ok("0.31"), ok("0.69")]),
+      executorReveal([ok("0.0"), ok("1.0")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(300000n), price(700000n)]);
+  });
+
+  it("should average the two middle values for an even number of reveals", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.64")]),
+      executorReveal([ok("0.6")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(620000n)]);
+  });
+
+  it("should round the average of the two middle values half up", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.000001")]),
+      executorReveal([ok("0.000002")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(2n)]);
+  });
+
+  it("should price a token that most executors could fetch", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.5"), ok("0.3")]),
+      executorReveal([FETCH_FAILED, FETCH_FAILED]),
+      executorReveal([ok("0.52"), FETCH_FAILED]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(510000n), price(0n, PriceStatus.FetchFailed)]);
+  });
+
+  it("should report the most common failure when most executors failed", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([PARSE_FAILED]),
+      executorReveal([PARSE_FAILED]),
+      executorReveal([FETCH_FAILED]),
+      executorReveal([ok("0.5")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(0n, PriceStatus.ParseFailed)]);
+  });
+
+  it("should reject reveals with a mismatched array length", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.5"), ok("0.4")]),
+      executorReveal([ok("0.5")]),
+      executorReveal([ok("0.52"), ok("0.4")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(510000n), price(400000n)]);
+    expect(vmResult.stdout).toContain("Used 2 of 3 reveals");
+  });
+
+  it("should fail when no array length has a majority", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.5"), ok("0.4")]),
+      executorReveal([ok("0.5")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(1);
+    expect(Buffer.from(vmResult.result).toString()).toBe("Revealed price arrays have mismatched lengths");
+  });
+
+  it("should ignore reveals that are not in consensus", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([ok("0.99")], false),
+      executorReveal([ok("0.3")]),
+      executorReveal([ok("0.99")], false),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(300000n)]);
+    expect(vmResult.stdout).toContain("Used 1 of 1 reveals");
+  });
+
+  it("should skip reveals that are not token arrays", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      { ...executorReveal([]), result: Buffer.from("Error while fetching midpoint information") },
+      executorReveal([ok("0.7")]),
+      executorReveal([ok("0.7")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(700000n)]);
+    expect(vmResult.stdout).toContain("Used 2 of 3 reveals");
+  });
+});
+
+describe("outcome sets", () => {
+  const tally = (tallyInputs: Parameters<typeof encodeTallyInputs>[0], tokens: TokenReveal[]) =>
+    loadOracleProgram().then((program) =>
+      testOracleProgramTally(program, Buffer.from(encodeTallyInputs(tallyInputs)), [executorReveal(tokens)])
+    );
+
+  it("should keep the prices of a set that sums to 1 within the tolerance", async () => {
+    const vmResult = await tally({ outcomeSets: [[0, 1]] }, [ok("0.505"), ok("0.515")]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(505000n), price(515000n)]);
+  });
+
+  it("should fail with a distinct exit code when a set does not sum to 1", async () => {
+    const vmResult = await tally({ outcomeSets: [[0, 1], [2, 3, 4]], tolerance: "0.02" }, [
+      ok("0.5"),
+      ok("0.5"),
+      ok("0.3"),
+      ok("0.3"),
+      ok("0.3"),
+    ]);
+
+    expect(vmResult.exitCode).toBe(OUTCOME_SET_VIOLATION_EXIT_CODE);
+    expect(Buffer.from(vmResult.result).toString()).toBe(
+      "Outcome sets are more than 0.02 away from 1: outcome set 1 sums to 0.9"
+    );
+  });
+
+  it("should normalize the prices of a set to sum to exactly 1", async () => {
+    const vmResult = await tally({ outcomeSets: [[0, 1], [2, 3, 4]], normalize: true }, [
+      ok("0.505"),
+      ok("0.515"),
+      ok("0.33"),
+      ok("0.33"),
+      ok("0.33"),
+    ]);
+
+    // The units lost to rounding down go to the largest remainders, ties to the earlier token
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([
+      price(495098n),
+      price(504902n),
+      price(333334n),
+      price(333333n),
+      price(333333n),
+    ]);
+  });
+
+  it("should skip a set with a token that could not be priced", async () => {
+    const vmResult = await tally({ outcomeSets: [[0, 1]], normalize: true }, [ok("0.9"), FETCH_FAILED]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(900000n), price(0n, PriceStatus.FetchFailed)]);
+    expect(vmResult.stdout).toContain("Skipping outcome set 0");
+  });
+
+  it("should fail on outcome sets that refer to tokens outside the request", async () => {
+    const vmResult = await tally({ outcomeSets: [[0, 2]] }, [ok("0.5"), ok("0.5")]);
+
+    expect(vmResult.exitCode).toBe(1);
+    expect(Buffer.from(vmResult.result).toString()).toBe("Invalid tally inputs");
+  });
+});
+
+describe("closed and resolved markets", () => {
+  const market = (closed: boolean, outcomePrices?: string[]) => ({
+    conditionId: "0xe3b1bc389210504ebcb9cffe4b0ed06ccac50561e0f24abb6379984cec030f00",
+    slug: "will-it-rain-tomorrow",
+    question: "Will it rain tomorrow?",
+    outcomes: [
+      { outcome: "Yes", tokenId: YES_TOKEN },
+      { outcome: "No", tokenId: NO_TOKEN },
+    ],
+    closed,
+    outcomePrices,
+  });
+
+  it("should report the final outcome of a resolved market without fetching its midpoint", async () => {
+    const clob = new ClobMock({
+      midpoints: { [YES_TOKEN]: "0.5", [NO_TOKEN]: "0.5" },
+      markets: [market(true, ["0", "1"])],
     });
 
-    const oracleProgram = await file(WASM_PATH).arrayBuffer();
+    const vmResult = await testOracleProgramExecution(
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN, NO_TOKEN])),
+      clob.fetch
+    );
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([
+      { status: "resolved", outcome: "0" },
+      { status: "resolved", outcome: "1" },
+    ]);
+    expect(clob.requests.map((url) => url.pathname)).toEqual(["/markets"]);
+  });
+
+  it("should report a market that closed without a final outcome as closed", async () => {
+    // Until the market resolves, its outcome prices are those of the last trades
+    const clob = new ClobMock({
+      midpoints: { [YES_TOKEN]: "0.5" },
+      markets: [market(true, ["0.9995", "0.0005"])],
+    });
+
+    const vmResult = await testOracleProgramExecution(await loadOracleProgram(), Buffer.from(YES_TOKEN), clob.fetch);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeReveal(vmResult.result)).toEqual([{ status: "closed" }]);
+  });
+
+  it("should price tokens of open markets and of markets that cannot be looked up", async () => {
+    const clob = new ClobMock({
+      midpoints: { [YES_TOKEN]: "0.505", [UNKNOWN_TOKEN]: "0.3" },
+      markets: [market(false, ["0.505", "0.495"])],
+    });
 
     const vmResult = await testOracleProgramExecution(
-      Buffer.from(oracleProgram),
-      Buffer.from("eth-usdc"),
-      fetchMock
+      await loadOracleProgram(),
+      Buffer.from(encodeExecInputs([YES_TOKEN, UNKNOWN_TOKEN])),
+      clob.fetch
     );
 
     expect(vmResult.exitCode).toBe(0);
-    // BigNumber.js is big endian
-    const hex = Buffer.from(vmResult.result.toReversed()).toString('hex');
-    const result = BigNumber(`0x${hex}`);
-    expect(result).toEqual(BigNumber('2452300032'));
+    expect(decodeReveal(vmResult.result)).toEqual([ok("0.505"), ok("0.3")]);
   });
 
-  it('should tally all results in a single data point', async () => {
-    const oracleProgram = await file(WASM_PATH).arrayBuffer();
+  it("should tally the final outcome when most executors saw the market resolved", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([{ status: "resolved", outcome: "1" }, { status: "closed" }]),
+      executorReveal([{ status: "resolved", outcome: "1" }, { status: "closed" }]),
+      executorReveal([ok("0.999"), ok("0.5")]),
+    ]);
+
+    expect(vmResult.exitCode).toBe(0);
+    expect(decodeTallyResult(vmResult.result)).toEqual([
+      price(1000000n, PriceStatus.Resolved),
+      price(0n, PriceStatus.Closed),
+    ]);
+  });
 
-    // Result from the execution test
-    let buffer = Buffer.from([0, 33, 43, 146, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
-    const vmResult = await testOracleProgramTally(Buffer.from(oracleProgram), Buffer.from('tally-inputs'), [{
-      exitCode: 0,
-      gasUsed: 0,
-      inConsensus: true,
-      result: buffer,
-    }]);
+  it("should keep pricing a token while only a minority saw its market resolved", async () => {
+    const vmResult = await testOracleProgramTally(await loadOracleProgram(), Buffer.from([]), [
+      executorReveal([{ status: "resolved", outcome: "1" }]),
+      executorReveal([ok("0.98")]),
+      executorReveal([ok("0.99")]),
+    ]);
 
     expect(vmResult.exitCode).toBe(0);
-    const hex = Buffer.from(vmResult.result).toString('hex');
-    const result = BigNumber(`0x${hex}`);
-    expect(result).toEqual(BigNumber('2452300032'));
+    expect(decodeTallyResult(vmResult.result)).toEqual([price(985000n)]);
   });
 });
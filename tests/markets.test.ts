@@ -0,0 +1,228 @@
+import { afterAll, describe, it, expect } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MarketResolver, isConditionId, isEventId, parseMarketRefs, rankByPrice } from "../packages/client/src";
+import { ClobMock, type MockMarket } from "../packages/client/src/clob-mock";
+import { GammaMock, type MockEvent } from "./mocks/gamma";
+
+const RAIN_MARKET: MockMarket = {
+  conditionId: "0x9915bea232fa12b20058f9cea1187ea51366352bf833393676cd0db557a58249",
+  slug: "will-it-rain-in-london-tomorrow",
+  question: "Will it rain in London tomorrow?",
+  outcomes: [
+    { outcome: "Yes", tokenId: "47060861968389645577251408086188258199430417779776802737050665875266354301946" },
+    { outcome: "No", tokenId: "12905796939799815677187294753823746821359945387637800747970148392857538825639" },
+  ],
+};
+
+// One market per candidate, the outcomes are exclusive (negative risk)
+function candidateMarket(name: string, index: number, closed = false): MockMarket {
+  return {
+    conditionId: `0x${String(index).repeat(64)}`,
+    slug: `will-${name.toLowerCase()}-win-the-election`,
+    question: `Will ${name} win the election?`,
+    groupItemTitle: name,
+    outcomes: [
+      { outcome: "Yes", tokenId: `${index}00` },
+      { outcome: "No", tokenId: `${index}01` },
+    ],
+    closed,
+  };
+}
+
+const ELECTION_EVENT: MockEvent = {
+  id: "903",
+  slug: "presidential-election-winner",
+  title: "Presidential Election Winner",
+  negRisk: true,
+  markets: [candidateMarket("Alice", 1), candidateMarket("Bob", 2, true), candidateMarket("Carol", 3)],
+};
+
+const RAIN_EVENT: MockEvent = {
+  id: "904",
+  slug: "will-it-rain-in-london-tomorrow",
+  title: "Will it rain in London tomorrow?",
+  markets: [RAIN_MARKET],
+};
+
+// Independent markets of one event, several of them can resolve to Yes
+const RECORDS_EVENT: MockEvent = {
+  id: "905",
+  slug: "olympic-records",
+  title: "Olympic records",
+  markets: [candidateMarket("Sprint", 4), candidateMarket("Marathon", 5)],
+};
+
+const tempDir = mkdtempSync(join(tmpdir(), "markets-"));
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+function createResolver(cacheFile: string | false = false) {
+  const gamma = new GammaMock([RAIN_MARKET], [ELECTION_EVENT, RAIN_EVENT, RECORDS_EVENT]);
+  const clob = new ClobMock({ markets: [RAIN_MARKET] });
+  const resolver = new MarketResolver({
+    cacheFile,
+    fetch: (input) => (new URL(input).host === "gamma-api.polymarket.com" ? gamma.fetch(input) : clob.fetch(input)),
+  });
+
+  return { gamma, clob, resolver };
+}
+
+describe("market references", () => {
+  it("should parse slugs and condition IDs with outcomes", () => {
+    expect(parseMarketRefs(`will-it-rain-in-london-tomorrow:No, ${RAIN_MARKET.conditionId}:Yes`)).toEqual([
+      { market: "will-it-rain-in-london-tomorrow", outcome: "No" },
+      { market: RAIN_MARKET.conditionId, outcome: "Yes" },
+    ]);
+  });
+
+  it("should default to the Yes outcome", () => {
+    expect(parseMarketRefs("will-it-rain-in-london-tomorrow")).toEqual([
+      { market: "will-it-rain-in-london-tomorrow", outcome: "Yes" },
+    ]);
+  });
+
+  it("should reject empty references", () => {
+    expect(() => parseMarketRefs(" , ")).toThrow("At least one market is required");
+    expect(() => parseMarketRefs(":Yes")).toThrow("Invalid market reference");
+  });
+
+  it("should tell condition IDs from slugs", () => {
+    expect(isConditionId(RAIN_MARKET.conditionId)).toBe(true);
+    expect(isConditionId(RAIN_MARKET.slug)).toBe(false);
+  });
+});
+
+describe("market resolver", () => {
+  it("should resolve slugs through the Gamma API", async () => {
+    const { resolver, gamma, clob } = createResolver();
+
+    const tokenIds = await resolver.resolveTokenIds(parseMarketRefs(`${RAIN_MARKET.slug}:Yes,${RAIN_MARKET.slug}:no`));
+
+    expect(tokenIds).toEqual([RAIN_MARKET.outcomes[0].tokenId, RAIN_MARKET.outcomes[1].tokenId]);
+    expect(gamma.requests).toHaveLength(1);
+    expect(gamma.requests[0].searchParams.get("slug")).toBe(RAIN_MARKET.slug);
+    expect(clob.requests).toHaveLength(0);
+  });
+
+  it("should resolve condition IDs through the CLOB API", async () => {
+    const { resolver, gamma, clob } = createResolver();
+
+    const tokenId = await resolver.resolveTokenId({ market: RAIN_MARKET.conditionId, outcome: "No" });
+
+    expect(tokenId).toBe(RAIN_MARKET.outcomes[1].tokenId);
+    expect(clob.requests[0].pathname).toBe(`/markets/${RAIN_MARKET.conditionId}`);
+    expect(gamma.requests).toHaveLength(0);
+  });
+
+  it("should report unknown markets and outcomes", async () => {
+    const { resolver } = createResolver();
+
+    await expect(resolver.resolveTokenId({ market: "no-such-market", outcome: "Yes" })).rejects.toThrow(
+      'Polymarket market "no-such-market" not found'
+    );
+    await expect(resolver.resolveTokenId({ market: `0x${"0".repeat(64)}`, outcome: "Yes" })).rejects.toThrow(
+      "not found"
+    );
+    await expect(resolver.resolveTokenId({ market: RAIN_MARKET.slug, outcome: "Maybe" })).rejects.toThrow(
+      'Outcome "Maybe" not found in market "will-it-rain-in-london-tomorrow", available: Yes, No'
+    );
+  });
+
+  it("should cache resolved markets in a file", async () => {
+    const cacheFile = join(tempDir, "cache.json");
+    const first = createResolver(cacheFile);
+    await first.resolver.resolveTokenId({ market: RAIN_MARKET.slug, outcome: "Yes" });
+
+    expect(existsSync(cacheFile)).toBe(true);
+    expect(JSON.parse(readFileSync(cacheFile, "utf8"))[RAIN_MARKET.conditionId]).toEqual({
+      conditionId: RAIN_MARKET.conditionId,
+      slug: RAIN_MARKET.slug,
+      question: RAIN_MARKET.question,
+      tokens: { Yes: RAIN_MARKET.outcomes[0].tokenId, No: RAIN_MARKET.outcomes[1].tokenId },
+    });
+
+    // A fresh resolver finds the market by slug and by condition ID without calling any API
+    const second = createResolver(cacheFile);
+    await second.resolver.resolveTokenId({ market: RAIN_MARKET.slug, outcome: "No" });
+    await second.resolver.resolveTokenId({ market: RAIN_MARKET.conditionId, outcome: "Yes" });
+
+    expect(second.gamma.requests).toHaveLength(0);
+    expect(second.clob.requests).toHaveLength(0);
+  });
+});
+
+describe("event resolver", () => {
+  it("should tell event IDs from slugs", () => {
+    expect(isEventId(ELECTION_EVENT.id)).toBe(true);
+    expect(isEventId(ELECTION_EVENT.slug)).toBe(false);
+  });
+
+  it("should price every open market of an event by its Yes token", async () => {
+    const { resolver, gamma } = createResolver();
+
+    const event = await resolver.getEvent(ELECTION_EVENT.slug);
+
+    expect(event).toEqual({
+      id: "903",
+      slug: ELECTION_EVENT.slug,
+      title: ELECTION_EVENT.title,
+      exclusive: true,
+      outcomes: [
+        { label: "Alice", tokenId: "100", conditionId: `0x${"1".repeat(64)}` },
+        { label: "Carol", tokenId: "300", conditionId: `0x${"3".repeat(64)}` },
+      ],
+    });
+    expect(gamma.requests[0].pathname).toBe("/events");
+    expect(gamma.requests[0].searchParams.get("slug")).toBe(ELECTION_EVENT.slug);
+  });
+
+  it("should look events up by ID", async () => {
+    const { resolver, gamma } = createResolver();
+
+    const event = await resolver.getEvent(ELECTION_EVENT.id);
+
+    expect(event.slug).toBe(ELECTION_EVENT.slug);
+    expect(gamma.requests[0].pathname).toBe(`/events/${ELECTION_EVENT.id}`);
+  });
+
+  it("should list the outcomes of a single-market event", async () => {
+    const { resolver } = createResolver();
+
+    const event = await resolver.getEvent(RAIN_EVENT.slug);
+
+    expect(event.exclusive).toBe(true);
+    expect(event.outcomes.map(({ label, tokenId }) => [label, tokenId])).toEqual([
+      ["Yes", RAIN_MARKET.outcomes[0].tokenId],
+      ["No", RAIN_MARKET.outcomes[1].tokenId],
+    ]);
+  });
+
+  it("should not treat independent markets as exclusive", async () => {
+    const { resolver } = createResolver();
+
+    const event = await resolver.getEvent(RECORDS_EVENT.slug);
+
+    expect(event.exclusive).toBe(false);
+    expect(event.outcomes.map(({ label }) => label)).toEqual(["Sprint", "Marathon"]);
+  });
+
+  it("should report unknown and closed events", async () => {
+    const { resolver } = createResolver();
+    const closed = new GammaMock([], [{ ...RECORDS_EVENT, markets: [candidateMarket("Sprint", 4, true)] }]);
+    const closedResolver = new MarketResolver({ cacheFile: false, fetch: closed.fetch });
+
+    await expect(resolver.getEvent("no-such-event")).rejects.toThrow('Polymarket event "no-such-event" not found');
+    await expect(resolver.getEvent("1")).rejects.toThrow('Polymarket event "1" not found');
+    await expect(closedResolver.getEvent(RECORDS_EVENT.slug)).rejects.toThrow("has no open market");
+  });
+
+  it("should rank outcomes by price with unpriced outcomes last", () => {
+    const prices: Record<string, bigint | undefined> = { a: 100n, b: undefined, c: 700n, d: 100n };
+
+    expect(rankByPrice(Object.keys(prices), (key) => prices[key])).toEqual(["c", "a", "d", "b"]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * In-process stand-in for the Polymarket Gamma API (https://gamma-api.polymarket.com),
+ * which serves market metadata such as slugs, outcomes and CLOB token IDs, and the events grouping markets.
+ */
+
+import { jsonResponse, type MockMarket } from '../../packages/client/src/clob-mock';
+
+const GAMMA_HOST = 'gamma-api.polymarket.com';
+
+/** An event of the mock, e.g. an election with one market per candidate */
+export interface MockEvent {
+  id: string;
+  slug: string;
+  title: string;
+  negRisk?: boolean;
+  markets: MockMarket[];
+}
+
+export class GammaMock {
+  /** Every URL requested through this mock, in call order */
+  readonly requests: URL[] = [];
+
+  constructor(
+    private readonly markets: MockMarket[] = [],
+    private readonly events: MockEvent[] = [],
+  ) {}
+
+  /**
+   * Fetch-compatible handler.
+   */
+  fetch = async (input: string | URL | Request): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    this.requests.push(url);
+
+    if (url.host !== GAMMA_HOST) {
+      return jsonResponse({ error: `Unexpected host ${url.host}` }, 502);
+    }
+
+    const eventId = url.pathname.match(/^\/events\/([^/]+)$/)?.[1];
+    if (eventId !== undefined) {
+      const event = this.events.find((entry) => entry.id === eventId);
+      return event ? jsonResponse(toGammaEvent(event)) : jsonResponse({ error: 'Not found' }, 404);
+    }
+
+    switch (url.pathname) {
+      case '/markets':
+        return this.listMarkets(url.searchParams);
+      case '/events':
+        return this.listEvents(url.searchParams);
+      default:
+        return jsonResponse({ error: 'Not found' }, 404);
+    }
+  };
+
+  // Like the real API, list fields are JSON-encoded strings and unknown slugs yield an empty list
+  private listMarkets(params: URLSearchParams): Response {
+    const slug = params.get('slug');
+    const markets = this.markets.filter((market) => slug === null || market.slug === slug);
+
+    return jsonResponse(markets.map(toGammaMarket));
+  }
+
+  private listEvents(params: URLSearchParams): Response {
+    const slug = params.get('slug');
+    const events = this.events.filter((event) => slug === null || event.slug === slug);
+
+    return jsonResponse(events.map(toGammaEvent));
+  }
+}
+
+function toGammaMarket(market: MockMarket) {
+  return {
+    conditionId: market.conditionId,
+    slug: market.slug,
+    question: market.question,
+    outcomes: JSON.stringify(market.outcomes.map(({ outcome }) => outcome)),
+    clobTokenIds: JSON.stringify(market.outcomes.map(({ tokenId }) => tokenId)),
+    groupItemTitle: market.groupItemTitle,
+    closed: market.closed ?? false,
+  };
+}
+
+// Event IDs are numbers in the Gamma API
+function toGammaEvent(event: MockEvent) {
+  return {
+    id: Number(event.id),
+    slug: event.slug,
+    title: event.title,
+    negRisk: event.negRisk ?? false,
+    markets: event.markets.map(toGammaMarket),
+  };
+}
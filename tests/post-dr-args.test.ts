@@ -0,0 +1,201 @@
+import { afterAll, describe, it, expect } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parsePostDrArgs } from "../scripts/post-dr-args";
+
+const YES_TOKEN = "47060861968389645577251408086188258199430417779776802737050665875266354301946";
+const NO_TOKEN = "12905796939799815677187294753823746821359945387637800747970148392857538825639";
+
+const tempDir = mkdtempSync(join(tmpdir(), "post-dr-args-"));
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("post-dr arguments", () => {
+  it("should default to no consensus filter and a timestamp memo", () => {
+    const options = parsePostDrArgs(["--token-ids", YES_TOKEN]);
+
+    expect(options.tokenIds).toEqual([YES_TOKEN]);
+    expect(options.consensusOptions).toEqual({ method: "none" });
+    expect(Number.isNaN(Date.parse(options.memo))).toBe(false);
+    expect(options.json).toBe(false);
+    expect(options.replicationFactor).toBeUndefined();
+    expect(options.fields).toEqual([]);
+    expect(options.awaitDrId).toBeUndefined();
+    expect(options.timeoutSeconds).toBe(300);
+    expect(options.pollIntervalSeconds).toBe(10);
+  });
+
+  it("should combine repeated --token-ids flags and drop duplicates", () => {
+    const options = parsePostDrArgs(["--token-ids", `${YES_TOKEN},${NO_TOKEN}`, "--token-ids", YES_TOKEN]);
+
+    expect(options.tokenIds).toEqual([YES_TOKEN, NO_TOKEN]);
+  });
+
+  it("should read token IDs from a file", () => {
+    const path = join(tempDir, "tokens.txt");
+    writeFileSync(path, `# Yes outcome\n${YES_TOKEN}\n\n${NO_TOKEN} # No outcome\n`);
+
+    expect(parsePostDrArgs(["--token-file", path]).tokenIds).toEqual([YES_TOKEN, NO_TOKEN]);
+  });
+
+  it("should accept market references instead of token IDs", () => {
+    const options = parsePostDrArgs(["--markets", "will-it-rain:No,other-market", "--market-cache", "markets.json"]);
+
+    expect(options.tokenIds).toEqual([]);
+    expect(options.markets).toEqual([
+      { market: "will-it-rain", outcome: "No" },
+      { market: "other-market", outcome: "Yes" },
+    ]);
+    expect(options.marketCacheFile).toBe("markets.json");
+  });
+
+  it("should collect order-book fields", () => {
+    const options = parsePostDrArgs(["--token-ids", YES_TOKEN, "--fields", "bid,ask", "--fields", "spread"]);
+
+    expect(options.fields).toEqual(["bid", "ask", "spread"]);
+  });
+
+  it("should select the TWAP mode", () => {
+    expect(parsePostDrArgs(["--token-ids", YES_TOKEN]).twap).toBeUndefined();
+    expect(parsePostDrArgs(["--token-ids", YES_TOKEN, "--mode", "twap"]).twap).toEqual({ window: 3600, interval: 60 });
+    expect(
+      parsePostDrArgs(["--token-ids", YES_TOKEN, "--mode", "twap", "--window", "86400", "--interval", "900"]).twap
+    ).toEqual({ window: 86400, interval: 900 });
+
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--mode", "vwap"])).toThrow('Unknown mode "vwap"');
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--window", "600"])).toThrow("--mode twap");
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--mode", "twap", "--interval", "30"])).toThrow(
+      "multiple of 60"
+    );
+  });
+
+  it("should add the tokens of outcome sets to the request", () => {
+    const options = parsePostDrArgs([
+      "--token-ids",
+      "1",
+      "--outcome-sets",
+      `${YES_TOKEN},${NO_TOKEN}`,
+      "--outcome-sets",
+      "2,3;1,4",
+      "--tolerance",
+      "0.02",
+      "--normalize",
+    ]);
+
+    expect(options.tokenIds).toEqual(["1", YES_TOKEN, NO_TOKEN, "2", "3", "4"]);
+    expect(options.outcomeSets).toEqual([[YES_TOKEN, NO_TOKEN], ["2", "3"], ["1", "4"]]);
+    expect(options.tolerance).toBe("0.02");
+    expect(options.normalize).toBe(true);
+
+    expect(parsePostDrArgs(["--token-ids", YES_TOKEN]).outcomeSets).toEqual([]);
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--normalize"])).toThrow("--outcome-sets");
+    expect(() => parsePostDrArgs(["--outcome-sets", "1,2", "--tolerance", "2"])).toThrow("between 0 and 1");
+    expect(() => parsePostDrArgs(["--outcome-sets", "1,2;2,3"])).toThrow("more than one outcome set");
+  });
+
+  it("should price every outcome of an event", () => {
+    const options = parsePostDrArgs(["--event", "presidential-election-winner-2028", "--normalize"]);
+
+    expect(options.event).toBe("presidential-election-winner-2028");
+    expect(options.tokenIds).toEqual([]);
+    expect(options.normalize).toBe(true);
+
+    expect(parsePostDrArgs(["--event", "903", "--tolerance", "0.1"]).tolerance).toBe("0.1");
+    expect(() => parsePostDrArgs(["--event", "903", "--token-ids", YES_TOKEN])).toThrow(
+      "--event already lists every token"
+    );
+    expect(() => parsePostDrArgs(["--event", "903", "--outcome-sets", "1,2"])).toThrow(
+      "--event already lists every token"
+    );
+    expect(() => parsePostDrArgs(["--event", " "])).toThrow("--event must be an event ID or slug");
+  });
+
+  it("should parse request parameters", () => {
+    const options = parsePostDrArgs([
+      "--token-ids", YES_TOKEN,
+      "--replication-factor", "3",
+      "--exec-gas-limit", "50000000000000",
+      "--tally-gas-limit", "20000000000000",
+      "--gas-price", "2000",
+      "--decimals", "8",
+      "--consensus", "mode",
+      "--memo", "nightly run",
+      "--json",
+    ]);
+
+    expect(options.replicationFactor).toBe(3);
+    expect(options.execGasLimit).toBe(50000000000000);
+    expect(options.tallyGasLimit).toBe(20000000000000);
+    expect(options.gasPrice).toBe(2000n);
+    expect(options.decimals).toBe(8);
+    expect(options.consensusOptions).toEqual({ method: "mode", jsonPath: "$" });
+    expect(options.memo).toBe("nightly run");
+    expect(options.json).toBe(true);
+  });
+
+  it("should reject invalid arguments", () => {
+    expect(() => parsePostDrArgs([])).toThrow("No token IDs given");
+    expect(() => parsePostDrArgs(["--markets", ":No"])).toThrow("Invalid market reference");
+    expect(() => parsePostDrArgs(["--token-ids", "eth-usdc"])).toThrow("Invalid Polymarket token ID");
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--replication-factor", "0"])).toThrow(
+      "--replication-factor must be a positive integer"
+    );
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--replication-factor", "1e3"])).toThrow(
+      '--replication-factor must be a positive integer, got "1e3"'
+    );
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--replication-factor", "0x10"])).toThrow(
+      '--replication-factor must be a positive integer, got "0x10"'
+    );
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--decimals", "19"])).toThrow(
+      "--decimals must be an integer between 0 and 18"
+    );
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--consensus", "median"])).toThrow(
+      'Unknown consensus method "median"'
+    );
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--fields", "volume"])).toThrow(
+      'Unknown market field "volume"'
+    );
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--unknown"])).toThrow();
+  });
+
+  it("should attach to a posted request with --await", () => {
+    const drId = "a".repeat(64);
+    const options = parsePostDrArgs([
+      "--await", `0x${drId.toUpperCase()}`,
+      "--dr-height", "1234",
+      "--timeout", "60",
+      "--poll-interval", "5",
+    ]);
+
+    expect(options.awaitDrId).toBe(drId);
+    expect(options.drHeight).toBe(1234n);
+    expect(options.tokenIds).toEqual([]);
+    expect(options.timeoutSeconds).toBe(60);
+    expect(options.pollIntervalSeconds).toBe(5);
+  });
+
+  it("should reject invalid --await arguments", () => {
+    const drId = "a".repeat(64);
+
+    expect(() => parsePostDrArgs(["--await", "0x1234", "--dr-height", "1"])).toThrow(
+      "--await must be a data request ID"
+    );
+    expect(() => parsePostDrArgs(["--await", drId])).toThrow("--await needs the block height");
+    expect(() => parsePostDrArgs(["--token-ids", YES_TOKEN, "--dr-height", "1"])).toThrow(
+      "--dr-height can only be used with --await"
+    );
+    expect(() => parsePostDrArgs(["--await", drId, "--dr-height", "1", "--timeout", "0"])).toThrow(
+      "--timeout must be a positive integer"
+    );
+    expect(() => parsePostDrArgs(["--await", drId, "--dr-height", "1", "--timeout", "1e3"])).toThrow(
+      '--timeout must be a positive integer, got "1e3"'
+    );
+  });
+
+  it("should not require token IDs for --help", () => {
+    expect(parsePostDrArgs(["--help"]).help).toBe(true);
+  });
+});
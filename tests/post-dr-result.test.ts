@@ -0,0 +1,208 @@
+import { describe, it, expect } from "bun:test";
+import { OUTCOME_SET_VIOLATION_EXIT_CODE, PriceStatus, encodeTallyResult, toHex } from "../packages/client/src";
+import {
+  EXIT_CODES,
+  ResultTimeoutError,
+  awaitResult,
+  exitCodeFor,
+  interpretResult,
+  rankOutcomes,
+  type DataResult,
+} from "../scripts/post-dr-result";
+
+const YES_TOKEN = "47060861968389645577251408086188258199430417779776802737050665875266354301946";
+const NO_TOKEN = "12905796939799815677187294753823746821359945387637800747970148392857538825639";
+const DR_ID = "a".repeat(64);
+
+function dataResult(overrides: Partial<DataResult> = {}): DataResult {
+  return {
+    drId: DR_ID,
+    consensus: true,
+    exitCode: 0,
+    result: toHex(
+      encodeTallyResult([
+        { status: PriceStatus.Ok, price: 505000n, bid: 500000n, ask: 510000n, spread: 10000n },
+        { status: PriceStatus.FetchFailed, price: 0n },
+      ])
+    ),
+    ...overrides,
+  };
+}
+
+// Clock for awaitResult that only moves when the watcher sleeps
+function fakeClock() {
+  const clock = { now: 0, sleeps: [] as number[] };
+  return {
+    clock,
+    now: () => clock.now,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.now += ms;
+    },
+  };
+}
+
+describe("post-dr result", () => {
+  it("should decode the tally into decimal prices labelled with their token IDs", () => {
+    const outcome = interpretResult(dataResult(), [YES_TOKEN, NO_TOKEN]);
+
+    expect(outcome).toEqual({
+      kind: "prices",
+      prices: [
+        {
+          tokenId: YES_TOKEN,
+          status: "ok",
+          mid: "0.505",
+          bid: "0.5",
+          ask: "0.51",
+          spread: "0.01",
+          lastTrade: "-",
+          twap: "-",
+        },
+        {
+          tokenId: NO_TOKEN,
+          status: "fetch failed",
+          mid: "-",
+          bid: "-",
+          ask: "-",
+          spread: "-",
+          lastTrade: "-",
+          twap: "-",
+        },
+      ],
+    });
+    expect(exitCodeFor(outcome)).toBe(EXIT_CODES.success);
+  });
+
+  it("should label prices by index without token IDs and honour the decimals", () => {
+    const result = dataResult({ result: toHex(encodeTallyResult([{ status: PriceStatus.Ok, price: 50500000n }])) });
+    const outcome = interpretResult(result, [], 8);
+
+    expect(outcome.kind === "prices" && outcome.prices.map(({ tokenId, mid }) => [tokenId, mid])).toEqual([
+      ["#0", "0.505"],
+    ]);
+  });
+
+  it("should show the final outcome of resolved markets", () => {
+    const result = dataResult({
+      result: toHex(
+        encodeTallyResult([
+          { status: PriceStatus.Resolved, price: 1000000n },
+          { status: PriceStatus.Closed, price: 0n },
+        ])
+      ),
+    });
+    const outcome = interpretResult(result, [YES_TOKEN, NO_TOKEN]);
+
+    expect(outcome.kind === "prices" && outcome.prices.map(({ status, mid }) => [status, mid])).toEqual([
+      ["resolved", "1"],
+      ["market closed", "-"],
+    ]);
+  });
+
+  it("should label and rank the outcomes of an event", () => {
+    const result = dataResult({
+      result: toHex(
+        encodeTallyResult([
+          { status: PriceStatus.Ok, price: 120000n },
+          { status: PriceStatus.FetchFailed, price: 0n },
+          { status: PriceStatus.Ok, price: 610000n },
+          { status: PriceStatus.Ok, price: 120000n },
+        ])
+      ),
+    });
+    const outcome = interpretResult(result, ["1", "2", "3", "4"]);
+    if (outcome.kind !== "prices") {
+      throw new Error(`Expected prices, got ${outcome.kind}`);
+    }
+
+    const ranked = rankOutcomes(outcome.prices, ["Alice", "Bob", "Carol", "Dave"]);
+    expect(ranked.map(({ rank, outcome, tokenId, mid }) => [rank, outcome, tokenId, mid])).toEqual([
+      [1, "Carol", "3", "0.61"],
+      [2, "Alice", "1", "0.12"],
+      [3, "Dave", "4", "0.12"],
+      [4, "Bob", "2", "-"],
+    ]);
+    expect(() => rankOutcomes(outcome.prices, ["Alice"])).toThrow("Result has 4 prices but the event has 1 outcomes");
+  });
+
+  it("should reject a result with a different number of prices than token IDs", () => {
+    expect(() => interpretResult(dataResult(), [YES_TOKEN])).toThrow(
+      "Result has 2 prices but 1 token IDs were given"
+    );
+  });
+
+  it("should separate no consensus from oracle program errors", () => {
+    const noConsensus = interpretResult(dataResult({ consensus: false, exitCode: 1 }), [YES_TOKEN, NO_TOKEN]);
+    expect(noConsensus).toEqual({ kind: "no_consensus" });
+    expect(exitCodeFor(noConsensus)).toBe(EXIT_CODES.noConsensus);
+
+    const programError = interpretResult(
+      dataResult({ exitCode: 1, result: toHex(new TextEncoder().encode("Invalid tally inputs")) }),
+      [YES_TOKEN, NO_TOKEN]
+    );
+    expect(programError).toEqual({ kind: "program_error", exitCode: 1, message: "Invalid tally inputs" });
+    expect(exitCodeFor(programError)).toBe(EXIT_CODES.programError);
+  });
+
+  it("should report a violated outcome set with its own exit code", () => {
+    const message = "Outcome sets are more than 0.05 away from 1: outcome set 0 sums to 1.12";
+    const violation = interpretResult(
+      dataResult({ exitCode: OUTCOME_SET_VIOLATION_EXIT_CODE, result: toHex(new TextEncoder().encode(message)) }),
+      [YES_TOKEN, NO_TOKEN]
+    );
+    expect(violation).toEqual({ kind: "outcome_set_violation", message });
+    expect(exitCodeFor(violation)).toBe(EXIT_CODES.outcomeSetViolation);
+  });
+
+  it("should poll until a result is available", async () => {
+    const { clock, now, sleep } = fakeClock();
+    const remaining: number[] = [];
+    const result = await awaitResult(
+      DR_ID,
+      async (remainingSeconds) => {
+        remaining.push(remainingSeconds);
+        return remaining.length === 3 ? dataResult() : undefined;
+      },
+      { timeoutSeconds: 60, pollIntervalSeconds: 10, now, sleep }
+    );
+
+    expect(result.drId).toBe(DR_ID);
+    expect(remaining).toEqual([60, 50, 40]);
+    expect(clock.sleeps).toEqual([10000, 10000]);
+  });
+
+  it("should retry failed queries", async () => {
+    const { now, sleep } = fakeClock();
+    const retried: unknown[] = [];
+    let attempts = 0;
+    const result = await awaitResult(
+      DR_ID,
+      async () => {
+        attempts++;
+        if (attempts < 3) {
+          throw new Error("ECONNREFUSED");
+        }
+        return dataResult();
+      },
+      { timeoutSeconds: 60, pollIntervalSeconds: 10, now, sleep, onRetry: (error) => retried.push(error) }
+    );
+
+    expect(result.drId).toBe(DR_ID);
+    expect(retried.map((error) => (error as Error).message)).toEqual(["ECONNREFUSED", "ECONNREFUSED"]);
+  });
+
+  it("should time out without a result", async () => {
+    const { clock, now, sleep } = fakeClock();
+    const watching = awaitResult(DR_ID, async () => undefined, {
+      timeoutSeconds: 25,
+      pollIntervalSeconds: 10,
+      now,
+      sleep,
+    });
+
+    await expect(watching).rejects.toBeInstanceOf(ResultTimeoutError);
+    await expect(watching).rejects.toThrow(`No result for data request ${DR_ID} after 25s`);
+    expect(clock.sleeps).toEqual([10000, 10000, 5000]);
+  });
+});